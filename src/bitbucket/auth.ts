@@ -0,0 +1,121 @@
+import { DEFAULT_OAUTH_TOKEN_FILE, OAuthAuth, OAuthTokenStore } from "./oauth.js";
+
+/**
+ * How requests to Bitbucket are authenticated:
+ * - `bearer`: `Authorization: Bearer <token>` (Cloud repository/workspace access tokens, DC HTTP access tokens)
+ * - `basic`: HTTP Basic with a username and password (Cloud app passwords, DC account passwords)
+ * - `api-token`: HTTP Basic with an Atlassian account email and API token (Cloud API tokens)
+ * - `oauth`: OAuth 2.0 consumer with refreshed access tokens (Cloud only, see `OAuthAuth`)
+ */
+export type AuthMode = "bearer" | "basic" | "api-token" | "oauth";
+
+export const AUTH_MODES: readonly AuthMode[] = ["bearer", "basic", "api-token", "oauth"];
+
+/** Produces the `Authorization` header sent with every request. */
+export interface AuthStrategy {
+    readonly mode: AuthMode;
+
+    authorization(): string | Promise<string>;
+
+    /** Renew the credentials after a 401; resolves true when the request is worth retrying. */
+    refresh?(): Promise<boolean>;
+}
+
+/** Credentials as read from the configuration; which ones are needed depends on the mode. */
+export interface AuthCredentials {
+    authMode?: AuthMode;
+    token?: string;
+    username?: string;
+    password?: string;
+    oauthClientId?: string;
+    oauthClientSecret?: string;
+
+    /** Encrypted token file (default: `~/.config/host-mcp-bitbucket/oauth-tokens.json`). */
+    oauthTokenFile?: string;
+
+    /** Secret the token file is encrypted with (default: the client secret). */
+    oauthEncryptionKey?: string;
+    oauthRedirectPort?: number;
+}
+
+export function bearerAuth(token: string): AuthStrategy {
+    return { mode: "bearer", authorization: () => `Bearer ${token}` };
+}
+
+export function basicAuth(username: string, secret: string, mode: "basic" | "api-token" = "basic"): AuthStrategy {
+    const encoded = Buffer.from(`${username}:${secret}`).toString("base64");
+
+    return { mode, authorization: () => `Basic ${encoded}` };
+}
+
+/**
+ * The configured auth mode, or the one implied by the credentials when none is set:
+ * OAuth client id + secret → `oauth`, username + password → `basic`, username + token → `api-token`, otherwise `bearer`.
+ */
+export function resolveAuthMode(credentials: AuthCredentials): AuthMode {
+    if (credentials.authMode) return credentials.authMode;
+
+    if (credentials.oauthClientId && credentials.oauthClientSecret) return "oauth";
+
+    if (credentials.username && credentials.password) return "basic";
+
+    if (credentials.username && credentials.token) return "api-token";
+
+    return "bearer";
+}
+
+/** How error messages name each credential setting. */
+export type AuthSettingNames = Record<"token" | "username" | "password" | "oauthClientId" | "oauthClientSecret", string>;
+
+/** The CLI flag / env var pair of each credential setting. */
+export const AUTH_SETTING_FLAGS: AuthSettingNames = {
+    token: "--bitbucket-token or BITBUCKET_TOKEN",
+    username: "--bitbucket-username or BITBUCKET_USERNAME",
+    password: "--bitbucket-password or BITBUCKET_PASSWORD",
+    oauthClientId: "--oauth-client-id or BITBUCKET_OAUTH_CLIENT_ID",
+    oauthClientSecret: "--oauth-client-secret or BITBUCKET_OAUTH_CLIENT_SECRET"
+};
+
+/** Settings required by `mode` that are missing from `credentials`, named by `names`. */
+export function missingAuthSettings(mode: AuthMode, credentials: AuthCredentials, names = AUTH_SETTING_FLAGS): string[] {
+    const missing: string[] = [];
+
+    if (mode === "oauth") {
+        if (!credentials.oauthClientId) missing.push(names.oauthClientId);
+
+        if (!credentials.oauthClientSecret) missing.push(names.oauthClientSecret);
+
+        return missing;
+    }
+
+    if (mode !== "bearer" && !credentials.username) missing.push(mode === "api-token" ? `${names.username} (Atlassian account email)` : names.username);
+
+    if (mode === "basic" && !credentials.password) missing.push(names.password);
+
+    if (mode !== "basic" && !credentials.token) missing.push(names.token);
+
+    return missing;
+}
+
+/** Build the strategy for validated credentials (see `missingAuthSettings`). */
+export function createAuthStrategy(credentials: AuthCredentials): AuthStrategy {
+    const mode = resolveAuthMode(credentials);
+
+    if (mode === "basic") return basicAuth(credentials.username!, credentials.password!);
+
+    if (mode === "api-token") return basicAuth(credentials.username!, credentials.token!, "api-token");
+
+    if (mode === "oauth") {
+        return new OAuthAuth({
+            clientId: credentials.oauthClientId!,
+            clientSecret: credentials.oauthClientSecret!,
+            store: new OAuthTokenStore(
+                credentials.oauthTokenFile ?? DEFAULT_OAUTH_TOKEN_FILE,
+                credentials.oauthEncryptionKey ?? credentials.oauthClientSecret!
+            ),
+            redirectPort: credentials.oauthRedirectPort
+        });
+    }
+
+    return bearerAuth(credentials.token!);
+}
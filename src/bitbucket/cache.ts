@@ -0,0 +1,173 @@
+import { getLogger } from "../logger.js";
+
+/** TTL of the responses whose URL path matches `pattern`. */
+export interface CacheTtlRule {
+    pattern: RegExp;
+    ttl: number;
+}
+
+export interface ResponseCacheOptions {
+
+    /** Maximum number of cached responses; the least recently used are evicted first. */
+    maxEntries: number;
+
+    /** Maximum total size in bytes of the cached bodies (default: `DEFAULT_CACHE_MAX_BYTES`); larger bodies are not cached. */
+    maxBytes?: number;
+
+    /** TTL in ms of responses matching no rule. */
+    ttl: number;
+
+    /** Per-path TTLs, first match wins (default: `DEFAULT_CACHE_TTL_RULES`). */
+    rules?: CacheTtlRule[];
+}
+
+export const DEFAULT_CACHE_MAX_BYTES = 20_000_000;
+
+/**
+ * Default per-path TTLs: content addressed by a full commit hash never changes, so it is kept for an hour.
+ * Everything else (repositories, pull requests, their diffs and comments) uses the default TTL.
+ */
+export const DEFAULT_CACHE_TTL_RULES: CacheTtlRule[] = [{ pattern: /\/(?:commits?|diff|diffstat|patch|src|raw|browse)\/[0-9a-f]{40}(?:\/|$)/, ttl: 60 * 60_000 }];
+
+/** A cached response body, fresh until `expiresAt`, then revalidated with its `etag` if it has one. */
+export interface CacheEntry {
+    body: string;
+    etag?: string;
+    expiresAt: number;
+}
+
+/** Repository (`/repositories/{ws}/{repo}`, `/projects/{key}/repos/{repo}`) and pull request part of a URL. */
+const SCOPE_PATTERN = /\/(?:repositories\/[^/]+|projects\/[^/]+\/repos)\/[^/?]+(?:\/pull-?requests\/\d+)?/;
+
+/**
+ * In-memory LRU cache of GET response bodies, keyed by URL, bounded by entry count and total body size.
+ * A `Map` keeps insertion order, so re-inserting an entry on access makes the first key the least recently used.
+ */
+export class ResponseCache {
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly rules: CacheTtlRule[];
+    private readonly maxBytes: number;
+    private bytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private revalidations = 0;
+
+    constructor(private readonly options: ResponseCacheOptions) {
+        this.rules = options.rules ?? DEFAULT_CACHE_TTL_RULES;
+        this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+    }
+
+    /**
+     * The cached entry of `url`, if any. A stale entry is only returned when it has an ETag to revalidate;
+     * the caller serves fresh entries directly and revalidates stale ones. Counters: a hit is served from
+     * the cache, a miss needs a request to Bitbucket, and a revalidation is a miss answered `304 Not Modified`.
+     */
+    lookup(url: string): CacheEntry | undefined {
+        const entry = this.entries.get(url);
+        const fresh = entry !== undefined && entry.expiresAt > Date.now();
+
+        this.count(fresh ? "hit" : "miss", url);
+
+        if (!entry) return undefined;
+
+        if (!fresh && !entry.etag) {
+            this.remove(url);
+
+            return undefined;
+        }
+
+        this.entries.delete(url);
+        this.entries.set(url, entry);
+
+        return entry;
+    }
+
+    /** Store the body of a `200` response to `url`, unless it alone exceeds the size limit. */
+    store(url: string, body: string, etag?: string): void {
+        const size = Buffer.byteLength(body);
+
+        this.remove(url);
+
+        if (size > this.maxBytes) {
+            getLogger().debug(`Cache: not caching ${url} (${size} bytes, limit ${this.maxBytes})`);
+
+            return;
+        }
+
+        this.entries.set(url, { body, etag, expiresAt: Date.now() + this.ttlOf(url) });
+        this.bytes += size;
+
+        while (this.entries.size > this.options.maxEntries || this.bytes > this.maxBytes) this.remove(this.entries.keys().next().value as string);
+    }
+
+    /** The server answered `304 Not Modified` for a stale entry: serve it for another TTL. */
+    revalidated(url: string, entry: CacheEntry): void {
+        entry.expiresAt = Date.now() + this.ttlOf(url);
+        this.count("revalidation", url);
+    }
+
+    /**
+     * Drop the entries a mutating request to `url` may have changed: everything under the same pull request
+     * and the repository's pull request listings, or everything under the same repository. A URL outside any
+     * repository (e.g. DC build statuses of a commit) only drops the entries under its own path.
+     */
+    invalidate(url: string): void {
+        const scope = SCOPE_PATTERN.exec(url)?.[0] ?? url.split("?")[0];
+        let dropped = 0;
+
+        for (const key of this.entries.keys()) {
+            if (this.inScope(key, scope)) {
+                this.remove(key);
+                dropped++;
+            }
+        }
+
+        if (dropped > 0) getLogger().debug(`Cache: invalidated ${dropped} entries for ${scope}`);
+    }
+
+    stats(): { hits: number; misses: number; revalidations: number; size: number } {
+        return { hits: this.hits, misses: this.misses, revalidations: this.revalidations, size: this.entries.size };
+    }
+
+    private remove(url: string): void {
+        const entry = this.entries.get(url);
+
+        if (!entry) return;
+
+        this.entries.delete(url);
+        this.bytes -= Buffer.byteLength(entry.body);
+    }
+
+    private inScope(key: string, scope: string): boolean {
+        if (isUnder(key, scope, ["/", "?"])) return true;
+
+        const listing = (/^(.*\/pull-?requests)\/\d+$/).exec(scope)?.[1];
+
+        return listing !== undefined && isUnder(key, listing, ["?"]);
+    }
+
+    private ttlOf(url: string): number {
+        const path = new URL(url).pathname;
+
+        return this.rules.find(rule => rule.pattern.test(path))?.ttl ?? this.options.ttl;
+    }
+
+    private count(kind: "hit" | "miss" | "revalidation", url: string): void {
+        if (kind === "hit") this.hits++;
+        else if (kind === "miss") this.misses++;
+        else this.revalidations++;
+
+        getLogger().debug(`Cache ${kind}: ${url} (hits=${this.hits}, misses=${this.misses}, revalidations=${this.revalidations})`);
+    }
+}
+
+/** Whether `url` contains `prefix` as whole path segments: followed by the end of the URL or one of `next`. */
+function isUnder(url: string, prefix: string, next: string[]): boolean {
+    const at = url.indexOf(prefix);
+
+    if (at < 0) return false;
+
+    const following = url.charAt(at + prefix.length);
+
+    return following === "" || next.includes(following);
+}
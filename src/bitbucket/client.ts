@@ -1,10 +1,21 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import { bearerAuth, type AuthStrategy } from "./auth.js";
+import { ResponseCache, type ResponseCacheOptions } from "./cache.js";
+import { parseRetryAfter, RateLimiter, type RateLimitOptions, type RateLimitStatus } from "./rate-limit.js";
+import { createTlsFetch, type TlsOptions } from "./tls.js";
 import type { BitbucketDCPaginatedResponse, BitbucketPaginatedResponse } from "./types.js";
 import { buildQueryString, type BitbucketPlatform } from "./utils.js";
 import { getLogger } from "../logger.js";
 
 export interface BitbucketClientConfig {
     baseUrl: string;
-    token: string;
+
+    /** How requests are authenticated; takes precedence over `token`. */
+    auth?: AuthStrategy;
+
+    /** Bearer token, shorthand for `auth: bearerAuth(token)`. */
+    token?: string;
     timeout: number;
     platform: BitbucketPlatform;
 
@@ -13,11 +24,23 @@ export interface BitbucketClientConfig {
 
     /** Base delay in ms for exponential backoff (default: 1000). */
     retryDelay?: number;
+
+    /** TLS settings for this instance (default: verify against the system CAs). */
+    tls?: TlsOptions;
+
+    /** Cache GET responses of `get` and `getText` (default: no cache). */
+    cache?: ResponseCacheOptions;
+
+    /** Client-side request rate and concurrency limits (default: unlimited). */
+    rateLimit?: RateLimitOptions;
 }
 
 /** HTTP status codes that are worth retrying. */
 const RETRYABLE_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
 
+/** Longest `Retry-After` worth waiting for; beyond it, the 429 or 503 is returned to the caller. */
+const MAX_RETRY_AFTER_MS = 60_000;
+
 /** Maximum number of items to fetch when using `all` pagination. */
 const ALL_ITEMS_CAP = 1000;
 
@@ -38,26 +61,73 @@ export class BitbucketClientError extends Error {
     }
 }
 
+/** A mutating request captured during a dry run instead of being sent. */
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    body?: Record<string, unknown>;
+}
+
+/** Thrown by the client to stop a dry run at its first mutating request. */
+export class DryRunInterrupt extends Error {
+    constructor(public readonly request: RecordedRequest) {
+        super(`Dry run: ${request.method} ${request.url} was not sent.`);
+        this.name = "DryRunInterrupt";
+    }
+}
+
+const dryRuns = new AsyncLocalStorage<RecordedRequest[]>();
+
+/**
+ * Run `fn` in dry-run mode: GET requests are sent as usual, but the first POST, PUT or DELETE of
+ * any client is appended to `requests` and rejected with a `DryRunInterrupt` instead of being sent.
+ */
+export function recordRequests<T>(requests: RecordedRequest[], fn: () => T): T {
+    return dryRuns.run(requests, fn);
+}
+
 export interface PaginationOptions {
     pagelen?: number;
     page?: number;
     all?: boolean;
+
+    /** Resume from a `next` position returned by a previous call (takes precedence over `page`). */
+    next?: PagePosition;
+}
+
+/** Position of the next page: the Cloud `next` URL or the DC `nextPageStart` offset. */
+export type PagePosition = string | number;
+
+export interface PaginatedResult<T> {
+    values: T[];
+    total?: number;
+
+    /** Position of the following page, absent on the last page. */
+    next?: PagePosition;
 }
 
 export class BitbucketClient {
     private readonly baseUrl: string;
-    private readonly authHeader: string;
+    private readonly serverUrl: string;
+    private readonly auth: AuthStrategy;
     private readonly timeout: number;
     private readonly maxRetries: number;
     private readonly retryDelay: number;
+    private readonly tlsFetch: typeof fetch | undefined;
+    private readonly cache: ResponseCache | undefined;
+    private readonly limiter: RateLimiter;
     readonly platform: BitbucketPlatform;
 
     constructor(config: BitbucketClientConfig) {
         this.baseUrl = config.baseUrl.replace(/\/+$/, "");
-        this.authHeader = `Bearer ${config.token}`;
+        this.serverUrl = this.baseUrl.replace(/\/rest\/api\/.*$/i, "");
+        this.auth = config.auth ?? bearerAuth(config.token ?? "");
         this.timeout = config.timeout;
         this.maxRetries = config.maxRetries ?? 3;
         this.retryDelay = config.retryDelay ?? 1000;
+        this.tlsFetch = config.tls ? createTlsFetch(config.tls) : undefined;
+        this.cache = config.cache && config.cache.maxEntries > 0 ? new ResponseCache(config.cache) : undefined;
+        this.limiter = new RateLimiter(config.rateLimit ?? { requestsPerHour: 0, maxConcurrency: 0 });
         this.platform = config.platform;
     }
 
@@ -69,6 +139,25 @@ export class BitbucketClient {
         return this.platform === "datacenter";
     }
 
+    /** State of the client-side limiter and the rate-limit headers of the last Bitbucket response. */
+    rateLimitStatus(): RateLimitStatus {
+        return this.limiter.status();
+    }
+
+    /**
+     * Build the request URL. Paths are relative to the REST API base URL, except DC paths starting with
+     * `/rest/` (e.g. `/rest/branch-utils/latest/...`), which target another REST API of the same server.
+     */
+    private buildUrl(
+        path: string,
+        query?: Record<string, string | number | boolean | undefined | null>
+    ): string {
+        const qs = query ? buildQueryString(query) : "";
+        const base = this.isDataCenter && path.startsWith("/rest/") ? this.serverUrl : this.baseUrl;
+
+        return `${base}${path}${qs}`;
+    }
+
     /**
      * Perform a GET request returning parsed JSON.
      */
@@ -76,8 +165,9 @@ export class BitbucketClient {
         path: string,
         query?: Record<string, string | number | boolean | undefined | null>
     ): Promise<T> {
-        const qs = query ? buildQueryString(query) : "";
-        const url = `${this.baseUrl}${path}${qs}`;
+        const url = this.buildUrl(path, query);
+
+        if (this.cache) return JSON.parse(await this.getCached(url)) as T;
 
         return this.request<T>("GET", url);
     }
@@ -89,8 +179,9 @@ export class BitbucketClient {
         path: string,
         query?: Record<string, string | number | boolean | undefined | null>
     ): Promise<string> {
-        const qs = query ? buildQueryString(query) : "";
-        const url = `${this.baseUrl}${path}${qs}`;
+        const url = this.buildUrl(path, query);
+
+        if (this.cache) return this.getCached(url);
 
         return this.requestText("GET", url);
     }
@@ -103,31 +194,9 @@ export class BitbucketClient {
         body?: Record<string, unknown>,
         query?: Record<string, string | number | boolean | undefined | null>
     ): Promise<T> {
-        const qs = query ? buildQueryString(query) : "";
-        const url = `${this.baseUrl}${path}${qs}`;
-        const logger = getLogger();
+        const response = await this.send("POST", this.buildUrl(path, query), body);
 
-        logger.debug(`POST ${url}`);
-
-        const headers: Record<string, string> = {
-            "Authorization": this.authHeader,
-            "Content-Type": "application/json"
-        };
-
-        const response = await this.fetchWithRetry(url, {
-            method: "POST",
-            headers,
-            body: body ? JSON.stringify(body) : undefined,
-            signal: AbortSignal.timeout(this.timeout)
-        });
-
-        if (!response.ok) await this.handleError(response, url);
-
-        const text = await response.text();
-
-        if (text.length === 0) return null as T;
-
-        return JSON.parse(text) as T;
+        return this.parseJson<T>(response);
     }
 
     /**
@@ -138,65 +207,33 @@ export class BitbucketClient {
         body?: Record<string, unknown>,
         query?: Record<string, string | number | boolean | undefined | null>
     ): Promise<T> {
-        const qs = query ? buildQueryString(query) : "";
-        const url = `${this.baseUrl}${path}${qs}`;
-        const logger = getLogger();
-
-        logger.debug(`PUT ${url}`);
+        const response = await this.send("PUT", this.buildUrl(path, query), body);
 
-        const headers: Record<string, string> = {
-            "Authorization": this.authHeader,
-            "Content-Type": "application/json"
-        };
-
-        const response = await this.fetchWithRetry(url, {
-            method: "PUT",
-            headers,
-            body: body ? JSON.stringify(body) : undefined,
-            signal: AbortSignal.timeout(this.timeout)
-        });
-
-        if (!response.ok) await this.handleError(response, url);
-
-        const text = await response.text();
-
-        if (text.length === 0) return null as T;
-
-        return JSON.parse(text) as T;
+        return this.parseJson<T>(response);
     }
 
     /**
-     * Perform a DELETE request.
+     * Perform a DELETE request, with an optional JSON body (e.g. DC branch-utils branch deletion).
      */
     async delete(
         path: string,
-        query?: Record<string, string | number | boolean | undefined | null>
+        query?: Record<string, string | number | boolean | undefined | null>,
+        body?: Record<string, unknown>
     ): Promise<void> {
-        const qs = query ? buildQueryString(query) : "";
-        const url = `${this.baseUrl}${path}${qs}`;
-        const logger = getLogger();
-
-        logger.debug(`DELETE ${url}`);
-
-        const response = await this.fetchWithRetry(url, {
-            method: "DELETE",
-            headers: { Authorization: this.authHeader },
-            signal: AbortSignal.timeout(this.timeout)
-        });
-
-        if (!response.ok) await this.handleError(response, url);
+        await this.send("DELETE", this.buildUrl(path, query), body);
     }
 
     /**
      * Fetch a paginated Bitbucket endpoint.
      * Supports both Cloud (page/pagelen/next) and DC (start/limit/isLastPage) pagination.
      * When `all` is true, follows pages until all items are collected (capped at 1000).
+     * The returned `next` can be passed back as `options.next` to resume after the last page fetched.
      */
     async getPaginated<T>(
         path: string,
         options: PaginationOptions = {},
         extraQuery?: Record<string, string | number | boolean | undefined | null>
-    ): Promise<{ values: T[]; total?: number }> {
+    ): Promise<PaginatedResult<T>> {
         if (this.isDataCenter) {
             return this.getPaginatedDC<T>(path, options, extraQuery);
         }
@@ -208,118 +245,190 @@ export class BitbucketClient {
         path: string,
         options: PaginationOptions,
         extraQuery?: Record<string, string | number | boolean | undefined | null>
-    ): Promise<{ values: T[]; total?: number }> {
+    ): Promise<PaginatedResult<T>> {
         const pagelen = Math.min(options.pagelen ?? DEFAULT_PAGE_LEN, MAX_PAGE_LEN);
         const query: Record<string, string | number | boolean | undefined | null> = {
             ...extraQuery,
             pagelen
         };
 
-        if (options.page !== undefined) query.page = options.page;
+        if (options.page !== undefined && options.next === undefined) query.page = options.page;
 
+        const firstPage = options.next === undefined
+            ? await this.get<BitbucketPaginatedResponse<T>>(path, query)
+            : await this.request<BitbucketPaginatedResponse<T>>("GET", this.checkNextUrl(options.next));
         const shouldFetchAll = options.all === true && options.page === undefined;
 
-        if (!shouldFetchAll) {
-            const response = await this.get<BitbucketPaginatedResponse<T>>(path, query);
-
-            return { values: response.values, total: response.size };
-        }
+        if (!shouldFetchAll) return { values: firstPage.values, total: firstPage.size, next: firstPage.next };
 
         // Fetch all pages
-        const allValues: T[] = [];
-        let nextUrl: string | undefined;
-
-        const firstPage = await this.get<BitbucketPaginatedResponse<T>>(path, query);
-
-        allValues.push(...firstPage.values);
-        nextUrl = firstPage.next;
+        const allValues: T[] = [...firstPage.values];
+        let nextUrl = firstPage.next;
 
         while (nextUrl && allValues.length < ALL_ITEMS_CAP) {
-            const response = await this.request<BitbucketPaginatedResponse<T>>("GET", nextUrl);
+            const response = await this.request<BitbucketPaginatedResponse<T>>("GET", this.checkNextUrl(nextUrl));
 
             allValues.push(...response.values);
             nextUrl = response.next;
         }
 
-        return { values: allValues, total: firstPage.size };
+        return { values: allValues, total: firstPage.size, next: nextUrl };
+    }
+
+    /**
+     * Cloud `next` links are absolute URLs; only follow those pointing at the configured API,
+     * so a forged cursor cannot send the Authorization header to another host.
+     */
+    private checkNextUrl(next: PagePosition): string {
+        if (typeof next !== "string" || !next.startsWith(`${this.baseUrl}/`)) {
+            throw new Error(`Invalid pagination cursor: next page must be a URL under ${this.baseUrl}`);
+        }
+
+        return next;
     }
 
     private async getPaginatedDC<T>(
         path: string,
         options: PaginationOptions,
         extraQuery?: Record<string, string | number | boolean | undefined | null>
-    ): Promise<{ values: T[]; total?: number }> {
+    ): Promise<PaginatedResult<T>> {
         const limit = Math.min(options.pagelen ?? 25, MAX_PAGE_LEN);
         const query: Record<string, string | number | boolean | undefined | null> = {
             ...extraQuery,
             limit
         };
 
-        // DC uses 0-based `start` index; convert 1-based `page` to `start`
-        if (options.page !== undefined) query.start = (options.page - 1) * limit;
+        if (options.next !== undefined) {
+            if (typeof options.next !== "number") throw new Error("Invalid pagination cursor: next page must be a start offset");
+
+            query.start = options.next;
+        } else if (options.page !== undefined) {
+            // DC uses 0-based `start` index; convert 1-based `page` to `start`
+            query.start = (options.page - 1) * limit;
+        }
 
         const shouldFetchAll = options.all === true && options.page === undefined;
 
         if (!shouldFetchAll) {
             const response = await this.get<BitbucketDCPaginatedResponse<T>>(path, query);
 
-            return { values: response.values, total: response.size };
+            return { values: response.values, total: response.size, next: response.isLastPage ? undefined : response.nextPageStart };
         }
 
         // Fetch all pages
         const allValues: T[] = [];
-        let start = 0;
+        let start: number | undefined = options.next ?? 0;
 
-        while (allValues.length < ALL_ITEMS_CAP) {
+        while (start !== undefined && allValues.length < ALL_ITEMS_CAP) {
             query.start = start;
 
             const response = await this.get<BitbucketDCPaginatedResponse<T>>(path, query);
 
             allValues.push(...response.values);
-
-            if (response.isLastPage || response.nextPageStart === undefined) break;
-
-            start = response.nextPageStart;
+            start = response.isLastPage ? undefined : response.nextPageStart;
         }
 
-        return { values: allValues, total: allValues.length };
+        return { values: allValues, total: allValues.length, next: start };
     }
 
-    private async request<T>(method: string, url: string): Promise<T> {
-        const logger = getLogger();
+    /**
+     * GET `url` through the cache: fresh entries are served without a request, stale ones with an ETag
+     * are revalidated with `If-None-Match`.
+     */
+    private async getCached(url: string): Promise<string> {
+        const cache = this.cache!;
+        const cached = cache.lookup(url);
 
-        logger.debug(`${method} ${url}`);
+        if (cached && cached.expiresAt > Date.now()) return cached.body;
 
-        const response = await this.fetchWithRetry(url, {
-            method,
-            headers: { Authorization: this.authHeader },
-            signal: AbortSignal.timeout(this.timeout)
-        });
+        const response = await this.send("GET", url, undefined, cached?.etag);
 
-        if (!response.ok) await this.handleError(response, url);
+        if (cached && response.status === 304) {
+            cache.revalidated(url, cached);
+
+            return cached.body;
+        }
+
+        const body = await response.text();
+
+        cache.store(url, body, response.headers.get("etag") ?? undefined);
+
+        return body;
+    }
+
+    private async request<T>(method: string, url: string): Promise<T> {
+        const response = await this.send(method, url);
 
         return response.json() as Promise<T>;
     }
 
     private async requestText(method: string, url: string): Promise<string> {
+        const response = await this.send(method, url);
+
+        return response.text();
+    }
+
+    /**
+     * Send an authenticated request and throw a `BitbucketClientError` for non-2xx responses.
+     * POST and PUT always declare a JSON body, as Bitbucket expects even when it is empty.
+     * A 401 is retried once when the auth strategy can refresh its credentials.
+     * With `etag`, the request is conditional and a `304 Not Modified` response is returned as is.
+     * A successful mutating request invalidates the cached responses it may have changed.
+     */
+    private async send(method: string, url: string, body?: Record<string, unknown>, etag?: string): Promise<Response> {
         const logger = getLogger();
+        const recorded = dryRuns.getStore();
+
+        if (recorded && method !== "GET") {
+            const request: RecordedRequest = body ? { method, url, body } : { method, url };
+
+            recorded.push(request);
+
+            throw new DryRunInterrupt(request);
+        }
 
         logger.debug(`${method} ${url}`);
 
-        const response = await this.fetchWithRetry(url, {
-            method,
-            headers: { Authorization: this.authHeader },
-            signal: AbortSignal.timeout(this.timeout)
-        });
+        const attempt = async() => {
+            const headers: Record<string, string> = { Authorization: await this.auth.authorization() };
+
+            if (body || method === "POST" || method === "PUT") headers["Content-Type"] = "application/json";
+
+            if (etag) headers["If-None-Match"] = etag;
+
+            return this.fetchWithRetry(url, { method, headers, body: body ? JSON.stringify(body) : undefined });
+        };
+
+        let response = await attempt();
+
+        // Expired or revoked credentials: renew them (e.g. OAuth refresh) and retry once
+        if (response.status === 401 && this.auth.refresh && await this.auth.refresh()) {
+            logger.debug(`Retrying ${method} ${url} with refreshed credentials`);
+            response = await attempt();
+        }
+
+        if (etag && response.status === 304) return response;
 
         if (!response.ok) await this.handleError(response, url);
 
-        return response.text();
+        if (method !== "GET") this.cache?.invalidate(url);
+
+        return response;
+    }
+
+    /** Parse a JSON response body, returning null for empty bodies (e.g. 204 No Content). */
+    private async parseJson<T>(response: Response): Promise<T> {
+        const text = await response.text();
+
+        if (text.length === 0) return null as T;
+
+        return JSON.parse(text) as T;
     }
 
     /**
      * Fetch with exponential backoff retry for transient failures.
-     * Retries on network errors and 429/5xx status codes.
+     * Retries on network errors and 429/5xx status codes, after the `Retry-After` delay when the response has one.
+     * A 429 holds back every request of this client until then.
      */
     private async fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
         const logger = getLogger();
@@ -327,10 +436,20 @@ export class BitbucketClient {
 
         for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
             try {
-                const response = await fetch(url, init);
+                const response = await this.fetchLimited(url, init);
 
                 if (attempt < this.maxRetries && RETRYABLE_STATUS_CODES.has(response.status)) {
-                    const delay = this.computeBackoff(attempt);
+                    const retryAfter = parseRetryAfter(response.headers?.get("retry-after"));
+
+                    if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) {
+                        logger.warn(`HTTP ${response.status} for ${url} asks to retry in ${Math.ceil(retryAfter / 1000)}s, not retrying`);
+
+                        return response;
+                    }
+
+                    const delay = retryAfter ?? this.computeBackoff(attempt);
+
+                    if (response.status === 429) this.limiter.pause(delay);
 
                     logger.warn(`Retryable HTTP ${response.status} for ${url}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
                     await this.sleep(delay);
@@ -342,8 +461,8 @@ export class BitbucketClient {
             } catch (error) {
                 lastError = error;
 
-                // Don't retry AbortError (timeout) — the caller set an explicit timeout
-                if (error instanceof DOMException && error.name === "AbortError") throw error;
+                // Don't retry a timeout (AbortSignal.timeout rejects with TimeoutError) or an abort
+                if (error instanceof DOMException && (error.name === "TimeoutError" || error.name === "AbortError")) throw error;
 
                 if (attempt < this.maxRetries) {
                     const delay = this.computeBackoff(attempt);
@@ -357,6 +476,21 @@ export class BitbucketClient {
         throw lastError;
     }
 
+    /** One request within the rate and concurrency limits; the timeout starts once the request may be sent. */
+    private async fetchLimited(url: string, init: RequestInit): Promise<Response> {
+        const release = await this.limiter.acquire();
+
+        try {
+            const response = await (this.tlsFetch ?? fetch)(url, { ...init, signal: AbortSignal.timeout(this.timeout) });
+
+            if (response.headers) this.limiter.observe(response.headers);
+
+            return response;
+        } finally {
+            release();
+        }
+    }
+
     /** Compute backoff delay with jitter: baseDelay * 2^attempt + random jitter. */
     private computeBackoff(attempt: number): number {
         const exponential = this.retryDelay * Math.pow(2, attempt);
@@ -375,7 +509,17 @@ export class BitbucketClient {
 
         if (response.status === 401 || response.status === 403) {
             throw new BitbucketClientError(
-                `Authentication failed (${response.status}). Check your Bitbucket API token.`,
+                `Authentication failed (${response.status}). Check your Bitbucket credentials (auth mode: ${this.auth.mode}).`,
+                response.status,
+                body
+            );
+        }
+
+        if (response.status === 429) {
+            const retryAfter = parseRetryAfter(response.headers?.get("retry-after"));
+
+            throw new BitbucketClientError(
+                `Bitbucket rate limit exceeded (429)${retryAfter === undefined ? "" : `, retry in ${Math.ceil(retryAfter / 1000)}s`}. Lower --rate-limit or spread the requests over time.`,
                 response.status,
                 body
             );
@@ -0,0 +1,171 @@
+import { normalizeComment, normalizeTask, type Comment, type CommentAnchor, type Task } from "./models.js";
+import type { BitbucketBlockerComment, BitbucketComment, BitbucketDCComment, BitbucketDCCommentAnchor, BitbucketTask } from "./types.js";
+
+// ── Thread model ─────────────────────────────────────────────────────────
+
+/** A comment within a thread; anchor and resolution are those of the thread. */
+export type ThreadComment = Pick<Comment, "id" | "parentId" | "author" | "content" | "createdOn" | "updatedOn">;
+
+export type ThreadTask = Pick<Task, "id" | "content" | "state">;
+
+export interface CommentThread {
+
+    /** Root comment; its `id` is the one to pass to resolveComment or as `parentId` to reply. */
+    root: ThreadComment;
+
+    /** Replies at any depth, oldest first. */
+    replies: ThreadComment[];
+
+    /** Null for general (non-inline) comments. */
+    anchor: CommentAnchor | null;
+    resolved: boolean;
+
+    /** The anchored lines changed since the comment was made. */
+    outdated: boolean;
+
+    /** Set when the root comment was deleted but has replies. */
+    deleted: boolean;
+    tasks: ThreadTask[];
+}
+
+export interface ThreadFilter {
+    unresolvedOnly?: boolean;
+
+    /** File path of inline threads. */
+    path?: string;
+
+    /** Display name or username of the thread's author, case-insensitive. */
+    author?: string;
+}
+
+// ── Thread reconstruction ────────────────────────────────────────────────
+
+/**
+ * Group Cloud comments (a flat list linked by `parent`) into threads, attaching each task
+ * to the thread of the comment it was created on.
+ */
+export function buildCloudThreads(comments: BitbucketComment[], tasks: BitbucketTask[] = []): CommentThread[] {
+    const byId = new Map(comments.map(comment => [comment.id, comment]));
+    const threads = new Map<number, CommentThread>();
+
+    const rootOf = (comment: BitbucketComment) => {
+        const seen = new Set<number>();
+        let current = comment;
+
+        while (current.parent && byId.has(current.parent.id) && !seen.has(current.id)) {
+            seen.add(current.id);
+            current = byId.get(current.parent.id)!;
+        }
+
+        return current;
+    };
+
+    for (const comment of sortByDate(comments, comment => comment.created_on)) {
+        const root = rootOf(comment);
+        let thread = threads.get(root.id);
+
+        if (!thread) {
+            thread = newThread(normalizeComment(root));
+            threads.set(root.id, thread);
+        }
+
+        if (comment !== root && !comment.deleted) thread.replies.push(threadComment(normalizeComment(comment), comment.parent?.id ?? root.id));
+    }
+
+    for (const task of tasks) {
+        const comment = task.comment ? byId.get(task.comment.id) : undefined;
+
+        if (comment) threads.get(rootOf(comment).id)?.tasks.push(threadTask(task));
+    }
+
+    // A deleted comment only matters for the replies it keeps together
+    return [...threads.values()].filter(thread => !thread.deleted || thread.replies.length > 0);
+}
+
+/**
+ * Build threads from DC pull request activities: each `COMMENTED` / `ADDED` activity holds a root comment
+ * and its nested replies. Blocker comments are tasks: under a thread they are attached to it, and
+ * top-level ones (listed by getPullRequestTasks) are left out.
+ */
+export function buildDataCenterThreads(activities: Array<Record<string, unknown>>): CommentThread[] {
+    const threads = new Map<number, CommentThread>();
+
+    for (const activity of activities) {
+        const root = activity.comment as BitbucketDCComment | undefined;
+
+        if (activity.action !== "COMMENTED" || activity.commentAction !== "ADDED" || !root || root.severity === "BLOCKER" || threads.has(root.id)) continue;
+
+        const anchor = root.anchor ?? activity.commentAnchor as BitbucketDCCommentAnchor | undefined;
+        const thread = newThread(normalizeComment({ ...root, anchor }));
+
+        thread.tasks = (root.tasks ?? []).map(task => ({ id: task.id, content: task.text, state: task.state }));
+
+        const visit = (parent: BitbucketDCComment) => {
+            for (const reply of parent.comments ?? []) {
+                if (reply.severity === "BLOCKER") thread.tasks.push(threadTask(reply as BitbucketBlockerComment));
+                else thread.replies.push(threadComment(normalizeComment(reply), parent.id));
+
+                visit(reply);
+            }
+        };
+
+        visit(root);
+        thread.replies = sortByDate(thread.replies, reply => reply.createdOn);
+        threads.set(root.id, thread);
+    }
+
+    return sortByDate([...threads.values()], thread => thread.root.createdOn);
+}
+
+export function filterThreads(threads: CommentThread[], filter: ThreadFilter): CommentThread[] {
+    const author = filter.author?.toLowerCase();
+
+    return threads.filter(thread => {
+        if (filter.unresolvedOnly && thread.resolved) return false;
+
+        if (filter.path !== undefined && thread.anchor?.path !== filter.path) return false;
+
+        if (author !== undefined) {
+            const names = [thread.root.author?.displayName, thread.root.author?.username].map(name => name?.toLowerCase());
+
+            if (!names.includes(author)) return false;
+        }
+
+        return true;
+    });
+}
+
+// ── Mapping ──────────────────────────────────────────────────────────────
+
+function newThread(root: Comment): CommentThread {
+    return {
+        root: threadComment(root, null),
+        replies: [],
+        anchor: root.anchor,
+        resolved: root.resolved,
+        outdated: root.outdated,
+        deleted: root.deleted,
+        tasks: []
+    };
+}
+
+function threadComment(comment: Comment, parentId: number | null): ThreadComment {
+    return {
+        id: comment.id,
+        parentId,
+        author: comment.author,
+        content: comment.content,
+        createdOn: comment.createdOn,
+        updatedOn: comment.updatedOn
+    };
+}
+
+function threadTask(task: BitbucketTask | BitbucketBlockerComment): ThreadTask {
+    const { id, content, state } = normalizeTask(task);
+
+    return { id, content, state };
+}
+
+function sortByDate<T>(items: T[], date: (item: T) => string | null | undefined): T[] {
+    return [...items].sort((a, b) => (date(a) ?? "").localeCompare(date(b) ?? ""));
+}
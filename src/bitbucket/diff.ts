@@ -0,0 +1,324 @@
+import type { BitbucketDCDiff, BitbucketDCDiffResponse } from "./types.js";
+
+// ── Structured diff model ────────────────────────────────────────────────
+
+export type DiffLineType = "added" | "removed" | "context";
+
+export type DiffFileStatus = "added" | "removed" | "modified" | "renamed";
+
+/**
+ * A single diff line. `oldLine` is the line number in the old file (use it as
+ * `inline.from` when commenting on a removed line); `newLine` is the line number
+ * in the new file (use it as `inline.to` for added or context lines).
+ */
+export interface DiffLine {
+    type: DiffLineType;
+    oldLine: number | null;
+    newLine: number | null;
+    content: string;
+}
+
+export interface DiffHunk {
+    header: string;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: DiffLine[];
+}
+
+export interface DiffFile {
+
+    /** Path to use for inline comments: the new path, or the old one for deleted files. */
+    path: string;
+    oldPath: string | null;
+    newPath: string | null;
+    status: DiffFileStatus;
+    binary: boolean;
+    hunks: DiffHunk[];
+}
+
+// ── Unified diff parser ──────────────────────────────────────────────────
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+/** Strips the `a/` / `b/` prefix git adds to paths, and maps `/dev/null` to null. */
+function stripPathPrefix(raw: string): string | null {
+    const value = raw.replace(/\t.*$/, "").trim().replace(/^"(.*)"$/, "$1");
+
+    if (value === "/dev/null") return null;
+
+    return value.replace(/^[ab]\//, "");
+}
+
+function newFile(oldPath: string | null = null, newPath: string | null = null): DiffFile {
+    return { path: newPath ?? oldPath ?? "", oldPath, newPath, status: "modified", binary: false, hunks: [] };
+}
+
+/** Settles the file status from mode lines and paths (`/dev/null` on either side, or a path change). */
+function finalizeFile(file: DiffFile): DiffFile {
+    if (file.status === "added") file.oldPath = null;
+    else if (file.status === "removed") file.newPath = null;
+    else if (file.oldPath === null && file.newPath !== null) file.status = "added";
+    else if (file.newPath === null && file.oldPath !== null) file.status = "removed";
+    else if (file.oldPath !== file.newPath) file.status = "renamed";
+
+    file.path = file.newPath ?? file.oldPath ?? "";
+
+    return file;
+}
+
+/**
+ * Parses a unified (git-style) diff into files, hunks and lines with their
+ * old/new line numbers.
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+    const files: DiffFile[] = [];
+    const lines = text.split(/\r?\n/);
+    let file: DiffFile | undefined;
+    let hunk: DiffHunk | undefined;
+    let oldLine = 0;
+    let newLine = 0;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+
+    const startFile = (created: DiffFile) => {
+        if (file) files.push(finalizeFile(file));
+
+        file = created;
+        hunk = undefined;
+        oldRemaining = 0;
+        newRemaining = 0;
+    };
+
+    for (const line of lines) {
+        const inHunk = hunk !== undefined && (oldRemaining > 0 || newRemaining > 0);
+
+        if (inHunk && hunk) {
+            if (line.startsWith("+")) {
+                hunk.lines.push({ type: "added", oldLine: null, newLine, content: line.slice(1) });
+                newLine++;
+                newRemaining--;
+
+                continue;
+            }
+
+            if (line.startsWith("-")) {
+                hunk.lines.push({ type: "removed", oldLine, newLine: null, content: line.slice(1) });
+                oldLine++;
+                oldRemaining--;
+
+                continue;
+            }
+
+            if (line.startsWith(" ") || line === "") {
+                hunk.lines.push({ type: "context", oldLine, newLine, content: line.slice(1) });
+                oldLine++;
+                newLine++;
+                oldRemaining--;
+                newRemaining--;
+
+                continue;
+            }
+        }
+
+        // "\ No newline at end of file" markers carry no line of their own
+        if (line.startsWith("\\")) continue;
+
+        if (line.startsWith("diff --git ")) {
+            const match = line.match(/^diff --git (?:"?a\/)?(.+?)"? (?:"?b\/)(.+?)"?$/);
+
+            startFile(newFile(match?.[1] ?? null, match?.[2] ?? null));
+
+            continue;
+        }
+
+        const hunkMatch = line.match(HUNK_HEADER);
+
+        if (hunkMatch) {
+            if (!file) startFile(newFile());
+
+            oldLine = parseInt(hunkMatch[1], 10);
+            newLine = parseInt(hunkMatch[3], 10);
+            oldRemaining = hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2], 10);
+            newRemaining = hunkMatch[4] === undefined ? 1 : parseInt(hunkMatch[4], 10);
+            hunk = {
+                header: line,
+                oldStart: oldLine,
+                oldLines: oldRemaining,
+                newStart: newLine,
+                newLines: newRemaining,
+                lines: []
+            };
+            file!.hunks.push(hunk);
+
+            continue;
+        }
+
+        if (line.startsWith("--- ")) {
+            // A `---` header outside a `diff --git` block (plain unified diff) starts a new file
+            if (!file || file.hunks.length > 0) startFile(newFile());
+
+            file!.oldPath = stripPathPrefix(line.slice(4));
+
+            continue;
+        }
+
+        if (!file) continue;
+
+        if (line.startsWith("+++ ")) file.newPath = stripPathPrefix(line.slice(4));
+        else if (line.startsWith("new file mode")) file.status = "added";
+        else if (line.startsWith("deleted file mode")) file.status = "removed";
+        else if (line.startsWith("rename from ")) file.oldPath = line.slice("rename from ".length);
+        else if (line.startsWith("rename to ")) file.newPath = line.slice("rename to ".length);
+        else if (line.startsWith("Binary files ") || line === "GIT binary patch") file.binary = true;
+    }
+
+    if (file) files.push(finalizeFile(file));
+
+    return files;
+}
+
+// ── Data Center JSON diff ────────────────────────────────────────────────
+
+function fromDataCenterFile(diff: BitbucketDCDiff): DiffFile {
+    const oldPath = diff.source?.toString ?? null;
+    const newPath = diff.destination?.toString ?? null;
+    const file = finalizeFile(newFile(oldPath, newPath));
+
+    file.binary = diff.binary === true;
+    file.hunks = (diff.hunks ?? []).map(hunk => ({
+        header: `@@ -${hunk.sourceLine},${hunk.sourceSpan} +${hunk.destinationLine},${hunk.destinationSpan} @@${hunk.context ? ` ${hunk.context}` : ""}`,
+        oldStart: hunk.sourceLine,
+        oldLines: hunk.sourceSpan,
+        newStart: hunk.destinationLine,
+        newLines: hunk.destinationSpan,
+        lines: hunk.segments.flatMap(segment => segment.lines.map(line => ({
+            type: segment.type.toLowerCase() as DiffLineType,
+            oldLine: segment.type === "ADDED" ? null : line.source,
+            newLine: segment.type === "REMOVED" ? null : line.destination,
+            content: line.line
+        })))
+    }));
+
+    return file;
+}
+
+/**
+ * Maps a Data Center JSON diff (`/diff` endpoints) to the same shape as `parseUnifiedDiff`.
+ */
+export function fromDataCenterDiff(response: BitbucketDCDiffResponse): DiffFile[] {
+    return response.diffs.map(fromDataCenterFile);
+}
+
+// ── Path filtering ───────────────────────────────────────────────────────
+
+/** Glob include/exclude filter applied to diff file paths. */
+export interface DiffPathFilter {
+    include?: string[];
+    exclude?: string[];
+}
+
+/**
+ * Converts a glob to a regular expression: `**` matches across directories, `*` and `?` stay within a path segment.
+ * Patterns without a `/` are matched against the file name only (e.g. `*.ts`).
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = "";
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === "*" && pattern[i + 1] === "*") {
+            // `**/` also matches zero directories
+            if (pattern[i + 2] === "/") {
+                source += "(?:.*/)?";
+                i += 2;
+            } else {
+                source += ".*";
+                i++;
+            }
+        } else if (char === "*") source += "[^/]*";
+        else if (char === "?") source += "[^/]";
+        else source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+
+    return pattern.includes("/") ? new RegExp(`^${source.replace(/^\//, "")}$`) : new RegExp(`(?:^|/)${source}$`);
+}
+
+/** Returns true when any of the paths is included and none is excluded. Empty `include` matches everything. */
+export function matchesPathFilter(filePaths: Array<string | null | undefined>, filter: DiffPathFilter): boolean {
+    const candidates = filePaths.filter((filePath): filePath is string => Boolean(filePath));
+    const matches = (patterns: string[]) => patterns.some(pattern => {
+        const regex = globToRegExp(pattern);
+
+        return candidates.some(candidate => regex.test(candidate));
+    });
+
+    if (filter.include?.length && !matches(filter.include)) return false;
+
+    return !(filter.exclude?.length && matches(filter.exclude));
+}
+
+/** Keeps the files whose old or new path passes the filter. */
+export function filterDiffFiles(files: DiffFile[], filter: DiffPathFilter): DiffFile[] {
+    return files.filter(file => matchesPathFilter([file.oldPath, file.newPath], filter));
+}
+
+/**
+ * Filters a raw unified diff file by file, keeping the text of the matching files untouched.
+ */
+export function filterUnifiedDiff(text: string, filter: DiffPathFilter): string {
+    if (!filter.include?.length && !filter.exclude?.length) return text;
+
+    const chunks = text.split(/^(?=diff --git )/m);
+
+    return chunks.
+        filter(chunk => {
+            const [file] = parseUnifiedDiff(chunk);
+
+            // Leading text before the first file header (e.g. a commit message) is dropped
+            return file !== undefined && chunk.startsWith("diff --git ") && matchesPathFilter([file.oldPath, file.newPath], filter);
+        }).
+        join("");
+}
+
+// ── Unified diff rendering ───────────────────────────────────────────────
+
+const LINE_PREFIX: Record<DiffLineType, string> = { added: "+", removed: "-", context: " " };
+
+/**
+ * Renders structured files back into a git-style unified diff (used for DC JSON diffs).
+ */
+export function formatUnifiedDiff(files: DiffFile[]): string {
+    const out: string[] = [];
+
+    for (const file of files) {
+        const oldPath = file.oldPath ?? file.newPath ?? file.path;
+        const newPath = file.newPath ?? file.oldPath ?? file.path;
+
+        out.push(`diff --git a/${oldPath} b/${newPath}`);
+
+        if (file.status === "added") out.push("new file mode 100644");
+        else if (file.status === "removed") out.push("deleted file mode 100644");
+        else if (file.status === "renamed") out.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+
+        if (file.binary) {
+            out.push(`Binary files ${file.oldPath ? `a/${oldPath}` : "/dev/null"} and ${file.newPath ? `b/${newPath}` : "/dev/null"} differ`);
+
+            continue;
+        }
+
+        if (file.hunks.length === 0) continue;
+
+        out.push(`--- ${file.oldPath ? `a/${oldPath}` : "/dev/null"}`, `+++ ${file.newPath ? `b/${newPath}` : "/dev/null"}`);
+
+        for (const hunk of file.hunks) {
+            out.push(hunk.header);
+
+            for (const line of hunk.lines) out.push(`${LINE_PREFIX[line.type]}${line.content}`);
+        }
+    }
+
+    return out.length > 0 ? `${out.join("\n")}\n` : "";
+}
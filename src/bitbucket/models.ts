@@ -0,0 +1,254 @@
+import type {
+    BitbucketAccount, BitbucketBlockerComment, BitbucketComment, BitbucketDCComment, BitbucketDCCommentAnchor,
+    BitbucketDCParticipant, BitbucketDCPullRequest, BitbucketDCPullRequestRef, BitbucketDCUser, BitbucketLink,
+    BitbucketPullRequest, BitbucketTask, PullRequestState
+} from "./types.js";
+import { epochToIso } from "./utils.js";
+
+// ── Normalized model ─────────────────────────────────────────────────────
+
+export interface User {
+
+    /** Cloud UUID (or account ID), DC numeric user ID. */
+    id: string | null;
+
+    /** Cloud nickname, DC user name (the one DC expects for reviewers). */
+    username: string | null;
+    displayName: string;
+}
+
+export interface PullRequestRef {
+    branch: string | null;
+    commit: string | null;
+
+    /** Cloud `workspace/slug`, DC `PROJECT/slug`. */
+    repository: string | null;
+}
+
+export type ReviewState = "approved" | "changes_requested" | "pending";
+
+export interface Reviewer {
+    user: User;
+    state: ReviewState;
+}
+
+export interface PullRequest {
+    id: number;
+    title: string;
+    description: string;
+    state: PullRequestState;
+    draft: boolean;
+    author: User | null;
+    source: PullRequestRef;
+    destination: PullRequestRef;
+    reviewers: Reviewer[];
+    createdOn: string | null;
+    updatedOn: string | null;
+    url: string | null;
+
+    /** Original Bitbucket payload, when requested. */
+    raw?: unknown;
+}
+
+/** File and lines a comment is anchored to: `from` in the old file, `to` in the new one. */
+export interface CommentAnchor {
+    path: string;
+    from: number | null;
+    to: number | null;
+}
+
+export interface Comment {
+    id: number;
+
+    /** Comment this one replies to, when known. */
+    parentId: number | null;
+    author: User | null;
+    content: string;
+    createdOn: string | null;
+    updatedOn: string | null;
+
+    /** Null for general (non-inline) comments. */
+    anchor: CommentAnchor | null;
+    resolved: boolean;
+
+    /** The anchored lines changed since the comment was made. */
+    outdated: boolean;
+    deleted: boolean;
+    raw?: unknown;
+}
+
+export interface Task {
+    id: number;
+    content: string;
+    state: "OPEN" | "RESOLVED";
+    author: User | null;
+
+    /** Comment the task was created on (Cloud only). */
+    commentId: number | null;
+    createdOn: string | null;
+    updatedOn: string | null;
+    raw?: unknown;
+}
+
+// ── Normalization ────────────────────────────────────────────────────────
+
+export function normalizeCloudUser(account: BitbucketAccount, raw = false): User {
+    return withRaw({ id: account.uuid ?? account.account_id ?? null, username: account.nickname ?? null, displayName: account.display_name }, account, raw);
+}
+
+export function normalizeDataCenterUser(user: BitbucketDCUser, raw = false): User {
+    return withRaw({ id: user.id === undefined ? null : String(user.id), username: user.name ?? null, displayName: user.displayName ?? user.name }, user, raw);
+}
+
+export function normalizePullRequest(pr: BitbucketPullRequest | BitbucketDCPullRequest, raw = false): PullRequest {
+    if (isDataCenterPullRequest(pr)) {
+        const links = pr.links as Record<string, BitbucketLink[]> | undefined;
+
+        return withRaw({
+            id: pr.id,
+            title: pr.title ?? "",
+            description: pr.description ?? "",
+            state: pr.state ?? "OPEN",
+            draft: pr.draft === true,
+            author: pr.author ? normalizeDataCenterUser(pr.author.user) : null,
+            source: fromDCRef(pr.fromRef),
+            destination: fromDCRef(pr.toRef),
+            reviewers: (pr.reviewers ?? []).map(fromDCReviewer),
+            createdOn: epochToIso(pr.createdDate),
+            updatedOn: epochToIso(pr.updatedDate),
+            url: links?.self?.[0]?.href ?? null
+        }, pr, raw);
+    }
+
+    return withRaw({
+        id: pr.id,
+        title: pr.title ?? "",
+        description: pr.description ?? "",
+        state: pr.state ?? "OPEN",
+        draft: pr.draft === true,
+        author: pr.author ? normalizeCloudUser(pr.author) : null,
+        source: fromCloudRef(pr.source),
+        destination: fromCloudRef(pr.destination),
+        reviewers: cloudReviewers(pr),
+        createdOn: pr.created_on ?? null,
+        updatedOn: pr.updated_on ?? null,
+        url: (pr.links?.html as BitbucketLink | undefined)?.href ?? null
+    }, pr, raw);
+}
+
+export function normalizeComment(comment: BitbucketComment | BitbucketDCComment, raw = false): Comment {
+    if (isDataCenterComment(comment)) {
+        return withRaw({
+            id: comment.id,
+            parentId: comment.parent?.id ?? null,
+            author: comment.author ? normalizeDataCenterUser(comment.author) : null,
+            content: comment.text,
+            createdOn: epochToIso(comment.createdDate),
+            updatedOn: epochToIso(comment.updatedDate),
+            anchor: comment.anchor?.path ? fromDCAnchor(comment.anchor) : null,
+            resolved: comment.threadResolved === true || comment.state === "RESOLVED",
+            outdated: comment.anchor?.orphaned === true,
+            deleted: false
+        }, comment, raw);
+    }
+
+    const { inline } = comment;
+
+    return withRaw({
+        id: comment.id,
+        parentId: comment.parent?.id ?? null,
+        author: comment.user ? normalizeCloudUser(comment.user) : null,
+        content: comment.content?.raw ?? "",
+        createdOn: comment.created_on ?? null,
+        updatedOn: comment.updated_on ?? null,
+        anchor: inline ? { path: inline.path, from: inline.from ?? null, to: inline.to ?? null } : null,
+        resolved: Boolean(comment.resolution),
+        outdated: inline?.outdated === true,
+        deleted: comment.deleted === true
+    }, comment, raw);
+}
+
+/** Normalize a Cloud task or a DC blocker comment (DC's tasks); Cloud `UNRESOLVED` becomes `OPEN`. */
+export function normalizeTask(task: BitbucketTask | BitbucketBlockerComment, raw = false): Task {
+    if (isBlockerComment(task)) {
+        return withRaw({
+            id: task.id,
+            content: task.text,
+            state: task.state === "RESOLVED" ? "RESOLVED" : "OPEN",
+            author: task.author ? normalizeDataCenterUser(task.author) : null,
+            commentId: null,
+            createdOn: epochToIso(task.createdDate),
+            updatedOn: epochToIso(task.updatedDate)
+        }, task, raw);
+    }
+
+    return withRaw({
+        id: task.id,
+        content: task.content?.raw ?? "",
+        state: task.state === "RESOLVED" ? "RESOLVED" : "OPEN",
+        author: task.creator ? normalizeCloudUser(task.creator) : null,
+        commentId: task.comment?.id ?? null,
+        createdOn: task.created_on ?? null,
+        updatedOn: task.updated_on ?? null
+    }, task, raw);
+}
+
+// ── Mapping ──────────────────────────────────────────────────────────────
+
+function withRaw<T extends object>(entity: T, payload: unknown, raw: boolean): T {
+    return raw ? { ...entity, raw: payload } : entity;
+}
+
+function fromCloudRef(ref: BitbucketPullRequest["source"] | undefined): PullRequestRef {
+    return { branch: ref?.branch?.name ?? null, commit: ref?.commit?.hash ?? null, repository: ref?.repository?.full_name ?? null };
+}
+
+function fromDCRef(ref: BitbucketDCPullRequestRef | undefined): PullRequestRef {
+    const repository = ref?.repository ? `${ref.repository.project.key}/${ref.repository.slug}` : null;
+
+    return { branch: ref?.displayId ?? null, commit: ref?.latestCommit ?? null, repository };
+}
+
+function fromDCReviewer(reviewer: BitbucketDCParticipant): Reviewer {
+    const states = { APPROVED: "approved", NEEDS_WORK: "changes_requested", UNAPPROVED: "pending" } as const;
+
+    return { user: normalizeDataCenterUser(reviewer.user), state: states[reviewer.status] ?? "pending" };
+}
+
+/** Cloud reviewers with their review state; participants who approved or requested changes without being reviewers are included too. */
+function cloudReviewers(pr: BitbucketPullRequest): Reviewer[] {
+    const reviewers = new Map<string, Reviewer>();
+    const key = (account: BitbucketAccount) => account.uuid ?? account.display_name;
+
+    for (const reviewer of pr.reviewers ?? []) reviewers.set(key(reviewer), { user: normalizeCloudUser(reviewer), state: "pending" });
+
+    for (const participant of pr.participants ?? []) {
+        const state: ReviewState = participant.state === "changes_requested"
+            ? "changes_requested"
+            : participant.approved || participant.state === "approved" ? "approved" : "pending";
+
+        if (participant.role === "REVIEWER" || state !== "pending") reviewers.set(key(participant.user), { user: normalizeCloudUser(participant.user), state });
+    }
+
+    return [...reviewers.values()];
+}
+
+/** DC anchors a comment to one line, in the new file unless `fileType` is `FROM` (removed lines). */
+function fromDCAnchor(anchor: BitbucketDCCommentAnchor): CommentAnchor {
+    const line = anchor.line ?? null;
+    const inOldFile = anchor.fileType === "FROM" || anchor.lineType === "REMOVED";
+
+    return { path: anchor.path!, from: inOldFile ? line : null, to: inOldFile ? null : line };
+}
+
+function isDataCenterPullRequest(pr: BitbucketPullRequest | BitbucketDCPullRequest): pr is BitbucketDCPullRequest {
+    return "fromRef" in pr;
+}
+
+function isDataCenterComment(comment: BitbucketComment | BitbucketDCComment): comment is BitbucketDCComment {
+    return typeof comment.text === "string";
+}
+
+function isBlockerComment(task: BitbucketTask | BitbucketBlockerComment): task is BitbucketBlockerComment {
+    return typeof task.text === "string";
+}
@@ -0,0 +1,291 @@
+import { spawn } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { AuthStrategy } from "./auth.js";
+import { getLogger } from "../logger.js";
+
+/** Bitbucket Cloud OAuth 2.0 endpoints. */
+export const OAUTH_AUTHORIZE_URL = "https://bitbucket.org/site/oauth2/authorize";
+export const OAUTH_TOKEN_URL = "https://bitbucket.org/site/oauth2/access_token";
+
+export const DEFAULT_OAUTH_REDIRECT_PORT = 8977;
+
+export const DEFAULT_OAUTH_TOKEN_FILE = join(homedir(), ".config", "host-mcp-bitbucket", "oauth-tokens.json");
+
+/** Refresh this long before the access token expires, so in-flight requests do not race the expiry. */
+const EXPIRY_MARGIN_MS = 60_000;
+
+export interface OAuthTokens {
+    accessToken: string;
+    refreshToken: string;
+
+    /** Epoch milliseconds after which the access token is no longer valid. */
+    expiresAt: number;
+}
+
+/** Raw token endpoint response. */
+interface OAuthTokenResponse {
+    access_token: string;
+    refresh_token: string;
+    expires_in: number;
+    token_type: string;
+    scopes?: string;
+}
+
+/** Thrown when no usable tokens exist; the message tells the user which URL to open. */
+export class OAuthAuthorizationRequiredError extends Error {
+    constructor(public readonly authorizeUrl: string) {
+        super(`Bitbucket authorization required: open ${authorizeUrl} in a browser, approve access, then retry.`);
+        this.name = "OAuthAuthorizationRequiredError";
+    }
+}
+
+/**
+ * Stores OAuth tokens in a local file, encrypted with AES-256-GCM.
+ * The key is derived (scrypt, random per-file salt) from a secret that is not stored in the file.
+ */
+export class OAuthTokenStore {
+    constructor(
+        private readonly filePath: string,
+        private readonly secret: string
+    ) {}
+
+    async load(): Promise<OAuthTokens | undefined> {
+        let raw: string;
+
+        try {
+            raw = await readFile(this.filePath, "utf8");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+
+            throw error;
+        }
+
+        const { salt, iv, tag, data } = JSON.parse(raw) as Record<string, string>;
+        const decipher = createDecipheriv("aes-256-gcm", this.key(Buffer.from(salt, "base64")), Buffer.from(iv, "base64"));
+
+        decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+        try {
+            const plain = Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]);
+
+            return JSON.parse(plain.toString("utf8")) as OAuthTokens;
+        } catch {
+            throw new Error(`Cannot decrypt OAuth token file ${this.filePath}: wrong encryption key or corrupted file. Delete it to authorize again.`);
+        }
+    }
+
+    async save(tokens: OAuthTokens): Promise<void> {
+        const salt = randomBytes(16);
+        const iv = randomBytes(12);
+        const cipher = createCipheriv("aes-256-gcm", this.key(salt), iv);
+        const data = Buffer.concat([cipher.update(JSON.stringify(tokens), "utf8"), cipher.final()]);
+        const file = {
+            version: 1,
+            salt: salt.toString("base64"),
+            iv: iv.toString("base64"),
+            tag: cipher.getAuthTag().toString("base64"),
+            data: data.toString("base64")
+        };
+
+        await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+        await writeFile(this.filePath, JSON.stringify(file), { mode: 0o600 });
+    }
+
+    private key(salt: Buffer): Buffer {
+        return scryptSync(this.secret, salt, 32);
+    }
+}
+
+export interface OAuthAuthOptions {
+    clientId: string;
+    clientSecret: string;
+    store: OAuthTokenStore;
+
+    /** Loopback port for the authorization redirect (`http://127.0.0.1:{port}/callback`); 0 picks a free port. */
+    redirectPort?: number;
+
+    /** Try to open the authorization URL in the default browser (default: true). */
+    openBrowser?: boolean;
+    authorizeUrl?: string;
+    tokenUrl?: string;
+}
+
+/**
+ * OAuth 2.0 authorization-code flow for Bitbucket Cloud.
+ *
+ * Tokens are loaded from the store on first use. Without tokens, a loopback HTTP server is started
+ * for the redirect and `authorization()` throws an `OAuthAuthorizationRequiredError` carrying the
+ * authorization URL, so tool calls report it whichever transport the server uses. Once the user
+ * approves, the code is exchanged and the tokens saved; access tokens are then refreshed
+ * automatically before they expire, and on demand when the API answers 401.
+ */
+export class OAuthAuth implements AuthStrategy {
+    readonly mode = "oauth";
+
+    private tokens: OAuthTokens | undefined;
+    private loaded = false;
+    private refreshing: Promise<boolean> | undefined;
+    private pending: { url: string; server: Server } | undefined;
+
+    constructor(private readonly options: OAuthAuthOptions) {}
+
+    async authorization(): Promise<string> {
+        if (!this.loaded) {
+            this.tokens = await this.options.store.load();
+            this.loaded = true;
+        }
+
+        if (this.tokens && Date.now() >= this.tokens.expiresAt - EXPIRY_MARGIN_MS) await this.refresh();
+
+        // No tokens, or the refresh failed and dropped them
+        if (!this.tokens) throw new OAuthAuthorizationRequiredError(await this.startAuthorization());
+
+        return `Bearer ${this.tokens.accessToken}`;
+    }
+
+    /** Exchange the refresh token for a new access token; concurrent callers share one request. */
+    refresh(): Promise<boolean> {
+        this.refreshing ??= this.doRefresh().finally(() => {
+            this.refreshing = undefined;
+        });
+
+        return this.refreshing;
+    }
+
+    /** Stop the loopback redirect server, if an authorization is pending. */
+    close(): void {
+        this.pending?.server.close();
+        this.pending = undefined;
+    }
+
+    private async doRefresh(): Promise<boolean> {
+        if (!this.tokens) return false;
+
+        const logger = getLogger();
+
+        logger.debug("Refreshing OAuth access token");
+
+        try {
+            await this.requestTokens({ grant_type: "refresh_token", refresh_token: this.tokens.refreshToken });
+
+            return true;
+        } catch (error) {
+            // A revoked refresh token needs a new authorization
+            logger.warn(`OAuth token refresh failed: ${error instanceof Error ? error.message : error}`);
+            this.tokens = undefined;
+
+            return false;
+        }
+    }
+
+    private async requestTokens(params: Record<string, string>): Promise<void> {
+        const credentials = Buffer.from(`${this.options.clientId}:${this.options.clientSecret}`).toString("base64");
+        const response = await fetch(this.options.tokenUrl ?? OAUTH_TOKEN_URL, {
+            method: "POST",
+            headers: {
+                "Authorization": `Basic ${credentials}`,
+                "Content-Type": "application/x-www-form-urlencoded"
+            },
+            body: new URLSearchParams(params).toString()
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => "");
+
+            throw new Error(`OAuth token request failed (${response.status}): ${body || response.statusText}`);
+        }
+
+        const token = await response.json() as OAuthTokenResponse;
+
+        this.tokens = {
+            accessToken: token.access_token,
+            refreshToken: token.refresh_token,
+            expiresAt: Date.now() + token.expires_in * 1000
+        };
+        await this.options.store.save(this.tokens);
+    }
+
+    /** Start (once) the loopback redirect server and return the URL the user must open. */
+    private async startAuthorization(): Promise<string> {
+        if (this.pending) return this.pending.url;
+
+        const logger = getLogger();
+        const state = randomBytes(16).toString("hex");
+
+        // The token request must repeat the redirect URI of the authorization request
+        let redirectUri = "";
+        const server = createServer((req, res) => {
+            const url = new URL(req.url ?? "/", "http://localhost");
+
+            if (url.pathname !== "/callback") {
+                res.writeHead(404);
+                res.end("Not Found");
+
+                return;
+            }
+
+            const code = url.searchParams.get("code");
+
+            if (url.searchParams.get("state") !== state || !code) {
+                res.writeHead(400, { "Content-Type": "text/plain" });
+                res.end(`Authorization failed: ${url.searchParams.get("error_description") ?? "invalid state or missing code"}.`);
+
+                return;
+            }
+
+            this.requestTokens({ grant_type: "authorization_code", code, redirect_uri: redirectUri }).
+                then(() => {
+                    logger.info("Bitbucket OAuth authorization completed");
+                    res.writeHead(200, { "Content-Type": "text/plain" });
+                    res.end("Bitbucket access authorized. You can close this tab.");
+                    this.close();
+                }).
+                catch((error: unknown) => {
+                    logger.error(`OAuth code exchange failed: ${error instanceof Error ? error.message : error}`);
+                    res.writeHead(500, { "Content-Type": "text/plain" });
+                    res.end("Authorization failed while exchanging the code; see the server logs.");
+                });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(this.options.redirectPort ?? DEFAULT_OAUTH_REDIRECT_PORT, "127.0.0.1", resolve);
+        });
+
+        const address = server.address();
+        const port = typeof address === "object" && address ? address.port : this.options.redirectPort;
+
+        // The address the server listens on, not `localhost`, which may resolve to ::1 first
+        redirectUri = `http://127.0.0.1:${port}/callback`;
+
+        const params = new URLSearchParams({ client_id: this.options.clientId, response_type: "code", state, redirect_uri: redirectUri });
+        const url = `${this.options.authorizeUrl ?? OAUTH_AUTHORIZE_URL}?${params.toString()}`;
+
+        this.pending = { url, server };
+        logger.warn(`Bitbucket authorization required, open: ${url}`);
+
+        if (this.options.openBrowser ?? true) openInBrowser(url);
+
+        return url;
+    }
+}
+
+/** Best effort: open `url` with the platform's default browser, ignoring failures (e.g. headless hosts). */
+function openInBrowser(url: string): void {
+    const command = process.platform === "darwin" ? "open" : process.platform === "win32" ? "cmd" : "xdg-open";
+    const args = process.platform === "win32" ? ["/c", "start", "", url] : [url];
+
+    try {
+        const child = spawn(command, args, { detached: true, stdio: "ignore" });
+
+        child.on("error", () => undefined);
+        child.unref();
+    } catch {
+        // No browser available; the URL is logged and returned in tool errors
+    }
+}
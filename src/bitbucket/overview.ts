@@ -0,0 +1,75 @@
+import type { DiffFileStatus } from "./diff.js";
+import type { BitbucketCommitStatus, BitbucketDCBuildStatus, BitbucketDCChange, BitbucketDiffStat } from "./types.js";
+
+// ── Overview model ───────────────────────────────────────────────────────
+
+/** Overall state of the builds: failed if any failed or was stopped, else in progress if any runs. */
+export type BuildRollupState = "SUCCESSFUL" | "FAILED" | "INPROGRESS" | "NONE";
+
+export interface BuildRollup {
+    state: BuildRollupState;
+    total: number;
+    successful: number;
+    failed: number;
+    inProgress: number;
+
+    /** Names (or keys) of the failed and stopped builds. */
+    failing: string[];
+}
+
+export interface ChangedFile {
+    path: string;
+    status: DiffFileStatus;
+
+    /** Line counts, Cloud only. */
+    linesAdded?: number;
+    linesRemoved?: number;
+}
+
+// ── Summaries ────────────────────────────────────────────────────────────
+
+export function rollupBuildStatuses(statuses: Array<BitbucketCommitStatus | BitbucketDCBuildStatus>): BuildRollup {
+    const failing = statuses.filter(status => status.state === "FAILED" || status.state === "STOPPED");
+    const inProgress = statuses.filter(status => status.state === "INPROGRESS").length;
+    const successful = statuses.filter(status => status.state === "SUCCESSFUL").length;
+    let state: BuildRollupState = "NONE";
+
+    if (failing.length > 0) state = "FAILED";
+    else if (inProgress > 0) state = "INPROGRESS";
+    else if (successful > 0) state = "SUCCESSFUL";
+
+    return {
+        state,
+        total: statuses.length,
+        successful,
+        failed: failing.length,
+        inProgress,
+        failing: failing.map(status => status.name ?? status.key)
+    };
+}
+
+export function summarizeChangedFiles(entries: Array<BitbucketDiffStat | BitbucketDCChange>): ChangedFile[] {
+    const statuses = { ADD: "added", MODIFY: "modified", DELETE: "removed", MOVE: "renamed", COPY: "added" } as const;
+
+    return entries.map(entry => {
+        if ("type" in entry && typeof entry.path === "object") {
+            const change = entry as BitbucketDCChange;
+
+            return { path: change.path.toString, status: statuses[change.type] ?? "modified" };
+        }
+
+        const diffStat = entry as BitbucketDiffStat;
+
+        return {
+            path: diffStat.new?.path ?? diffStat.old?.path ?? "",
+            status: diffStat.status,
+            linesAdded: diffStat.lines_added,
+            linesRemoved: diffStat.lines_removed
+        };
+    });
+}
+
+/** Tasks neither resolved (Cloud `RESOLVED`) nor closed (DC `RESOLVED`). */
+export function countOpenTasks(tasks: Array<{ state: string }>): number {
+    return tasks.filter(task => task.state !== "RESOLVED").length;
+}
@@ -0,0 +1,165 @@
+export interface RateLimitOptions {
+
+    /** Requests allowed per hour, refilled continuously (0: unlimited). */
+    requestsPerHour: number;
+
+    /** Maximum number of requests in flight at once (0: unlimited). */
+    maxConcurrency: number;
+}
+
+/** Rate-limit headers of the last Bitbucket response that had any. */
+export interface BitbucketRateLimitHeaders {
+
+    /** `X-RateLimit-Limit`: requests allowed per period. */
+    limit?: number;
+
+    /** `X-RateLimit-Remaining` (Data Center): requests left in the current period. */
+    remaining?: number;
+
+    /** `X-RateLimit-NearLimit` (Cloud): fewer than 20% of the requests are left. */
+    nearLimit?: boolean;
+
+    /** `X-RateLimit-Resource` (Cloud): the rate-limited resource the request counted against. */
+    resource?: string;
+    observedAt: string;
+}
+
+export interface RateLimitStatus {
+    requestsPerHour: number;
+    maxConcurrency: number;
+
+    /** Requests that can start now without waiting for the bucket to refill (absent when unlimited). */
+    availableTokens?: number;
+    inFlight: number;
+    queued: number;
+
+    /** Set while requests are held back after a 429 with `Retry-After`. */
+    pausedUntil?: string;
+    bitbucket?: BitbucketRateLimitHeaders;
+}
+
+/**
+ * Token bucket limiting the request rate and concurrency of one client, shared by every tool calling it.
+ * The bucket holds up to an hour's worth of requests and refills continuously.
+ */
+export class RateLimiter {
+    private tokens: number;
+    private refilledAt = Date.now();
+    private pausedUntil = 0;
+    private inFlight = 0;
+    private readonly queue: Array<() => void> = [];
+    private bitbucket: BitbucketRateLimitHeaders | undefined;
+
+    constructor(private readonly options: RateLimitOptions) {
+        this.tokens = options.requestsPerHour;
+    }
+
+    /** Wait for a concurrency slot and a token; call the returned function once the request is done. */
+    async acquire(): Promise<() => void> {
+        const { maxConcurrency } = this.options;
+
+        if (maxConcurrency > 0 && this.inFlight >= maxConcurrency) await new Promise<void>(resolve => this.queue.push(resolve));
+        else this.inFlight++;
+
+        let released = false;
+        const release = () => {
+            if (released) return;
+
+            released = true;
+
+            // Hand the slot over to the next queued request, if any
+            const next = this.queue.shift();
+
+            if (next) next();
+            else this.inFlight--;
+        };
+
+        await this.takeToken();
+
+        return release;
+    }
+
+    /** Hold back every request for `ms`, e.g. after a 429 with `Retry-After`. */
+    pause(ms: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+
+    /** Record Bitbucket's rate-limit headers, when the response has any. */
+    observe(headers: Headers): void {
+        const limit = headers.get("x-ratelimit-limit");
+        const remaining = headers.get("x-ratelimit-remaining");
+        const nearLimit = headers.get("x-ratelimit-nearlimit");
+        const resource = headers.get("x-ratelimit-resource");
+
+        if (limit === null && remaining === null && nearLimit === null && resource === null) return;
+
+        this.bitbucket = {
+            limit: limit === null ? undefined : Number(limit),
+            remaining: remaining === null ? undefined : Number(remaining),
+            nearLimit: nearLimit === null ? undefined : nearLimit.toLowerCase() === "true",
+            resource: resource ?? undefined,
+            observedAt: new Date().toISOString()
+        };
+    }
+
+    status(): RateLimitStatus {
+        this.refill();
+
+        return {
+            ...this.options,
+            availableTokens: this.options.requestsPerHour > 0 ? Math.floor(this.tokens) : undefined,
+            inFlight: this.inFlight,
+            queued: this.queue.length,
+            pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined,
+            bitbucket: this.bitbucket
+        };
+    }
+
+    private async takeToken(): Promise<void> {
+        const { requestsPerHour } = this.options;
+
+        for (;;) {
+            const paused = this.pausedUntil - Date.now();
+
+            if (paused > 0) {
+                await sleep(paused);
+
+                continue;
+            }
+
+            if (requestsPerHour <= 0) return;
+
+            this.refill();
+
+            if (this.tokens >= 1) {
+                this.tokens--;
+
+                return;
+            }
+
+            await sleep(Math.ceil((1 - this.tokens) * 3_600_000 / requestsPerHour));
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now();
+
+        this.tokens = Math.min(this.options.requestsPerHour, this.tokens + (now - this.refilledAt) * this.options.requestsPerHour / 3_600_000);
+        this.refilledAt = now;
+    }
+}
+
+/** Delay in ms requested by a `Retry-After` header (seconds or an HTTP date), if valid. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+
+    if ((/^\d+$/).test(value.trim())) return Number(value.trim()) * 1000;
+
+    const date = Date.parse(value);
+
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,115 @@
+import { readFileSync } from "node:fs";
+import { Agent, request } from "node:https";
+
+/** TLS settings of one Bitbucket instance. */
+export interface TlsOptions {
+
+    /** Skip certificate verification (self-signed certificates). */
+    insecure?: boolean;
+
+    /** PEM file with the CA certificate(s) to trust, in addition to the system ones. */
+    caFile?: string;
+}
+
+/** Statuses whose response must not carry a body (the `Response` constructor rejects one). */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Redirect statuses `fetch` follows, and its limit of redirects per request. */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 20;
+
+/**
+ * A `fetch` replacement applying `options` to HTTPS requests, or undefined when the defaults apply.
+ *
+ * The global `fetch` takes no per-request TLS settings, so HTTPS requests go through `node:https`
+ * with a dedicated agent; this keeps the settings of one instance from leaking into the others.
+ * Redirects are followed as `fetch` does. The CA file is read immediately, so a wrong path fails at startup.
+ */
+export function createTlsFetch(options: TlsOptions): typeof fetch | undefined {
+    if (!options.insecure && !options.caFile) return undefined;
+
+    const ca = options.caFile ? readFileSync(options.caFile, "utf8") : undefined;
+    const agent = new Agent({
+        keepAlive: true,
+        rejectUnauthorized: !options.insecure,
+        ca: ca ? [ca] : undefined
+    });
+
+    return (async(input: string | URL | Request, init?: RequestInit) => {
+        let url = new URL(input instanceof Request ? input.url : input);
+
+        if (url.protocol !== "https:") return fetch(input, init);
+
+        const headers = new Headers(init?.headers);
+        let method = init?.method ?? "GET";
+        let body = typeof init?.body === "string" ? init.body : undefined;
+
+        // Follow redirects like `fetch` does with `redirect: "follow"` (e.g. Cloud `/diff` endpoints redirect)
+        for (let redirects = 0; ; redirects++) {
+            const response = await send(agent, url, { method, headers, body, signal: init?.signal ?? undefined });
+            const location = response.headers.get("location");
+
+            if (init?.redirect === "manual" || !REDIRECT_STATUSES.has(response.status) || !location) return response;
+
+            if (redirects === MAX_REDIRECTS) throw new TypeError(`Too many redirects (more than ${MAX_REDIRECTS}) for ${url.href}`);
+
+            const next = new URL(location, url);
+
+            // A 303, or a 301/302 answering a POST, continues with a GET without body
+            if (response.status === 303 && method !== "HEAD" || [301, 302].includes(response.status) && method === "POST") {
+                method = "GET";
+                body = undefined;
+                headers.delete("content-type");
+            }
+
+            // Credentials are not sent to another origin
+            if (next.origin !== url.origin) headers.delete("authorization");
+
+            if (next.protocol !== "https:") return fetch(next, { method, headers, body, signal: init?.signal });
+
+            url = next;
+        }
+    }) as typeof fetch;
+}
+
+interface TlsRequest {
+    method: string;
+    headers: Headers;
+    body: string | undefined;
+    signal: AbortSignal | undefined;
+}
+
+/** One HTTPS request through `agent`, with the response body read into a `Response`. */
+function send(agent: Agent, url: URL, { method, headers, body, signal }: TlsRequest): Promise<Response> {
+    return new Promise<Response>((resolve, rejectWith) => {
+        // Like fetch, fail with the reason of an aborted signal (e.g. a `TimeoutError`), not Node's own `AbortError`
+        const reject = (error: unknown) => rejectWith(signal?.aborted ? signal.reason : error);
+
+        const req = request(url, { method, headers: Object.fromEntries(headers), agent, signal }, res => {
+            const chunks: Buffer[] = [];
+
+            res.on("data", (chunk: Buffer) => chunks.push(chunk));
+            res.on("error", reject);
+            res.on("end", () => {
+                const status = res.statusCode ?? 500;
+                const responseHeaders = new Headers();
+
+                for (const [name, value] of Object.entries(res.headers)) {
+                    for (const item of [value ?? []].flat()) responseHeaders.append(name, item);
+                }
+
+                resolve(new Response(NULL_BODY_STATUSES.has(status) ? null : Buffer.concat(chunks), {
+                    status,
+                    statusText: res.statusMessage,
+                    headers: responseHeaders
+                }));
+            });
+        });
+
+        req.on("error", reject);
+
+        if (body !== undefined) req.write(body);
+
+        req.end();
+    });
+}
@@ -113,6 +113,7 @@ export interface BitbucketComment {
     parent?: { id: number };
     deleted: boolean;
     pending: boolean;
+    resolution?: { type: string; user?: BitbucketAccount; created_on?: string } | null;
     type: "pullrequest_comment";
     links: Record<string, BitbucketLink | BitbucketLink[]>;
     [key: string]: unknown;
@@ -122,6 +123,7 @@ export interface BitbucketInlineComment {
     path: string;
     from?: number | null;
     to?: number | null;
+    outdated?: boolean;
 }
 
 // ── PR Tasks ─────────────────────────────────────────────────────────────
@@ -157,6 +159,37 @@ export interface BitbucketBlockerComment {
     [key: string]: unknown;
 }
 
+// ── DC Comments ──────────────────────────────────────────────────────────
+
+/** DC comment, as returned by the comments endpoints and embedded in activities with its replies nested in `comments`. */
+export interface BitbucketDCComment {
+    id: number;
+    version?: number;
+    text: string;
+    author?: BitbucketDCUser;
+    createdDate?: number;
+    updatedDate?: number;
+    severity?: "NORMAL" | "BLOCKER";
+    state?: "OPEN" | "RESOLVED" | "PENDING";
+    threadResolved?: boolean;
+    anchor?: BitbucketDCCommentAnchor;
+    parent?: { id: number };
+    comments?: BitbucketDCComment[];
+
+    /** Tasks of DC versions before 7.2, which predate blocker comments. */
+    tasks?: Array<{ id: number; text: string; state: TaskState }>;
+    [key: string]: unknown;
+}
+
+/** DC comment anchor: one line of a file, in the new file unless `fileType` is `FROM`. */
+export interface BitbucketDCCommentAnchor {
+    path?: string;
+    line?: number;
+    lineType?: "ADDED" | "REMOVED" | "CONTEXT";
+    fileType?: "FROM" | "TO";
+    orphaned?: boolean;
+}
+
 // ── DC Pending Review ────────────────────────────────────────────────────
 
 export type ParticipantStatus = "APPROVED" | "NEEDS_WORK" | "UNAPPROVED";
@@ -183,6 +216,65 @@ export interface BitbucketDiffStat {
     [key: string]: unknown;
 }
 
+/** DC change list entry (`/pull-requests/{id}/changes`), the DC counterpart of a diffstat entry. */
+export interface BitbucketDCChange {
+    path: BitbucketDCPath;
+    srcPath?: BitbucketDCPath;
+    type: "ADD" | "MODIFY" | "DELETE" | "MOVE" | "COPY";
+    [key: string]: unknown;
+}
+
+/** DC path object as returned in diffs and change lists. */
+export interface BitbucketDCPath {
+    components: string[];
+    name?: string;
+    parent?: string;
+    extension?: string;
+    toString: string;
+}
+
+export interface BitbucketDCDiffLine {
+    source: number;
+    destination: number;
+    line: string;
+    truncated?: boolean;
+}
+
+export interface BitbucketDCDiffSegment {
+    type: "ADDED" | "REMOVED" | "CONTEXT";
+    lines: BitbucketDCDiffLine[];
+    truncated?: boolean;
+}
+
+export interface BitbucketDCDiffHunk {
+    context?: string;
+    sourceLine: number;
+    sourceSpan: number;
+    destinationLine: number;
+    destinationSpan: number;
+    segments: BitbucketDCDiffSegment[];
+    truncated?: boolean;
+}
+
+export interface BitbucketDCDiff {
+    source: BitbucketDCPath | null;
+    destination: BitbucketDCPath | null;
+    binary?: boolean;
+    hunks?: BitbucketDCDiffHunk[];
+    truncated?: boolean;
+    [key: string]: unknown;
+}
+
+/** DC JSON diff response (pull request, commit or per-path diff). */
+export interface BitbucketDCDiffResponse {
+    fromHash?: string;
+    toHash?: string;
+    contextLines?: number;
+    diffs: BitbucketDCDiff[];
+    truncated?: boolean;
+    [key: string]: unknown;
+}
+
 export interface BitbucketCommit {
     hash: string;
     message: string;
@@ -193,6 +285,19 @@ export interface BitbucketCommit {
     [key: string]: unknown;
 }
 
+/** DC commit (`/commits` endpoints). */
+export interface BitbucketDCCommit {
+    id: string;
+    displayId: string;
+    message: string;
+    author: { name: string; emailAddress?: string; displayName?: string; [key: string]: unknown };
+    authorTimestamp: number;
+    committer?: { name: string; emailAddress?: string; displayName?: string; [key: string]: unknown };
+    committerTimestamp?: number;
+    parents?: Array<{ id: string; displayId?: string }>;
+    [key: string]: unknown;
+}
+
 export interface BitbucketStatus {
     uuid: string;
     key: string;
@@ -206,6 +311,202 @@ export interface BitbucketStatus {
     [key: string]: unknown;
 }
 
+/** Cloud commit status (`/commit/{commit}/statuses`, `/pullrequests/{id}/statuses`). */
+export interface BitbucketCommitStatus {
+    key: string;
+    state: "SUCCESSFUL" | "FAILED" | "INPROGRESS" | "STOPPED";
+    name?: string;
+    url: string;
+    description?: string;
+    [key: string]: unknown;
+}
+
+/** DC build status (`/rest/build-status/1.0/commits/{commitId}`). */
+export interface BitbucketDCBuildStatus {
+    key: string;
+    state: "SUCCESSFUL" | "FAILED" | "INPROGRESS";
+    name?: string;
+    url: string;
+    description?: string;
+    dateAdded?: number;
+    [key: string]: unknown;
+}
+
+/** DC pull request ref (`fromRef` / `toRef`). */
+export interface BitbucketDCPullRequestRef {
+    id: string;
+    displayId: string;
+    latestCommit: string;
+    repository?: {
+        slug: string;
+        project: { key: string };
+    };
+    [key: string]: unknown;
+}
+
+/** DC user, as embedded in pull requests, comments and tasks. */
+export interface BitbucketDCUser {
+    name: string;
+    displayName: string;
+    slug?: string;
+    id?: number;
+    [key: string]: unknown;
+}
+
+/** DC pull request author, reviewer or participant. */
+export interface BitbucketDCParticipant {
+    user: BitbucketDCUser;
+    role: "AUTHOR" | "REVIEWER" | "PARTICIPANT";
+    approved: boolean;
+    status: ParticipantStatus;
+}
+
+/** DC pull request, reduced to the fields read by the tools. */
+export interface BitbucketDCPullRequest {
+    id: number;
+    version: number;
+    title?: string;
+    description?: string;
+    state?: PullRequestState;
+    author?: BitbucketDCParticipant;
+    reviewers?: BitbucketDCParticipant[];
+    createdDate?: number;
+    updatedDate?: number;
+    fromRef: BitbucketDCPullRequestRef;
+    toRef: BitbucketDCPullRequestRef;
+    [key: string]: unknown;
+}
+
+// ── Pipelines (Cloud only) ───────────────────────────────────────────────
+
+/** Pipeline or step state, e.g. `{ name: "COMPLETED", result: { name: "FAILED" } }`. */
+export interface BitbucketPipelineState {
+    name: "PENDING" | "IN_PROGRESS" | "COMPLETED" | "PAUSED" | "HALTED" | string;
+    type?: string;
+    result?: { name: "SUCCESSFUL" | "FAILED" | "ERROR" | "STOPPED" | "EXPIRED" | string; type?: string };
+    stage?: { name: string; type?: string };
+}
+
+/** What a pipeline runs on: a branch or tag (`pipeline_ref_target`), a commit or a pull request. */
+export interface BitbucketPipelineTarget {
+    type: string;
+    ref_type?: "branch" | "tag" | "bookmark" | "named_branch";
+    ref_name?: string;
+    commit?: { hash: string; [key: string]: unknown };
+    selector?: { type: "default" | "branches" | "tags" | "custom" | "pull-requests" | string; pattern?: string };
+    source?: string;
+    destination?: string;
+    pullrequest?: { id: number; [key: string]: unknown };
+    [key: string]: unknown;
+}
+
+export interface BitbucketPipeline {
+    uuid: string;
+    build_number: number;
+    state: BitbucketPipelineState;
+    target: BitbucketPipelineTarget;
+    trigger?: { name: string; type?: string };
+    creator?: BitbucketAccount;
+    created_on: string;
+    completed_on?: string;
+    build_seconds_used?: number;
+    [key: string]: unknown;
+}
+
+export interface BitbucketPipelineStep {
+    uuid: string;
+    name?: string;
+    state: BitbucketPipelineState;
+    started_on?: string;
+    completed_on?: string;
+    duration_in_seconds?: number;
+    [key: string]: unknown;
+}
+
+/** Variable passed to a triggered pipeline; `secured` values are masked in logs. */
+export interface BitbucketPipelineVariable {
+    key: string;
+    value: string;
+    secured?: boolean;
+}
+
+// ── Code search ──────────────────────────────────────────────────────────
+
+/** Cloud `/search/code` text segment; `match` marks the parts matching the query. */
+export interface BitbucketCodeSearchSegment {
+    text: string;
+    match?: boolean;
+}
+
+/** Cloud `/workspaces/{workspace}/search/code` result item. */
+export interface BitbucketCodeSearchResult {
+    type: "code_search_result";
+    content_match_count: number;
+    content_matches: Array<{ lines: Array<{ line: number; segments: BitbucketCodeSearchSegment[] }> }>;
+    path_matches: BitbucketCodeSearchSegment[];
+    file: {
+        path: string;
+        type: string;
+        commit?: { hash: string; repository?: { full_name: string; [key: string]: unknown }; [key: string]: unknown };
+        [key: string]: unknown;
+    };
+}
+
+/** DC search result item; `hitContexts` line texts mark matches with `<em>` and are HTML-escaped. */
+export interface BitbucketDCCodeSearchResult {
+    repository: { slug: string; project: { key: string; [key: string]: unknown }; [key: string]: unknown };
+    file: string;
+    hitContexts: Array<Array<{ line: number; text: string }>>;
+    pathMatches: unknown[];
+    hitCount: number;
+}
+
+/** DC `POST /rest/search/latest/search` response (only the `code` entity is requested). */
+export interface BitbucketDCCodeSearchResponse {
+    code?: {
+        isLastPage: boolean;
+        count: number;
+        start: number;
+        nextStart?: number;
+        values: BitbucketDCCodeSearchResult[];
+    };
+    [key: string]: unknown;
+}
+
+/** Code search hit returned by `searchCode`, the same on both platforms. */
+export interface CodeSearchHit {
+    repository?: string;
+    path: string;
+    matches: Array<{ line: number; text: string; fragments: string[] }>;
+}
+
+// ── Source browsing ──────────────────────────────────────────────────────
+
+/** Cloud `/src` entry (directory listing item, or file metadata with `format=meta`). */
+export interface BitbucketSourceEntry {
+    type: "commit_file" | "commit_directory" | "commit_link";
+    path: string;
+    size?: number;
+    mimetype?: string | null;
+    commit?: { hash: string; [key: string]: unknown };
+    [key: string]: unknown;
+}
+
+/** DC `/browse` child entry. */
+export interface BitbucketDCBrowseChild {
+    path: { components: string[]; name: string; toString: string; [key: string]: unknown };
+    type: "FILE" | "DIRECTORY" | "SUBMODULE";
+    size?: number;
+    [key: string]: unknown;
+}
+
+/** DC `/browse` response for a directory. */
+export interface BitbucketDCBrowseDirectory {
+    path: { components: string[]; toString: string; [key: string]: unknown };
+    revision?: string;
+    children: BitbucketDCPaginatedResponse<BitbucketDCBrowseChild>;
+}
+
 // ── Paginated response ──────────────────────────────────────────────────
 
 /** Cloud-style paginated response. */
@@ -65,6 +65,23 @@ export function buildQueryString(params: Record<string, string | number | boolea
     return parts.length > 0 ? `?${parts.join("&")}` : "";
 }
 
+/**
+ * Encodes a repository file path for use in a URL, keeping `/` separators intact.
+ * Leading and trailing slashes are dropped.
+ */
+export function encodeFilePath(filePath: string): string {
+    return filePath.
+        split("/").
+        filter(segment => segment.length > 0).
+        map(encodeURIComponent).
+        join("/");
+}
+
+/** Converts a DC epoch-millisecond timestamp to an ISO 8601 date, the format Cloud uses. */
+export function epochToIso(epochMillis?: number): string | null {
+    return epochMillis === undefined ? null : new Date(epochMillis).toISOString();
+}
+
 // ── Path builder ─────────────────────────────────────────────────────────
 
 /**
@@ -110,6 +127,19 @@ export class PathBuilder {
         return this.isCloud ? `/workspaces/${ws}` : `/projects/${ws}`;
     }
 
+    /**
+     * Path for code search. On DC this is the search REST API, which lives beside `/rest/api/latest`.
+     *
+     * Cloud: GET /2.0/workspaces/{workspace}/search/code
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-search/#api-workspaces-workspace-search-code-get
+     *
+     * DC:   POST /rest/search/latest/search
+     * @see https://confluence.atlassian.com/bitbucketserver/bitbucket-search-syntax-814204781.html
+     */
+    codeSearch(ws: string): string {
+        return this.isCloud ? `${this.workspace(ws)}/search/code` : "/rest/search/latest/search";
+    }
+
     /**
      * Path to list repositories.
      *
@@ -169,6 +199,20 @@ export class PathBuilder {
         return `${this.pullRequests(ws, repoSlug)}/${prId}`;
     }
 
+    /**
+     * Path to list the pull requests of a user across repositories: on Cloud those `selectedUser` authored,
+     * on DC those the authenticated user authored, reviews or participates in.
+     *
+     * Cloud: GET /2.0/pullrequests/{selected_user}
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-pullrequests-selected-user-get
+     *
+     * DC:   GET /rest/api/latest/dashboard/pull-requests
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-dashboard/#api-api-latest-dashboard-pull-requests-get
+     */
+    userPullRequests(selectedUser: string): string {
+        return this.isCloud ? `/pullrequests/${encodeURIComponent(selectedUser)}` : "/dashboard/pull-requests";
+    }
+
     /**
      * Path for PR activity.
      *
@@ -247,12 +291,10 @@ export class PathBuilder {
     }
 
     /**
-     * Path for PR statuses (Cloud) or changes (DC — no direct equivalent).
+     * Path for PR statuses (Cloud only; on DC, read the build statuses of the PR's head commit with `commitBuildStatuses`).
      *
      * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pullrequests/{pull_request_id}/statuses
      * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-statuses-get
-     *
-     * DC:   No direct equivalent; uses commit build statuses.
      */
     pullRequestStatuses(ws: string, repoSlug: string, prId: number): string {
         return `${this.pullRequest(ws, repoSlug, prId)}/statuses`;
@@ -311,6 +353,25 @@ export class PathBuilder {
             : `${this.pullRequests(ws, repoSlug)}/${prId}.diff`;
     }
 
+    /**
+     * Path for the PR diff used to build a structured (per-file, per-hunk) diff.
+     * Cloud only serves the raw text diff, which is parsed client-side; DC has a native JSON diff.
+     * When `filePath` is given, DC uses the per-path endpoint; Cloud filters with the `path` query parameter instead.
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pullrequests/{pull_request_id}/diff
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-diff-get
+     *
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/pull-requests/{pullRequestId}/diff[/{path}]
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-pull-requests/#api-api-latest-projects-projectkey-repos-repositoryslug-pull-requests-pullrequestid-diff-path-get
+     */
+    pullRequestDiffStructured(ws: string, repoSlug: string, prId: number, filePath?: string): string {
+        const base = `${this.pullRequest(ws, repoSlug, prId)}/diff`;
+
+        if (this.isCloud || !filePath) return base;
+
+        return `${base}/${encodeFilePath(filePath)}`;
+    }
+
     /**
      * Path for PR diffstat (Cloud) or changes (DC).
      *
@@ -405,4 +466,204 @@ export class PathBuilder {
             ? `${this.repoBase(ws, repoSlug)}/refs/tags`
             : `${this.repoBase(ws, repoSlug)}/tags`;
     }
+
+    /**
+     * Path for creating or deleting branches. On DC this is the branch-utils REST API, which lives
+     * beside `/rest/api/latest` (the client resolves `/rest/...` paths against the server root).
+     *
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/refs/branches
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-refs/#api-repositories-workspace-repo-slug-refs-branches-post
+     *
+     * DC:   POST|DELETE /rest/branch-utils/latest/projects/{projectKey}/repos/{repositorySlug}/branches
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-branch-utils-latest-projects-projectkey-repos-repositoryslug-branches-post
+     */
+    branchManagement(ws: string, repoSlug: string): string {
+        return this.isCloud
+            ? this.branches(ws, repoSlug)
+            : `/rest/branch-utils/latest/projects/${ws}/repos/${repoSlug}/branches`;
+    }
+
+    /**
+     * Path for a single branch (Cloud only; DC deletes through `branchManagement` with the name in the body).
+     *
+     * Cloud: DELETE /2.0/repositories/{workspace}/{repo_slug}/refs/branches/{name}
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-refs/#api-repositories-workspace-repo-slug-refs-branches-name-delete
+     */
+    branch(ws: string, repoSlug: string, name: string): string {
+        return `${this.branches(ws, repoSlug)}/${encodeURIComponent(name)}`;
+    }
+
+    /**
+     * Path for listing commits.
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/commits
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-commits-get
+     *
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-get
+     */
+    commits(ws: string, repoSlug: string): string {
+        return `${this.repoBase(ws, repoSlug)}/commits`;
+    }
+
+    /**
+     * Path for a single commit.
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/commit/{commit}
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-commit-commit-get
+     *
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits/{commitId}
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-commitid-get
+     */
+    commit(ws: string, repoSlug: string, commitId: string): string {
+        return this.isCloud
+            ? `${this.repoBase(ws, repoSlug)}/commit/${encodeURIComponent(commitId)}`
+            : `${this.repoBase(ws, repoSlug)}/commits/${encodeURIComponent(commitId)}`;
+    }
+
+    /**
+     * Path for the diff of a commit against its first parent.
+     * Cloud returns a raw text diff (filtered with the `path` query parameter); DC returns a JSON diff,
+     * optionally restricted to `filePath`.
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/diff/{spec}
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-diff-spec-get
+     *
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits/{commitId}/diff[/{path}]
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-commitid-diff-path-get
+     */
+    commitDiff(ws: string, repoSlug: string, commitId: string, filePath?: string): string {
+        if (this.isCloud) return `${this.repoBase(ws, repoSlug)}/diff/${encodeURIComponent(commitId)}`;
+
+        const base = `${this.commit(ws, repoSlug, commitId)}/diff`;
+
+        return filePath ? `${base}/${encodeFilePath(filePath)}` : base;
+    }
+
+    /**
+     * Path for the files changed by a commit: diffstat (Cloud) or changes (DC).
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/diffstat/{spec}
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-diffstat-spec-get
+     *
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits/{commitId}/changes
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-commitid-changes-get
+     */
+    commitDiffStat(ws: string, repoSlug: string, commitId: string): string {
+        return this.isCloud
+            ? `${this.repoBase(ws, repoSlug)}/diffstat/${encodeURIComponent(commitId)}`
+            : `${this.commit(ws, repoSlug, commitId)}/changes`;
+    }
+
+    /**
+     * Path for listing the build statuses of a commit. DC uses the build-status REST API, which is not scoped to a repository.
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/commit/{commit}/statuses
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commit-statuses/#api-repositories-workspace-repo-slug-commit-commit-statuses-get
+     *
+     * DC:   GET /rest/build-status/1.0/commits/{commitId}
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-build-status/#api-build-status-1-0-commits-commitid-get
+     */
+    commitBuildStatuses(ws: string, repoSlug: string, commitId: string): string {
+        return this.isCloud
+            ? `${this.commit(ws, repoSlug, commitId)}/statuses`
+            : `/rest/build-status/1.0/commits/${commitId}`;
+    }
+
+    /**
+     * Path for setting a build status on a commit (created, or updated when the key already exists).
+     *
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/commit/{commit}/statuses/build
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commit-statuses/#api-repositories-workspace-repo-slug-commit-commit-statuses-build-post
+     *
+     * DC:   POST /rest/build-status/1.0/commits/{commitId}
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-build-status/#api-build-status-1-0-commits-commitid-post
+     */
+    commitBuildStatus(ws: string, repoSlug: string, commitId: string): string {
+        return this.isCloud
+            ? `${this.commit(ws, repoSlug, commitId)}/statuses/build`
+            : this.commitBuildStatuses(ws, repoSlug, commitId);
+    }
+
+    /**
+     * Path for listing or triggering pipelines (Cloud only).
+     *
+     * Cloud: GET|POST /2.0/repositories/{workspace}/{repo_slug}/pipelines
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-get
+     */
+    pipelines(ws: string, repoSlug: string): string {
+        return `${this.repoBase(ws, repoSlug)}/pipelines`;
+    }
+
+    /**
+     * Path for a pipeline, by UUID or build number (Cloud only).
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pipelines/{pipeline_uuid}
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-pipeline-uuid-get
+     */
+    pipeline(ws: string, repoSlug: string, pipelineId: string): string {
+        return `${this.pipelines(ws, repoSlug)}/${encodeURIComponent(pipelineId)}`;
+    }
+
+    /**
+     * Path for the steps of a pipeline (Cloud only).
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pipelines/{pipeline_uuid}/steps
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-pipeline-uuid-steps-get
+     */
+    pipelineSteps(ws: string, repoSlug: string, pipelineId: string): string {
+        return `${this.pipeline(ws, repoSlug, pipelineId)}/steps`;
+    }
+
+    /**
+     * Path for the log of a pipeline step (Cloud only).
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pipelines/{pipeline_uuid}/steps/{step_uuid}/log
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-pipeline-uuid-steps-step-uuid-log-get
+     */
+    pipelineStepLog(ws: string, repoSlug: string, pipelineId: string, stepId: string): string {
+        return `${this.pipelineSteps(ws, repoSlug, pipelineId)}/${encodeURIComponent(stepId)}/log`;
+    }
+
+    /**
+     * Path for stopping a running pipeline (Cloud only).
+     *
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/pipelines/{pipeline_uuid}/stopPipeline
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-pipeline-uuid-stoppipeline-post
+     */
+    pipelineStop(ws: string, repoSlug: string, pipelineId: string): string {
+        return `${this.pipeline(ws, repoSlug, pipelineId)}/stopPipeline`;
+    }
+
+    /**
+     * Path for the raw contents of a file. On DC the ref is passed as the `at` query parameter.
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/src/{commit}/{path}
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-source/#api-repositories-workspace-repo-slug-src-commit-path-get
+     *
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/raw/{path}
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-raw-path-get
+     */
+    fileContent(ws: string, repoSlug: string, ref: string, filePath: string): string {
+        return this.isCloud
+            ? `${this.repoBase(ws, repoSlug)}/src/${encodeURIComponent(ref)}/${encodeFilePath(filePath)}`
+            : `${this.repoBase(ws, repoSlug)}/raw/${encodeFilePath(filePath)}`;
+    }
+
+    /**
+     * Path for browsing a directory (or file metadata). On DC the ref is passed as the `at` query parameter.
+     *
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/src/{commit}/{path}/
+     * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-source/#api-repositories-workspace-repo-slug-src-commit-path-get
+     *
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/browse/{path}
+     * @see https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-browse-path-get
+     */
+    browse(ws: string, repoSlug: string, ref: string, dirPath = ""): string {
+        const encoded = encodeFilePath(dirPath);
+
+        if (this.isCloud) return `${this.repoBase(ws, repoSlug)}/src/${encodeURIComponent(ref)}/${encoded ? `${encoded}/` : ""}`;
+
+        return encoded ? `${this.repoBase(ws, repoSlug)}/browse/${encoded}` : `${this.repoBase(ws, repoSlug)}/browse`;
+    }
 }
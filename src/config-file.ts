@@ -0,0 +1,149 @@
+import { readFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+
+import { isScalar, parseDocument, Scalar, visit } from "yaml";
+import { z } from "zod";
+
+const INSTANCE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/** Connection settings, at the top level of the file (single instance) or per declared instance. */
+const ConnectionSettingsSchema = z.object({
+    bitbucketUrl: z.string().url().optional(),
+    authMode: z.enum(["bearer", "basic", "api-token", "oauth"]).optional(),
+    bitbucketToken: z.string().optional(),
+    bitbucketUsername: z.string().optional(),
+    bitbucketPassword: z.string().optional(),
+    oauthClientId: z.string().optional(),
+    oauthClientSecret: z.string().optional(),
+    oauthTokenFile: z.string().optional(),
+    oauthEncryptionKey: z.string().optional(),
+    oauthRedirectPort: z.number().int().min(0).max(65535).optional(),
+    defaultWorkspace: z.string().optional(),
+    insecure: z.boolean().optional(),
+    caFile: z.string().optional()
+}).strict();
+
+/** Keys of the connection settings, which declared `instances` replace. */
+export const CONNECTION_SETTINGS = Object.keys(ConnectionSettingsSchema.shape) as Array<keyof z.infer<typeof ConnectionSettingsSchema>>;
+
+const SettingsSchema = ConnectionSettingsSchema.extend({
+    logLevel: z.enum(["debug", "info", "warn", "error"]).optional(),
+    timeout: z.number().int().positive().optional(),
+    maxRetries: z.number().int().min(0).optional(),
+    retryDelay: z.number().int().min(0).optional(),
+    cacheSize: z.number().int().min(0).optional(),
+    cacheMaxBytes: z.number().int().positive().optional(),
+    cacheTtl: z.number().int().min(0).optional(),
+    rateLimit: z.number().int().min(0).optional(),
+    maxConcurrency: z.number().int().min(0).optional(),
+    transport: z.enum(["stdio", "http"]).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    host: z.string().optional(),
+    httpAuthToken: z.string().optional(),
+    allowedOrigins: z.array(z.string()).optional(),
+    allowedHosts: z.array(z.string()).optional(),
+    tlsCert: z.string().optional(),
+    tlsKey: z.string().optional(),
+    stateful: z.boolean().optional(),
+    maxSessions: z.number().int().positive().optional(),
+    sessionIdleTimeout: z.number().int().positive().optional(),
+    maxResponseSize: z.number().int().min(0).optional(),
+    readOnly: z.boolean().optional(),
+    enableTools: z.array(z.string()).optional(),
+    disableTools: z.array(z.string()).optional(),
+    requireConfirmation: z.boolean().optional(),
+    defaultInstance: z.string().optional(),
+    instances: z.record(
+        z.string().regex(INSTANCE_NAME_PATTERN, "Instance names may only contain letters, digits, '-' and '_'"),
+        ConnectionSettingsSchema.required({ bitbucketUrl: true })
+    ).refine(instances => Object.keys(instances).length > 0, "At least one instance is required").optional()
+}).strict();
+
+const ConfigFileSchema = SettingsSchema.extend({
+    profiles: z.record(SettingsSchema).optional()
+}).strict();
+
+/** Settings read from a config file, with the selected profile applied. */
+export type FileSettings = z.infer<typeof SettingsSchema>;
+
+export type InstanceSettings = NonNullable<FileSettings["instances"]>[string];
+
+/**
+ * Load a JSON or YAML (`.yaml` / `.yml`) config file. Keys are the camelCase names of the CLI flags
+ * (e.g. `bitbucketUrl` for `--bitbucket-url`), plus `instances` and `profiles`.
+ *
+ * The keys of the selected profile replace the top-level ones. Relative file paths (`caFile`,
+ * `oauthTokenFile`) are resolved against the file's directory.
+ */
+export function loadConfigFile(path: string, profile?: string): FileSettings {
+    let raw: unknown;
+
+    try {
+        const text = readFileSync(path, "utf8");
+
+        raw = [".yaml", ".yml"].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Cannot read config file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const result = ConfigFileSchema.safeParse(raw);
+
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+
+        throw new Error(`Invalid config file ${path}: ${issues.join("; ")}`);
+    }
+
+    const { profiles, ...settings } = result.data;
+
+    if (profile && !profiles?.[profile]) {
+        const available = Object.keys(profiles ?? {});
+
+        throw new Error(`Unknown profile "${profile}" in config file ${path}. ${available.length > 0 ? `Available profiles: ${available.join(", ")}` : "The file declares no profiles."}`);
+    }
+
+    const selected = profile ? profiles![profile] : {};
+
+    return resolvePaths({ ...settings, ...selected }, dirname(resolve(path)));
+}
+
+function resolvePaths(settings: FileSettings, baseDir: string): FileSettings {
+    const withPaths = <T extends z.infer<typeof ConnectionSettingsSchema>>(connection: T): T => ({
+        ...connection,
+        caFile: connection.caFile && resolve(baseDir, connection.caFile),
+        oauthTokenFile: connection.oauthTokenFile && resolve(baseDir, connection.oauthTokenFile)
+    });
+
+    return {
+        ...withPaths(settings),
+        tlsCert: settings.tlsCert && resolve(baseDir, settings.tlsCert),
+        tlsKey: settings.tlsKey && resolve(baseDir, settings.tlsKey),
+        instances: settings.instances && Object.fromEntries(Object.entries(settings.instances).map(([name, instance]) => [name, withPaths(instance)]))
+    };
+}
+
+/** Keys whose values are strings, even when written as plain numbers or booleans (`bitbucketToken: 0123`). */
+const STRING_KEYS = new Set(Object.keys(SettingsSchema.shape).filter(key => {
+    const schema = SettingsSchema.shape[key as keyof typeof SettingsSchema.shape];
+
+    return schema instanceof z.ZodOptional && schema.unwrap() instanceof z.ZodString;
+}));
+
+function parseYaml(text: string): unknown {
+    const document = parseDocument(text);
+
+    if (document.errors.length > 0) throw document.errors[0];
+
+    // Keep the text of numbers and booleans given for string settings, which YAML would convert
+    visit(document, {
+        Pair(_, pair) {
+            const { key, value } = pair;
+
+            if (isScalar(key) && STRING_KEYS.has(String(key.value)) && isScalar(value) && value.type === Scalar.PLAIN && value.source !== undefined) {
+                if (typeof value.value === "number" || typeof value.value === "boolean") value.value = value.source;
+            }
+        }
+    });
+
+    return document.toJS() ?? {};
+}
@@ -1,23 +1,154 @@
+import { dirname, join } from "node:path";
+
 import { Command } from "commander";
 
+import { AUTH_MODES, AUTH_SETTING_FLAGS, missingAuthSettings, resolveAuthMode, type AuthCredentials, type AuthMode, type AuthSettingNames } from "./bitbucket/auth.js";
+import { DEFAULT_OAUTH_REDIRECT_PORT, DEFAULT_OAUTH_TOKEN_FILE } from "./bitbucket/oauth.js";
+import { detectPlatform } from "./bitbucket/utils.js";
+import { CONNECTION_SETTINGS, loadConfigFile, type InstanceSettings } from "./config-file.js";
 import type { LogLevel } from "./logger.js";
 import { VERSION } from "./version.js";
 
 export type TransportType = "stdio" | "http";
 
-export interface Config {
+/** Connection settings of one Bitbucket server (Cloud or Data Center). */
+export interface InstanceConfig {
+
+    /** Name given to the `instance` argument of the tools (`default` for the instance set by flags). */
+    name: string;
     bitbucketUrl: string;
-    bitbucketToken: string;
+    authMode: AuthMode;
+    bitbucketToken: string | undefined;
+    bitbucketUsername: string | undefined;
+    bitbucketPassword: string | undefined;
+    oauthClientId: string | undefined;
+    oauthClientSecret: string | undefined;
+    oauthTokenFile: string | undefined;
+    oauthEncryptionKey: string | undefined;
+    oauthRedirectPort: number;
     defaultWorkspace: string | undefined;
     insecure: boolean;
+    caFile: string | undefined;
+}
+
+export interface Config {
+
+    /** At least one; from `--config` when it declares instances, otherwise the single `default` instance set by flags. */
+    instances: InstanceConfig[];
+
+    /** Instance used when a tool call omits `instance`. */
+    defaultInstance: string;
     logLevel: LogLevel;
     timeout: number;
     maxRetries: number;
     retryDelay: number;
+
+    /** Maximum number of cached GET responses per instance (0 disables the cache). */
+    cacheSize: number;
+
+    /** Maximum total size in bytes of the cached GET responses per instance. */
+    cacheMaxBytes: number;
+
+    /** TTL in ms of cached GET responses without a more specific per-path TTL. */
+    cacheTtl: number;
+
+    /** Requests per hour allowed per instance (0: unlimited). */
+    rateLimit: number;
+
+    /** Maximum concurrent requests per instance (0: unlimited). */
+    maxConcurrency: number;
     transport: TransportType;
     port: number;
+
+    /** Address the HTTP transport listens on. */
+    host: string;
+
+    /** Bearer token HTTP clients must present (no check when unset). */
+    httpAuthToken: string | undefined;
+
+    /** Browser origins allowed to call the HTTP transport besides loopback ones (`*`: any). */
+    allowedOrigins: string[];
+
+    /** Host names clients may address the HTTP transport by, besides loopback ones and `host` (`*`: any). */
+    allowedHosts: string[];
+
+    /** Certificate and private key files (PEM) to serve HTTPS. */
+    tlsCert: string | undefined;
+    tlsKey: string | undefined;
+
+    /** HTTP transport keeps sessions (`Mcp-Session-Id`) instead of a new server per request. */
+    stateful: boolean;
+
+    /** Maximum number of open HTTP sessions (stateful mode). */
+    maxSessions: number;
+
+    /** Idle time in ms after which an HTTP session is closed (stateful mode). */
+    sessionIdleTimeout: number;
+    maxResponseSize: number;
+
+    /** Only expose tools annotated as read-only. */
+    readOnly: boolean;
+
+    /** Tool names or groups to expose (empty: all). */
+    enableTools: string[];
+
+    /** Tool names or groups to hide. */
+    disableTools: string[];
+
+    /** Destructive tools only execute with the token returned by a preview of the same call. */
+    requireConfirmation: boolean;
 }
 
+/** Name of the instance configured by flags and environment variables. */
+export const DEFAULT_INSTANCE_NAME = "default";
+
+/** Environment variable of each setting that can also come from the config file. */
+const ENV_VARS = {
+    bitbucketUrl: "BITBUCKET_URL",
+    authMode: "BITBUCKET_AUTH_MODE",
+    bitbucketToken: "BITBUCKET_TOKEN",
+    bitbucketUsername: "BITBUCKET_USERNAME",
+    bitbucketPassword: "BITBUCKET_PASSWORD",
+    oauthClientId: "BITBUCKET_OAUTH_CLIENT_ID",
+    oauthClientSecret: "BITBUCKET_OAUTH_CLIENT_SECRET",
+    oauthTokenFile: "BITBUCKET_OAUTH_TOKEN_FILE",
+    oauthEncryptionKey: "BITBUCKET_OAUTH_ENCRYPTION_KEY",
+    oauthRedirectPort: "BITBUCKET_OAUTH_REDIRECT_PORT",
+    caFile: "BITBUCKET_CA_FILE",
+    defaultInstance: "BITBUCKET_DEFAULT_INSTANCE",
+    defaultWorkspace: "BITBUCKET_WORKSPACE",
+    insecure: "BITBUCKET_INSECURE",
+    logLevel: "LOG_LEVEL",
+    timeout: "BITBUCKET_TIMEOUT",
+    maxRetries: "BITBUCKET_MAX_RETRIES",
+    retryDelay: "BITBUCKET_RETRY_DELAY",
+    cacheSize: "BITBUCKET_CACHE_SIZE",
+    cacheMaxBytes: "BITBUCKET_CACHE_MAX_BYTES",
+    cacheTtl: "BITBUCKET_CACHE_TTL",
+    rateLimit: "BITBUCKET_RATE_LIMIT",
+    maxConcurrency: "BITBUCKET_MAX_CONCURRENCY",
+    transport: "MCP_TRANSPORT",
+    port: "MCP_PORT",
+    host: "MCP_HOST",
+    httpAuthToken: "MCP_HTTP_AUTH_TOKEN",
+    allowedOrigins: "MCP_ALLOWED_ORIGINS",
+    allowedHosts: "MCP_ALLOWED_HOSTS",
+    tlsCert: "MCP_TLS_CERT",
+    tlsKey: "MCP_TLS_KEY",
+    stateful: "MCP_STATEFUL",
+    maxSessions: "MCP_MAX_SESSIONS",
+    sessionIdleTimeout: "MCP_SESSION_IDLE_TIMEOUT",
+    maxResponseSize: "MCP_MAX_RESPONSE_SIZE",
+    readOnly: "MCP_READ_ONLY",
+    enableTools: "MCP_ENABLE_TOOLS",
+    disableTools: "MCP_DISABLE_TOOLS",
+    requireConfirmation: "MCP_REQUIRE_CONFIRMATION"
+} as const;
+
+type SettingKey = keyof typeof ENV_VARS;
+
+type Setting = (key: SettingKey) => string | number | boolean | string[] | undefined;
+
 export function parseConfig(argv: string[] = process.argv): Config {
     const program = new Command();
 
@@ -28,82 +159,369 @@ export function parseConfig(argv: string[] = process.argv): Config {
         option(
             "--bitbucket-url <url>",
             "Bitbucket API base URL",
-            process.env.BITBUCKET_URL ?? "https://api.bitbucket.org/2.0"
+            "https://api.bitbucket.org/2.0"
+        ).
+        option(
+            "--auth-mode <mode>",
+            "Authentication mode: bearer (access token), basic (username + app password/password), api-token (email + Atlassian API token) or oauth (OAuth consumer, Cloud only); inferred from the credentials when omitted"
         ).
         option(
             "--bitbucket-token <token>",
-            "Bitbucket API token (app password or access token)",
-            process.env.BITBUCKET_TOKEN
+            "Bitbucket access token (bearer mode) or Atlassian API token (api-token mode)"
+        ).
+        option(
+            "--bitbucket-username <username>",
+            "Bitbucket username (basic mode) or Atlassian account email (api-token mode)"
+        ).
+        option(
+            "--bitbucket-password <password>",
+            "Cloud app password or DC account password (basic mode)"
+        ).
+        option(
+            "--oauth-client-id <key>",
+            "OAuth consumer key (oauth mode)"
+        ).
+        option(
+            "--oauth-client-secret <secret>",
+            "OAuth consumer secret (oauth mode)"
+        ).
+        option(
+            "--oauth-token-file <path>",
+            "File where OAuth tokens are stored encrypted (default: ~/.config/host-mcp-bitbucket/oauth-tokens.json)"
+        ).
+        option(
+            "--oauth-encryption-key <key>",
+            "Secret used to encrypt the OAuth token file (default: the consumer secret)"
+        ).
+        option(
+            "--oauth-redirect-port <port>",
+            "Loopback port receiving the OAuth authorization redirect (http://127.0.0.1:<port>/callback)",
+            String(DEFAULT_OAUTH_REDIRECT_PORT)
+        ).
+        option(
+            "--ca-file <path>",
+            "PEM file with additional CA certificates to trust (e.g. a private CA of a Data Center server)"
+        ).
+        option(
+            "--config <path>",
+            "JSON or YAML config file; environment variables and flags override its settings",
+            process.env.BITBUCKET_CONFIG
+        ).
+        option(
+            "--profile <name>",
+            "Profile of the config file to apply over its top-level settings",
+            process.env.BITBUCKET_PROFILE
+        ).
+        option(
+            "--default-instance <name>",
+            "Instance used when a tool call omits `instance` (default: the file's defaultInstance, or its first instance)"
         ).
         option(
             "--default-workspace <workspace>",
-            "Default Bitbucket workspace (used when workspace parameter is omitted)",
-            process.env.BITBUCKET_WORKSPACE
+            "Default Bitbucket workspace (used when workspace parameter is omitted)"
         ).
         option(
             "--insecure",
-            "Skip TLS certificate verification",
-            process.env.BITBUCKET_INSECURE === "true"
+            "Skip TLS certificate verification"
         ).
         option(
             "--log-level <level>",
             "Log level (debug|info|warn|error)",
-            process.env.LOG_LEVEL ?? "info"
+            "info"
         ).
         option(
             "--timeout <ms>",
             "HTTP request timeout in milliseconds",
-            process.env.BITBUCKET_TIMEOUT ?? "30000"
+            "30000"
         ).
         option(
             "--max-retries <count>",
             "Maximum number of retries for transient errors",
-            process.env.BITBUCKET_MAX_RETRIES ?? "3"
+            "3"
         ).
         option(
             "--retry-delay <ms>",
             "Base delay in ms for exponential backoff between retries",
-            process.env.BITBUCKET_RETRY_DELAY ?? "1000"
+            "1000"
+        ).
+        option(
+            "--cache-size <entries>",
+            "Maximum number of cached GET responses per instance (0 disables the cache)",
+            "500"
+        ).
+        option(
+            "--cache-max-bytes <bytes>",
+            "Maximum total size in bytes of the cached GET responses per instance; larger responses are not cached",
+            "20000000"
+        ).
+        option(
+            "--cache-ttl <ms>",
+            "Time in ms a cached GET response is served before being revalidated",
+            "5000"
+        ).
+        option(
+            "--rate-limit <requests>",
+            "Maximum requests per hour per instance, shared by all tools (0 disables)",
+            "0"
+        ).
+        option(
+            "--max-concurrency <requests>",
+            "Maximum concurrent requests per instance (0 disables)",
+            "0"
         ).
         option(
             "--transport <type>",
             "MCP transport type (stdio or http)",
-            process.env.MCP_TRANSPORT ?? "stdio"
+            "stdio"
         ).
         option(
             "--port <port>",
             "HTTP server port (only used with --transport http)",
-            process.env.MCP_PORT ?? "3000"
+            "3000"
+        ).
+        option(
+            "--host <address>",
+            "Address the HTTP server listens on (0.0.0.0 for all interfaces)",
+            "127.0.0.1"
+        ).
+        option(
+            "--http-auth-token <token>",
+            "Bearer token HTTP clients must send in the Authorization header"
+        ).
+        option(
+            "--allowed-origins <origins>",
+            "Comma-separated browser origins allowed to call the HTTP server besides localhost, with CORS headers (* for any)"
+        ).
+        option(
+            "--allowed-hosts <hosts>",
+            "Comma-separated host names clients may address the HTTP server by, besides localhost and --host (* for any)"
+        ).
+        option(
+            "--tls-cert <path>",
+            "TLS certificate file (PEM) to serve HTTPS, with --tls-key"
+        ).
+        option(
+            "--tls-key <path>",
+            "TLS private key file (PEM) to serve HTTPS, with --tls-cert"
+        ).
+        option(
+            "--stateful",
+            "Keep HTTP sessions (Mcp-Session-Id) with an SSE stream for server-to-client notifications (only used with --transport http)"
+        ).
+        option(
+            "--max-sessions <count>",
+            "Maximum number of open HTTP sessions in stateful mode",
+            "100"
+        ).
+        option(
+            "--session-idle-timeout <ms>",
+            "Close HTTP sessions idle for this long in stateful mode",
+            "1800000"
+        ).
+        option(
+            "--max-response-size <bytes>",
+            "Maximum size in bytes of a tool response; larger list and text results are truncated with a continuation cursor (0 disables)",
+            "100000"
+        ).
+        option(
+            "--read-only",
+            "Only expose read-only tools (no create, update, merge or delete)"
+        ).
+        option(
+            "--enable-tools <names>",
+            "Comma-separated tool names or groups to expose (default: all)"
+        ).
+        option(
+            "--disable-tools <names>",
+            "Comma-separated tool names or groups to hide"
+        ).
+        option(
+            "--require-confirmation",
+            "Destructive tools (merge, decline, delete...) first return a preview and a confirmation token that a second call must present"
         );
 
     program.parse(argv);
 
     const opts = program.opts();
 
+    const file = opts.config ? loadConfigFile(opts.config, opts.profile) : undefined;
+
+    if (opts.profile && !file) throw new Error("--profile requires a config file (--config or BITBUCKET_CONFIG).");
+
+    // Precedence: flags > environment variables > config file (profile, then top level) > defaults
+    const setting: Setting = key => {
+        if (program.getOptionValueSource(key) === "cli") return opts[key];
+
+        return process.env[ENV_VARS[key]] ?? file?.[key] ?? opts[key];
+    };
+
+    if (file?.instances) {
+        // Declared instances carry their own connection settings: refuse flags and variables that would be ignored
+        const ignored = CONNECTION_SETTINGS.flatMap(key => {
+            if (program.getOptionValueSource(key) === "cli") return [program.options.find(option => option.attributeName() === key)!.long!];
+
+            return process.env[ENV_VARS[key]] === undefined ? [] : [ENV_VARS[key]];
+        });
+
+        if (ignored.length > 0) {
+            throw new Error(`The config file declares instances, which replace the connection settings: remove ${ignored.join(", ")} or move them into the instances.`);
+        }
+    }
+
+    const instances = file?.instances
+        ? Object.entries(file.instances).map(([name, instance]) => fromInstanceSettings(name, instance))
+        : [fromSettings(setting)];
+
     const config: Config = {
-        bitbucketUrl: opts.bitbucketUrl,
-        bitbucketToken: opts.bitbucketToken,
-        defaultWorkspace: opts.defaultWorkspace,
-        insecure: opts.insecure ?? false,
-        logLevel: opts.logLevel as LogLevel,
-        timeout: parseInt(String(opts.timeout), 10),
-        maxRetries: parseInt(String(opts.maxRetries), 10),
-        retryDelay: parseInt(String(opts.retryDelay), 10),
-        transport: opts.transport as TransportType,
-        port: parseInt(String(opts.port), 10)
+        instances,
+        defaultInstance: str(setting("defaultInstance")) ?? instances[0].name,
+        logLevel: setting("logLevel") as LogLevel,
+        timeout: parseInt(String(setting("timeout")), 10),
+        maxRetries: parseInt(String(setting("maxRetries")), 10),
+        retryDelay: parseInt(String(setting("retryDelay")), 10),
+        cacheSize: parseInt(String(setting("cacheSize")), 10),
+        cacheMaxBytes: parseInt(String(setting("cacheMaxBytes")), 10),
+        cacheTtl: parseInt(String(setting("cacheTtl")), 10),
+        rateLimit: parseInt(String(setting("rateLimit")), 10),
+        maxConcurrency: parseInt(String(setting("maxConcurrency")), 10),
+        transport: setting("transport") as TransportType,
+        port: parseInt(String(setting("port")), 10),
+        host: String(setting("host")),
+        httpAuthToken: str(setting("httpAuthToken")) || undefined,
+        allowedOrigins: list(setting("allowedOrigins")),
+        allowedHosts: list(setting("allowedHosts")),
+        tlsCert: str(setting("tlsCert")),
+        tlsKey: str(setting("tlsKey")),
+        stateful: bool(setting("stateful")),
+        maxSessions: parseInt(String(setting("maxSessions")), 10),
+        sessionIdleTimeout: parseInt(String(setting("sessionIdleTimeout")), 10),
+        maxResponseSize: parseInt(String(setting("maxResponseSize")), 10),
+        readOnly: bool(setting("readOnly")),
+        enableTools: list(setting("enableTools")),
+        disableTools: list(setting("disableTools")),
+        requireConfirmation: bool(setting("requireConfirmation"))
     };
 
-    validate(config);
+    validate(config, Boolean(file?.instances));
 
     return config;
 }
 
-function validate(config: Config): void {
-    const missing: string[] = [];
+function str(value: ReturnType<Setting>): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+/** A flag, `"true"` from an environment variable or a boolean from the config file. */
+function bool(value: ReturnType<Setting>): boolean {
+    return value === true || value === "true";
+}
+
+/** A comma-separated flag or environment variable, or a list from the config file. */
+function list(value: ReturnType<Setting>): string[] {
+    const items = Array.isArray(value) ? value : String(value ?? "").split(",");
+
+    return items.map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/** The `default` instance, from the connection settings of flags, environment variables and config file. */
+function fromSettings(setting: Setting): InstanceConfig {
+    const auth = {
+        authMode: str(setting("authMode")) as AuthMode | undefined,
+        token: str(setting("bitbucketToken")),
+        username: str(setting("bitbucketUsername")),
+        password: str(setting("bitbucketPassword")),
+        oauthClientId: str(setting("oauthClientId")),
+        oauthClientSecret: str(setting("oauthClientSecret"))
+    };
+
+    return {
+        name: DEFAULT_INSTANCE_NAME,
+        bitbucketUrl: String(setting("bitbucketUrl")),
+        authMode: resolveAuthMode(auth),
+        bitbucketToken: auth.token,
+        bitbucketUsername: auth.username,
+        bitbucketPassword: auth.password,
+        oauthClientId: auth.oauthClientId,
+        oauthClientSecret: auth.oauthClientSecret,
+        oauthTokenFile: str(setting("oauthTokenFile")),
+        oauthEncryptionKey: str(setting("oauthEncryptionKey")),
+        oauthRedirectPort: parseInt(String(setting("oauthRedirectPort")), 10),
+        defaultWorkspace: str(setting("defaultWorkspace")),
+        insecure: bool(setting("insecure")),
+        caFile: str(setting("caFile"))
+    };
+}
+
+/** An instance declared under `instances` in the config file. */
+function fromInstanceSettings(name: string, instance: InstanceSettings): InstanceConfig {
+    return {
+        name,
+        bitbucketUrl: instance.bitbucketUrl,
+        authMode: resolveAuthMode({
+            authMode: instance.authMode,
+            token: instance.bitbucketToken,
+            username: instance.bitbucketUsername,
+            password: instance.bitbucketPassword,
+            oauthClientId: instance.oauthClientId,
+            oauthClientSecret: instance.oauthClientSecret
+        }),
+        bitbucketToken: instance.bitbucketToken,
+        bitbucketUsername: instance.bitbucketUsername,
+        bitbucketPassword: instance.bitbucketPassword,
+        oauthClientId: instance.oauthClientId,
+        oauthClientSecret: instance.oauthClientSecret,
+
+        // One token file per instance, so two OAuth consumers do not overwrite each other's tokens
+        oauthTokenFile: instance.oauthTokenFile ?? join(dirname(DEFAULT_OAUTH_TOKEN_FILE), `oauth-tokens-${name}.json`),
+        oauthEncryptionKey: instance.oauthEncryptionKey,
+        oauthRedirectPort: instance.oauthRedirectPort ?? DEFAULT_OAUTH_REDIRECT_PORT,
+        defaultWorkspace: instance.defaultWorkspace,
+        insecure: instance.insecure ?? false,
+        caFile: instance.caFile
+    };
+}
+
+/** The credentials of `instance`, as expected by `createAuthStrategy`. */
+export function authCredentials(config: InstanceConfig): AuthCredentials {
+    return {
+        authMode: config.authMode,
+        token: config.bitbucketToken,
+        username: config.bitbucketUsername,
+        password: config.bitbucketPassword,
+        oauthClientId: config.oauthClientId,
+        oauthClientSecret: config.oauthClientSecret,
+        oauthTokenFile: config.oauthTokenFile,
+        oauthEncryptionKey: config.oauthEncryptionKey,
+        oauthRedirectPort: config.oauthRedirectPort
+    };
+}
+
+/** `declaredInFile`: the instances come from `instances` in the config file, not from flags and environment variables. */
+function validate(config: Config, declaredInFile: boolean): void {
+    for (const instance of config.instances) {
+        const names = declaredInFile ? fileSettingNames(instance.name) : AUTH_SETTING_FLAGS;
+
+        validateInstance(instance, config.instances.length > 1 ? `Instance "${instance.name}": ` : "", names);
+    }
+
+    // Each pending authorization listens on its redirect port, so two OAuth instances cannot share one
+    const redirectPorts = new Map<number, string>();
+
+    for (const instance of config.instances) {
+        if (instance.authMode !== "oauth" || instance.oauthRedirectPort === 0) continue;
 
-    if (!config.bitbucketToken) missing.push("--bitbucket-token or BITBUCKET_TOKEN");
+        const other = redirectPorts.get(instance.oauthRedirectPort);
 
-    if (missing.length > 0) throw new Error(`Missing required configuration: ${missing.join(", ")}`);
+        if (other !== undefined) {
+            throw new Error(`Instances "${other}" and "${instance.name}" use the same OAuth redirect port ${instance.oauthRedirectPort}. Set a different oauthRedirectPort for each OAuth instance.`);
+        }
+
+        redirectPorts.set(instance.oauthRedirectPort, instance.name);
+    }
+
+    if (!config.instances.some(instance => instance.name === config.defaultInstance)) {
+        throw new Error(`Unknown default instance: ${config.defaultInstance}. Must be one of: ${config.instances.map(instance => instance.name).join(", ")}`);
+    }
 
     const validLevels: LogLevel[] = ["debug", "info", "warn", "error"];
 
@@ -122,4 +540,59 @@ function validate(config: Config): void {
     if (config.transport === "http" && (isNaN(config.port) || config.port <= 0 || config.port > 65535)) {
         throw new Error(`Invalid port: ${config.port}. Must be between 1 and 65535.`);
     }
+
+    if (isNaN(config.cacheSize) || config.cacheSize < 0) throw new Error(`Invalid cache size: ${config.cacheSize}. Must be 0 (disabled) or a positive number.`);
+
+    if (isNaN(config.cacheMaxBytes) || config.cacheMaxBytes <= 0) throw new Error(`Invalid cache max bytes: ${config.cacheMaxBytes}. Must be a positive number.`);
+
+    if (isNaN(config.cacheTtl) || config.cacheTtl < 0) throw new Error(`Invalid cache TTL: ${config.cacheTtl}. Must be 0 or a positive number.`);
+
+    if (!config.tlsCert !== !config.tlsKey) throw new Error("HTTPS requires both --tls-cert and --tls-key.");
+
+    if (config.stateful && (isNaN(config.maxSessions) || config.maxSessions <= 0)) throw new Error(`Invalid max sessions: ${config.maxSessions}. Must be a positive number.`);
+
+    if (config.stateful && (isNaN(config.sessionIdleTimeout) || config.sessionIdleTimeout <= 0)) {
+        throw new Error(`Invalid session idle timeout: ${config.sessionIdleTimeout}. Must be a positive number of milliseconds.`);
+    }
+
+    if (isNaN(config.rateLimit) || config.rateLimit < 0) throw new Error(`Invalid rate limit: ${config.rateLimit}. Must be 0 (unlimited) or a positive number of requests per hour.`);
+
+    if (isNaN(config.maxConcurrency) || config.maxConcurrency < 0) {
+        throw new Error(`Invalid max concurrency: ${config.maxConcurrency}. Must be 0 (unlimited) or a positive number.`);
+    }
+
+    if (isNaN(config.maxResponseSize) || config.maxResponseSize < 0) {
+        throw new Error(`Invalid max response size: ${config.maxResponseSize}. Must be 0 (unlimited) or a positive number of bytes.`);
+    }
+}
+
+/** The config file keys of the credential settings of instance `name`. */
+function fileSettingNames(name: string): AuthSettingNames {
+    const key = (setting: string) => `instances.${name}.${setting}`;
+
+    return {
+        token: key("bitbucketToken"),
+        username: key("bitbucketUsername"),
+        password: key("bitbucketPassword"),
+        oauthClientId: key("oauthClientId"),
+        oauthClientSecret: key("oauthClientSecret")
+    };
+}
+
+function validateInstance(instance: InstanceConfig, prefix: string, names: AuthSettingNames): void {
+    if (!AUTH_MODES.includes(instance.authMode)) {
+        throw new Error(`${prefix}Invalid auth mode: ${instance.authMode}. Must be one of: ${AUTH_MODES.join(", ")}`);
+    }
+
+    const missing = missingAuthSettings(instance.authMode, authCredentials(instance), names);
+
+    if (missing.length > 0) throw new Error(`${prefix}Missing required configuration for auth mode "${instance.authMode}": ${missing.join(", ")}`);
+
+    if (instance.authMode === "oauth") {
+        if (detectPlatform(instance.bitbucketUrl) !== "cloud") throw new Error(`${prefix}OAuth authentication is only supported on Bitbucket Cloud.`);
+
+        if (isNaN(instance.oauthRedirectPort) || instance.oauthRedirectPort < 0 || instance.oauthRedirectPort > 65535) {
+            throw new Error(`${prefix}Invalid OAuth redirect port: ${instance.oauthRedirectPort}. Must be between 0 and 65535.`);
+        }
+    }
 }
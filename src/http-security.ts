@@ -0,0 +1,117 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+export interface HttpSecurityOptions {
+
+    /** Token MCP clients must send as `Authorization: Bearer <token>` (no check when unset). */
+    authToken?: string;
+
+    /** Browser origins allowed besides loopback ones, and sent CORS headers; `*` allows any origin. */
+    allowedOrigins: string[];
+
+    /** Address the server listens on; requests addressed to it are allowed. */
+    bindHost: string;
+
+    /** Host names allowed besides loopback ones and `bindHost`; `*` allows any host. */
+    allowedHosts: string[];
+}
+
+/** Origins of pages served from this machine, e.g. `http://localhost:5173`. */
+const LOOPBACK_ORIGIN = /^https?:\/\/(?:localhost|127\.0\.0\.1|\[::1\])(?::\d+)?$/i;
+
+/** `Host` header: a name, IPv4 address or bracketed IPv6 address, and an optional port. */
+const HOST_HEADER = /^(?:\[([0-9a-f:.]+)\]|([^\s:/@[\]]+))(?::\d+)?$/i;
+
+const CORS_ALLOW_HEADERS = "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID";
+
+/**
+ * Screen a request to the MCP endpoint, answering it when it must not reach the transport:
+ * - a request whose `Host` is neither loopback, the bind address nor allowed gets `403`;
+ * - a request from a browser origin that is neither loopback nor allowed gets `403`;
+ * - a CORS preflight from an allowed origin gets `204` with the CORS headers;
+ * - a request without the configured bearer token gets `401`.
+ *
+ * The two `403` checks keep a page whose domain resolves to this machine (DNS rebinding) from driving
+ * the server. Returns whether the request may proceed. Allowed cross-origin requests get their CORS headers here.
+ */
+export function checkHttpRequest(req: IncomingMessage, res: ServerResponse, options: HttpSecurityOptions): boolean {
+    const host = req.headers.host;
+
+    if (!isAllowedHost(host ?? "", options.bindHost, options.allowedHosts)) {
+        sendError(res, 403, `Forbidden: host ${host ?? "(none)"} is not allowed (see --allowed-hosts)`);
+
+        return false;
+    }
+
+    const origin = req.headers.origin;
+
+    if (origin !== undefined) {
+        if (!isAllowedOrigin(origin, options.allowedOrigins)) {
+            sendError(res, 403, `Forbidden: origin ${origin} is not allowed (see --allowed-origins)`);
+
+            return false;
+        }
+
+        res.setHeader("Access-Control-Allow-Origin", origin);
+        res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+        res.setHeader("Vary", "Origin");
+
+        if (req.method === "OPTIONS") {
+            res.writeHead(204, {
+                "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+                "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+                "Access-Control-Max-Age": "600"
+            });
+            res.end();
+
+            return false;
+        }
+    }
+
+    if (options.authToken !== undefined && !hasBearerToken(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendError(res, 401, "Unauthorized: missing or invalid bearer token");
+
+        return false;
+    }
+
+    return true;
+}
+
+export function isAllowedOrigin(origin: string, allowedOrigins: string[]): boolean {
+    return LOOPBACK_ORIGIN.test(origin) || allowedOrigins.includes("*") || allowedOrigins.includes(origin);
+}
+
+/** Whether the `Host` header `host` names this machine by a loopback name, the bind address or an allowed host. */
+export function isAllowedHost(host: string, bindHost: string, allowedHosts: string[]): boolean {
+    const match = HOST_HEADER.exec(host);
+
+    if (!match) return false;
+
+    const name = (match[1] ?? match[2]).toLowerCase();
+
+    const allowed = allowedHosts.map(allowedHost => allowedHost.toLowerCase());
+
+    return isLoopbackHost(name) || name === bindHost.toLowerCase() || allowed.includes("*") || allowed.includes(name);
+}
+
+/** Whether `host` only accepts connections from this machine. */
+export function isLoopbackHost(host: string): boolean {
+    return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+    const match = (/^Bearer\s+(.+)$/i).exec(req.headers.authorization ?? "");
+
+    // Compare digests, so the comparison takes the same time whatever the length of the candidate
+    return match !== null && timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+function digest(value: string): Buffer {
+    return createHash("sha256").update(value).digest();
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+import { getLogger } from "./logger.js";
+
+export interface HttpSessionOptions {
+
+    /** Maximum number of open sessions; further initializations are rejected with 503. */
+    maxSessions: number;
+
+    /** Sessions without requests or open streams for this long (ms) are closed. */
+    idleTimeout: number;
+}
+
+interface Session {
+    server: McpServer;
+    transport: StreamableHTTPServerTransport;
+    lastActive: number;
+
+    /** Requests in progress, including open SSE streams, which keep the session alive. */
+    openRequests: number;
+}
+
+/**
+ * Stateful Streamable HTTP transport: each `initialize` creates an MCP server bound to a new `Mcp-Session-Id`,
+ * and later requests carrying that ID (POST messages, the GET SSE stream for server-to-client notifications,
+ * DELETE to end the session) are routed to it.
+ */
+export class HttpSessionManager {
+    private readonly sessions = new Map<string, Session>();
+    private pending = 0;
+    private readonly sweeper: NodeJS.Timeout;
+
+    constructor(private readonly createServer: () => McpServer, private readonly options: HttpSessionOptions) {
+        this.sweeper = setInterval(() => void this.expireIdle(), Math.min(options.idleTimeout, 60_000));
+        this.sweeper.unref();
+    }
+
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    /** Handle a request to the MCP endpoint. */
+    async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const sessionId = req.headers["mcp-session-id"];
+
+        if (typeof sessionId === "string") {
+            const session = this.sessions.get(sessionId);
+
+            if (!session) {
+                sendError(res, 404, -32001, "Session not found: it expired or was closed, initialize a new one");
+
+                return;
+            }
+
+            await this.track(session, res, () => session.transport.handleRequest(req, res));
+
+            return;
+        }
+
+        if (req.method !== "POST") {
+            sendError(res, 400, -32000, "Bad Request: Mcp-Session-Id header is required");
+
+            return;
+        }
+
+        await this.expireIdle();
+
+        if (this.sessions.size + this.pending >= this.options.maxSessions) {
+            res.setHeader("Retry-After", "60");
+            sendError(res, 503, -32000, `Too many sessions (maximum ${this.options.maxSessions}), retry later`);
+
+            return;
+        }
+
+        await this.initialize(req, res);
+    }
+
+    /** Close a session and its MCP server. */
+    async close(sessionId: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+
+        if (!session) return;
+
+        this.sessions.delete(sessionId);
+        await session.server.close();
+        getLogger().info(`Closed MCP session ${sessionId} (${this.sessions.size} open)`);
+    }
+
+    /** Close the sessions idle for longer than the idle timeout. */
+    async expireIdle(now = Date.now()): Promise<void> {
+        const expired = [...this.sessions].filter(([, session]) => session.openRequests === 0 && now - session.lastActive >= this.options.idleTimeout);
+
+        for (const [sessionId] of expired) {
+            getLogger().debug(`MCP session ${sessionId} idle for ${this.options.idleTimeout}ms`);
+            await this.close(sessionId);
+        }
+    }
+
+    /** Close every session and stop the idle sweep (shutdown). */
+    async closeAll(): Promise<void> {
+        clearInterval(this.sweeper);
+
+        for (const sessionId of [...this.sessions.keys()]) await this.close(sessionId);
+    }
+
+    private async initialize(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const server = this.createServer();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: sessionId => {
+                this.sessions.set(sessionId, session);
+                getLogger().info(`Opened MCP session ${sessionId} (${this.sessions.size} open)`);
+            },
+            onsessionclosed: sessionId => this.close(sessionId)
+        });
+        const session: Session = { server, transport, lastActive: Date.now(), openRequests: 0 };
+
+        this.pending++;
+
+        try {
+            await server.connect(transport);
+            await this.track(session, res, () => transport.handleRequest(req, res));
+        } finally {
+            this.pending--;
+        }
+
+        // Not an initialize request (the transport answered 400): nothing to keep
+        if (!transport.sessionId) await server.close();
+    }
+
+    /** Count `res` as open until it closes, so a long-lived SSE stream keeps its session from expiring. */
+    private async track(session: Session, res: ServerResponse, handle: () => Promise<void>): Promise<void> {
+        session.openRequests++;
+        session.lastActive = Date.now();
+
+        res.on("close", () => {
+            session.openRequests--;
+            session.lastActive = Date.now();
+        });
+
+        await handle();
+    }
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
@@ -1,27 +1,38 @@
 #!/usr/bin/env node
 
-import { createServer as createHttpServer } from "node:http";
+import { readFileSync } from "node:fs";
+import { createServer as createHttpServer, type RequestListener, type ServerResponse } from "node:http";
+import { createServer as createHttpsServer } from "node:https";
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 
 import { parseConfig } from "./config.js";
+import { checkHttpRequest, isLoopbackHost } from "./http-security.js";
+import { HttpSessionManager } from "./http-sessions.js";
 import { initLogger } from "./logger.js";
-import { createServer } from "./server.js";
+import { ConfirmationStore } from "./tools/confirmation.js";
+import { createBitbucketClients, createServer } from "./server.js";
 
 async function main(): Promise<void> {
     const config = parseConfig();
 
-    // Handle --insecure: skip TLS verification
-    if (config.insecure) process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
-
     const logger = initLogger(config.logLevel);
 
     logger.info("Starting host-mcp-bitbucket MCP server");
-    logger.debug(`Config: url=${config.bitbucketUrl}, workspace=${config.defaultWorkspace ?? "not set"}, insecure=${config.insecure}, timeout=${config.timeout}ms, transport=${config.transport}`);
 
-    if (config.transport === "http") await startHttpTransport(config, config.port);
-    else await startStdioTransport(createServer(config));
+    for (const instance of config.instances) {
+        logger.debug(`Instance ${instance.name}: url=${instance.bitbucketUrl}, workspace=${instance.defaultWorkspace ?? "not set"}, auth=${instance.authMode}, insecure=${instance.insecure}`);
+    }
+
+    logger.debug(`Config: default instance=${config.defaultInstance}, timeout=${config.timeout}ms, cache=${config.cacheSize} entries/${config.cacheMaxBytes} bytes/${config.cacheTtl}ms, transport=${config.transport}`);
+
+    // One client per instance and one confirmation store per process, shared by every MCP session
+    const clients = createBitbucketClients(config);
+    const confirmations = new ConfirmationStore();
+
+    if (config.transport === "http") await startHttpTransport(config, config.port, clients, confirmations);
+    else await startStdioTransport(createServer(config, clients, confirmations));
 }
 
 async function startStdioTransport(server: ReturnType<typeof createServer>): Promise<void> {
@@ -33,10 +44,30 @@ async function startStdioTransport(server: ReturnType<typeof createServer>): Pro
     logger.info("MCP server connected via stdio transport");
 }
 
-async function startHttpTransport(config: ReturnType<typeof parseConfig>, port: number): Promise<void> {
+async function startHttpTransport(config: ReturnType<typeof parseConfig>, port: number, clients: ReturnType<typeof createBitbucketClients>, confirmations: ConfirmationStore): Promise<void> {
     const logger = (await import("./logger.js")).getLogger();
 
-    const httpServer = createHttpServer(async(req, res) => {
+    // Opt-in stateful mode: sessions keep their MCP server between requests (SSE stream, notifications)
+    const sessions = config.stateful
+        ? new HttpSessionManager(() => createServer(config, clients, confirmations), { maxSessions: config.maxSessions, idleTimeout: config.sessionIdleTimeout })
+        : undefined;
+
+    const handleMcpError = (res: ServerResponse, error: unknown) => {
+        logger.error(`Error handling MCP request: ${error instanceof Error ? error.message : error}`);
+
+        if (!res.headersSent) {
+            res.writeHead(500, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({
+                jsonrpc: "2.0",
+                error: { code: -32603, message: "Internal server error" },
+                id: null
+            }));
+        }
+    };
+
+    const security = { authToken: config.httpAuthToken, allowedOrigins: config.allowedOrigins, bindHost: config.host, allowedHosts: config.allowedHosts };
+
+    const listener: RequestListener = async(req, res) => {
         const url = req.url ?? "/";
 
         // Health check endpoint
@@ -47,14 +78,27 @@ async function startHttpTransport(config: ReturnType<typeof parseConfig>, port:
             return;
         }
 
+        // Host, origin, CORS preflight and bearer token checks; /health stays open for probes
+        if (url === "/mcp" && !checkHttpRequest(req, res, security)) return;
+
         // MCP endpoint at /mcp
+        if (url === "/mcp" && sessions) {
+            try {
+                await sessions.handle(req, res);
+            } catch (error) {
+                handleMcpError(res, error);
+            }
+
+            return;
+        }
+
         if (url === "/mcp") {
             // Stateless transport: no server->client stream to resume, so only POST is serviced on /mcp; GET (SSE) and DELETE (session teardown) return 405.
             if (req.method !== "POST") {
                 res.writeHead(405, { "Content-Type": "application/json", "Allow": "POST" });
                 res.end(JSON.stringify({
                     jsonrpc: "2.0",
-                    error: { code: -32000, message: "Method not allowed: stateless server only accepts POST on /mcp" },
+                    error: { code: -32000, message: "Method not allowed: stateless server only accepts POST on /mcp (use --stateful for sessions)" },
                     id: null
                 }));
 
@@ -67,7 +111,7 @@ async function startHttpTransport(config: ReturnType<typeof parseConfig>, port:
              * handshake with -32600 "Server already initialized" (and broke reconnections). With a
              * per-request instance, concurrent clients and reconnects each get their own session.
              */
-            const server = createServer(config);
+            const server = createServer(config, clients, confirmations);
             const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
 
             res.on("close", () => {
@@ -79,16 +123,7 @@ async function startHttpTransport(config: ReturnType<typeof parseConfig>, port:
                 await server.connect(transport);
                 await transport.handleRequest(req, res);
             } catch (error) {
-                logger.error(`Error handling MCP request: ${error instanceof Error ? error.message : error}`);
-
-                if (!res.headersSent) {
-                    res.writeHead(500, { "Content-Type": "application/json" });
-                    res.end(JSON.stringify({
-                        jsonrpc: "2.0",
-                        error: { code: -32603, message: "Internal server error" },
-                        id: null
-                    }));
-                }
+                handleMcpError(res, error);
             }
 
             return;
@@ -96,17 +131,33 @@ async function startHttpTransport(config: ReturnType<typeof parseConfig>, port:
 
         res.writeHead(404);
         res.end("Not Found");
-    });
+    };
+
+    const httpServer = config.tlsCert && config.tlsKey
+        ? createHttpsServer({ cert: readFileSync(config.tlsCert), key: readFileSync(config.tlsKey) }, listener)
+        : createHttpServer(listener);
+
+    if (!isLoopbackHost(config.host) && !config.httpAuthToken) {
+        logger.warn(`Listening on ${config.host} without --http-auth-token: anyone who can reach port ${port} can use the Bitbucket credentials`);
+    }
+
+    if (config.allowedOrigins.includes("*")) logger.warn("--allowed-origins * accepts requests from any web page");
+
+    if (!isLoopbackHost(config.host) && config.allowedHosts.length === 0) {
+        logger.warn(`Only requests addressed to ${config.host} or localhost are accepted: list the host names clients use in --allowed-hosts`);
+    }
+
+    httpServer.listen(port, config.host, () => {
+        const scheme = config.tlsCert ? "https" : "http";
 
-    httpServer.listen(port, () => {
-        logger.info(`MCP server listening on http://localhost:${port}/mcp (Streamable HTTP transport, stateless)`);
+        logger.info(`MCP server listening on ${scheme}://${config.host}:${port}/mcp (Streamable HTTP transport, ${sessions ? `stateful, up to ${config.maxSessions} sessions` : "stateless"})`);
     });
 
     // Graceful shutdown
     const shutdown = () => {
         logger.info("Shutting down HTTP server...");
         httpServer.close();
-        process.exit(0);
+        void (sessions?.closeAll() ?? Promise.resolve()).finally(() => process.exit(0));
     };
 
     process.on("SIGINT", shutdown);
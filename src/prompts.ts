@@ -0,0 +1,156 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+
+import { truncateText, type ToolResponse } from "./response.js";
+import { registerCommentTools } from "./tools/comments.js";
+import { registerDiffTools } from "./tools/diffs.js";
+import { collectTools, type ToolHandler, type ToolInstance } from "./tools/instances.js";
+import { registerPullRequestTools } from "./tools/pull-requests.js";
+import { registerTaskTools } from "./tools/tasks.js";
+
+/** Pull request data a prompt can embed, each fetched with the tool of the same name. */
+type Section = "getPullRequest" | "getPullRequestDiffStat" | "getPullRequestComments" | "getPullRequestTasks" | "getPullRequestCommits";
+
+interface PromptDefinition {
+    title: string;
+    description: string;
+    sections: Section[];
+    instructions: string;
+}
+
+const SECTION_TITLES: Record<Section, string> = {
+    getPullRequest: "Pull request",
+    getPullRequestDiffStat: "Changed files (diffstat)",
+    getPullRequestComments: "Comments",
+    getPullRequestTasks: "Open tasks",
+    getPullRequestCommits: "Commits"
+};
+
+/** Prompts, by name. Their instructions refer to the tools the model uses to go further. */
+export const PROMPTS: Record<string, PromptDefinition> = {
+    "review-pull-request": {
+        title: "Review a pull request",
+        description: "Review the changes of a pull request, taking its discussion and open tasks into account",
+        sections: ["getPullRequest", "getPullRequestDiffStat", "getPullRequestComments", "getPullRequestTasks"],
+        instructions: [
+            "Review this pull request.",
+            "Go through the changed files listed below and read their diffs one at a time with getPullRequestDiff and its `path` argument.",
+            "Look for bugs, security issues, missing tests and unclear code; do not repeat points already raised in the comments.",
+            "Report each finding with its file, line and severity, then a verdict: approve, or request changes.",
+            "Ask before posting anything: findings can then be added as inline comments with addPullRequestComment."
+        ].join("\n")
+    },
+    "summarize-pull-request": {
+        title: "Summarize a pull request",
+        description: "Summarize the purpose, changes, discussion and open tasks of a pull request",
+        sections: ["getPullRequest", "getPullRequestDiffStat", "getPullRequestComments", "getPullRequestTasks"],
+        instructions: [
+            "Summarize this pull request for someone who has not followed it.",
+            "Cover its purpose, the main changes grouped by area, the state of the discussion and the open tasks, and whether it looks ready to merge.",
+            "Fetch diffs with getPullRequestDiff only where the description and the changed files are not enough."
+        ].join("\n")
+    },
+    "address-review-comments": {
+        title: "Address review comments",
+        description: "Work through the unresolved review comments and open tasks of a pull request",
+        sections: ["getPullRequest", "getPullRequestDiffStat", "getPullRequestComments", "getPullRequestTasks"],
+        instructions: [
+            "Address the review feedback on this pull request.",
+            "For each comment that is not resolved and each open task, decide whether it calls for a code change, an answer, or both.",
+            "Make the code changes in the local checkout of the source branch, reading the relevant diffs with getPullRequestDiff.",
+            "Then, after confirming with me, reply with addPullRequestComment (`parentId`), resolve comments with resolveComment and tasks with updatePullRequestTask."
+        ].join("\n")
+    },
+    "write-pr-description": {
+        title: "Write a pull request description",
+        description: "Draft a description of a pull request from its commits and changed files",
+        sections: ["getPullRequest", "getPullRequestDiffStat", "getPullRequestCommits"],
+        instructions: [
+            "Write a description for this pull request.",
+            "Use its commits and changed files, and read diffs with getPullRequestDiff where needed to explain why the change is made.",
+            "Structure it as: a one-paragraph summary, the notable changes as a list, how it was tested, and anything reviewers should look at closely.",
+            "Show me the draft; once I approve it, set it with updatePullRequest (`description`)."
+        ].join("\n")
+    }
+};
+
+/**
+ * Register the review workflow prompts. Each takes a workspace, repository and pull request, and embeds
+ * the pull request data the workflow needs, fetched with the read-only tools of the target instance.
+ * Embedded sections longer than `maxBytes` (0: unlimited) are truncated.
+ */
+export function registerPrompts(server: McpServer, instances: ToolInstance[], defaultInstance: string, maxBytes: number): void {
+    const tools = new Map(instances.map(instance => [instance.name, readTools(instance)]));
+    const names = instances.map(instance => instance.name) as [string, ...string[]];
+
+    for (const [name, prompt] of Object.entries(PROMPTS)) {
+        const argsSchema = {
+            workspace: z.string().optional().describe("Bitbucket workspace slug or project key (uses default if omitted)"),
+            repoSlug: z.string().describe("Repository slug"),
+            pullRequestId: z.string().regex(/^[1-9]\d*$/, "Pull request ID must be a positive integer").describe("Pull request ID"),
+            ...instances.length > 1 ? { instance: z.enum(names).optional().describe(`Bitbucket instance (default: ${defaultInstance})`) } : {}
+        };
+
+        server.registerPrompt(name, { title: prompt.title, description: prompt.description, argsSchema }, async args => {
+            const { instance, workspace, repoSlug, pullRequestId } = args as Record<string, string | undefined>;
+            const target = instances.find(candidate => candidate.name === (instance ?? defaultInstance))!;
+            const ws = workspace ?? target.defaultWorkspace;
+
+            if (!ws) throw new McpError(ErrorCode.InvalidParams, "Workspace is required. Provide it as an argument or set BITBUCKET_WORKSPACE.");
+
+            const toolArgs = { workspace: ws, repoSlug, pullRequestId: Number(pullRequestId), all: true };
+            const handlers = tools.get(target.name)!;
+            const sections = await Promise.all(prompt.sections.map(async section => {
+                const result = await handlers.get(section)!(toolArgs, undefined);
+
+                return renderSection(section, result.structuredContent as unknown as ToolResponse, maxBytes);
+            }));
+
+            return promptResult(prompt, `${ws}/${repoSlug}#${pullRequestId}`, sections);
+        });
+    }
+}
+
+/** The handlers of the tools prompts embed, bound to `instance`. */
+function readTools(instance: ToolInstance): Map<string, ToolHandler> {
+    const handlers = new Map<string, ToolHandler>();
+
+    for (const register of [registerPullRequestTools, registerDiffTools, registerCommentTools, registerTaskTools]) {
+        collectTools(instance, register, (name, _config, handler) => handlers.set(name, handler));
+    }
+
+    return handlers;
+}
+
+function renderSection(section: Section, response: ToolResponse, maxBytes: number): string {
+    const title = SECTION_TITLES[section];
+
+    if (response.status !== "COMPLETED") return `## ${title}\n\nCould not be fetched: ${response.message}`;
+
+    let result = response.result;
+
+    if (Array.isArray(result) && section === "getPullRequestTasks") result = result.filter(task => task?.state !== "RESOLVED");
+
+    if (Array.isArray(result) && result.length === 0) return `## ${title}\n\nNone.`;
+
+    // Links are noise for the model and a large share of Bitbucket payloads
+    const json = JSON.stringify(result, (key, value: unknown) => {
+        return key === "links" ? undefined : value;
+    }, 2);
+
+    return `## ${title}\n\n\`\`\`json\n${truncateText(json, maxBytes)}\n\`\`\``;
+}
+
+function promptResult(prompt: PromptDefinition, pullRequest: string, sections: string[]): GetPromptResult {
+    return {
+        description: `${prompt.title}: ${pullRequest}`,
+        messages: [
+            {
+                role: "user",
+                content: { type: "text", text: [`# ${prompt.title}: ${pullRequest}`, prompt.instructions, ...sections].join("\n\n") }
+            }
+        ]
+    };
+}
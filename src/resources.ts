@@ -0,0 +1,154 @@
+import { type McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type ListResourcesResult, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+
+import { BitbucketClientError } from "./bitbucket/client.js";
+import type { BitbucketAccount, BitbucketDCPullRequest, BitbucketPullRequest } from "./bitbucket/types.js";
+import { getLogger } from "./logger.js";
+import { truncateText } from "./response.js";
+import { isBinaryContent } from "./tools/files.js";
+import type { ToolInstance } from "./tools/instances.js";
+
+/** Maximum number of open pull requests returned by `resources/list`, per instance. */
+const MAX_LISTED_PULL_REQUESTS = 50;
+
+/**
+ * Register MCP resources, so clients can attach Bitbucket content as context without tool calls:
+ * - `bitbucket://{workspace}/{repo}/pull-requests/{id}`: a pull request (JSON), listed for the open
+ *   pull requests of the authenticated user;
+ * - `bitbucket://{workspace}/{repo}/pull-requests/{id}/diff`: its unified diff;
+ * - `bitbucket://{workspace}/{repo}/src/{ref}/{+path}`: a file at a branch, tag or commit
+ *   (percent-encode the slashes of a ref such as `feature%2Fx`).
+ *
+ * `{workspace}` is the Cloud workspace or the Data Center project key. The URIs of instances other than
+ * `defaultInstance` end with `?instance=<name>`. Text longer than `maxBytes` (0: unlimited) is truncated.
+ */
+export function registerResources(server: McpServer, instances: ToolInstance[], defaultInstance: string, maxBytes: number): void {
+    // The first matching template wins, and `{+path}` would swallow the `?instance=` suffix of other instances
+    const ordered = [...instances].sort((a, b) => Number(a.name === defaultInstance) - Number(b.name === defaultInstance));
+
+    for (const instance of ordered) {
+        const isDefault = instance.name === defaultInstance;
+        const suffix = isDefault ? "" : `?instance=${instance.name}`;
+        const named = (name: string) => {
+            return isDefault ? name : `${name}-${instance.name}`;
+        };
+        const about = instances.length > 1 ? ` (${instance.name})` : "";
+        const { client, paths } = instance;
+
+        server.registerResource(
+            named("pull-request"),
+            new ResourceTemplate(`bitbucket://{workspace}/{repo}/pull-requests/{id}${suffix}`, {
+                list: () => listOpenPullRequests(instance, suffix)
+            }),
+            { description: `Bitbucket pull request${about}`, mimeType: "application/json" },
+            async(uri, variables) => {
+                const { workspace, repo, id } = decode(variables);
+
+                return readText(uri, "application/json", maxBytes, `Pull request ${workspace}/${repo}#${id}`, async() => {
+                    const pr = await client.get<unknown>(paths.pullRequest(workspace, repo, pullRequestId(id)));
+
+                    return JSON.stringify(pr, null, 2);
+                });
+            }
+        );
+
+        server.registerResource(
+            named("pull-request-diff"),
+            new ResourceTemplate(`bitbucket://{workspace}/{repo}/pull-requests/{id}/diff${suffix}`, { list: undefined }),
+            { description: `Unified diff of a Bitbucket pull request${about}`, mimeType: "text/x-diff" },
+            async(uri, variables) => {
+                const { workspace, repo, id } = decode(variables);
+
+                return readText(uri, "text/x-diff", maxBytes, `Pull request ${workspace}/${repo}#${id}`, () => client.getText(paths.pullRequestDiff(workspace, repo, pullRequestId(id))));
+            }
+        );
+
+        server.registerResource(
+            named("file"),
+            new ResourceTemplate(`bitbucket://{workspace}/{repo}/src/{ref}/{+path}${suffix}`, { list: undefined }),
+            { description: `File of a Bitbucket repository at a branch, tag or commit${about}`, mimeType: "text/plain" },
+            async(uri, variables) => {
+                const { workspace, repo, ref, path } = decode(variables);
+
+                return readText(uri, "text/plain", maxBytes, `File ${path} at ${ref} in ${workspace}/${repo}`, async() => {
+                    const content = await client.getText(paths.fileContent(workspace, repo, ref, path), paths.isDataCenter ? { at: ref } : undefined);
+
+                    return isBinaryContent(content) ? `[Binary file ${path}: ${Buffer.byteLength(content)} bytes, content not returned]` : content;
+                });
+            }
+        );
+    }
+}
+
+/** Open pull requests of the authenticated user: those they authored on Cloud, also those they review on Data Center. */
+async function listOpenPullRequests(instance: ToolInstance, suffix: string): Promise<ListResourcesResult> {
+    const { client, paths } = instance;
+
+    try {
+        if (paths.isCloud) {
+            const user = await client.get<BitbucketAccount>(paths.currentUser());
+            const result = await client.getPaginated<BitbucketPullRequest>(
+                paths.userPullRequests(user.uuid ?? user.account_id ?? ""),
+                { pagelen: MAX_LISTED_PULL_REQUESTS },
+                { state: "OPEN" }
+            );
+
+            return {
+                resources: result.values.map(pr => ({
+                    uri: `bitbucket://${pr.destination.repository.full_name}/pull-requests/${pr.id}${suffix}`,
+                    name: `${pr.destination.repository.full_name}#${pr.id}: ${pr.title}`
+                }))
+            };
+        }
+
+        const result = await client.getPaginated<BitbucketDCPullRequest & { title: string }>(
+            paths.userPullRequests(""),
+            { pagelen: MAX_LISTED_PULL_REQUESTS },
+            { state: "OPEN" }
+        );
+
+        return {
+            resources: result.values.filter(pr => pr.toRef.repository).map(pr => {
+                const repo = `${pr.toRef.repository!.project.key}/${pr.toRef.repository!.slug}`;
+
+                return { uri: `bitbucket://${repo}/pull-requests/${pr.id}${suffix}`, name: `${repo}#${pr.id}: ${pr.title}` };
+            })
+        };
+    } catch (error) {
+        // A failing instance must not hide the resources of the others
+        getLogger().warn(`Could not list the open pull requests of ${instance.name}: ${error instanceof Error ? error.message : String(error)}`);
+
+        return { resources: [] };
+    }
+}
+
+/** Read a text resource, reporting a missing `subject` as an invalid URI. */
+async function readText(uri: URL, mimeType: string, maxBytes: number, subject: string, read: () => Promise<string>): Promise<ReadResourceResult> {
+    let text: string;
+
+    try {
+        text = await read();
+    } catch (error) {
+        if (error instanceof BitbucketClientError && error.statusCode === 404) {
+            throw new McpError(ErrorCode.InvalidParams, `${subject} not found (${uri.href})`);
+        }
+
+        throw error;
+    }
+
+    return { contents: [{ uri: uri.href, mimeType, text: truncateText(text, maxBytes) }] };
+}
+
+function pullRequestId(id: string): number {
+    const prId = Number(id);
+
+    if (!Number.isInteger(prId) || prId <= 0) throw new McpError(ErrorCode.InvalidParams, `Invalid pull request ID: ${id}`);
+
+    return prId;
+}
+
+/** URI template variables, percent-decoded. */
+function decode(variables: Variables): Record<string, string> {
+    return Object.fromEntries(Object.entries(variables).map(([name, value]) => [name, decodeURIComponent(String(value))]));
+}
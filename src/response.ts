@@ -2,6 +2,28 @@ export interface ToolResponse {
     status: "COMPLETED" | "FAILED";
     message: string;
     result: unknown;
+
+    /** Set when the result was cut to fit the maximum response size. */
+    truncated?: boolean;
+
+    /** Number of items (or characters, for text results) left out of a truncated result, or of its truncated field. */
+    omitted?: number;
+
+    /** Opaque cursor to pass back to the same tool to get the rest of the result. */
+    cursor?: string;
+}
+
+/** Position encoded in a continuation cursor. */
+export interface CursorPayload {
+
+    /** Page to fetch: the Cloud `next` URL or the DC `nextPageStart` offset. */
+    next?: string | number;
+
+    /** Number of leading items (or characters) of the result already returned. */
+    skip?: number;
+
+    /** Field of an object result that `skip` applies to. */
+    field?: string;
 }
 
 /**
@@ -11,6 +33,15 @@ export function toolSuccess(result: unknown, message = "Data retrieved successfu
     return { status: "COMPLETED", message, result };
 }
 
+/**
+ * Build a successful ToolResponse for one page of a listing, with a cursor to the following page when there is one.
+ */
+export function toolPage(result: unknown, next: string | number | undefined, message?: string): ToolResponse {
+    const response = toolSuccess(result, message);
+
+    return next === undefined ? response : { ...response, cursor: encodeCursor({ next }) };
+}
+
 /**
  * Build a failed ToolResponse envelope.
  */
@@ -42,6 +73,186 @@ export function toolError(error: unknown): ToolResponse {
     return { status: "FAILED", message: `Unexpected error: ${message}`, result: null };
 }
 
+/**
+ * Encode a continuation cursor (base64url JSON, opaque to clients).
+ */
+export function encodeCursor(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by `encodeCursor`. Throws on malformed input.
+ */
+export function decodeCursor(cursor: string): CursorPayload {
+    let payload: unknown;
+
+    try {
+        payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+        throw new Error("Invalid cursor.");
+    }
+
+    if (typeof payload !== "object" || payload === null || Array.isArray(payload)) throw new Error("Invalid cursor.");
+
+    const { next, skip } = payload as CursorPayload;
+
+    if (skip !== undefined && (!Number.isInteger(skip) || skip < 0)) throw new Error("Invalid cursor.");
+
+    if (next !== undefined && typeof next !== "string" && !(Number.isInteger(next) && next >= 0)) throw new Error("Invalid cursor.");
+
+    if ((payload as CursorPayload).field !== undefined && typeof (payload as CursorPayload).field !== "string") throw new Error("Invalid cursor.");
+
+    return payload as CursorPayload;
+}
+
+/**
+ * Page position stored in a tool's `cursor` argument (undefined when no cursor was given).
+ */
+export function cursorNext(cursor?: string): string | number | undefined {
+    return cursor ? decodeCursor(cursor).next : undefined;
+}
+
+function byteSize(value: unknown): number {
+    return Buffer.byteLength(JSON.stringify(value));
+}
+
+/** Largest prefix length of `text` whose JSON encoding fits in `budget` bytes, ending on a line break when possible. */
+function fitText(text: string, budget: number): number {
+    let low = 0;
+    let high = text.length;
+
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+
+        if (byteSize(text.slice(0, mid)) <= budget) low = mid;
+        else high = mid - 1;
+    }
+
+    // Do not split a surrogate pair
+    if (low > 0 && low < text.length && (/[\uD800-\uDBFF]/).test(text[low - 1])) low--;
+
+    const lineEnd = text.lastIndexOf("\n", low - 1);
+
+    return lineEnd >= 0 && low < text.length ? lineEnd + 1 : Math.max(low, 1);
+}
+
+/** The largest array or string field of an object result, the one to truncate. */
+function largestField(result: Record<string, unknown>): string | undefined {
+    let largest: { field: string; size: number } | undefined;
+
+    for (const [field, value] of Object.entries(result)) {
+        if (!Array.isArray(value) && typeof value !== "string") continue;
+
+        const size = byteSize(value);
+
+        if (!largest || size > largest.size) largest = { field, size };
+    }
+
+    return largest?.field;
+}
+
+/**
+ * Apply a continuation offset and a size budget to a successful ToolResponse.
+ *
+ * Array results are cut on item boundaries and text results on line boundaries (when possible),
+ * always keeping at least one item or character so that following the cursor makes progress.
+ * Object results (e.g. a file with its `content`) have their largest array or string field cut the
+ * same way. Other results are returned as-is. `maxBytes` of 0 disables truncation.
+ *
+ * `position` is the cursor the tool was called with: its `skip` is applied first, and its `next`
+ * is kept in the returned cursor so that the same page is fetched again when continuing.
+ */
+export function truncateResponse(response: ToolResponse, maxBytes: number, position: CursorPayload = {}): ToolResponse {
+    const { result } = response;
+
+    if (response.status !== "COMPLETED") return response;
+
+    if (Array.isArray(result) || typeof result === "string") return truncateValue(response, maxBytes, position, result, value => value);
+
+    if (typeof result !== "object" || result === null) return response;
+
+    const object = result as Record<string, unknown>;
+
+    // The cursor names the field, so a continuation keeps cutting the same one
+    const field = position.field ?? largestField(object);
+    const value = field === undefined ? undefined : object[field];
+
+    if (!Array.isArray(value) && typeof value !== "string") return response;
+
+    return truncateValue(response, maxBytes, { ...position, field }, value, rest => ({ ...object, [field!]: rest }));
+}
+
+/** Truncate `value`, the result or a field of it; `wrap` rebuilds the result around a slice of it. */
+function truncateValue(
+    response: ToolResponse,
+    maxBytes: number,
+    position: CursorPayload,
+    value: unknown[] | string,
+    wrap: (slice: unknown[] | string) => unknown
+): ToolResponse {
+    const skip = position.skip ?? 0;
+    const rest = value.slice(skip);
+    const continued = skip > 0 ? { ...response, result: wrap(rest) } : response;
+
+    if (maxBytes <= 0 || byteSize(continued) <= maxBytes) return continued;
+
+    // Envelope size with the largest values the truncation fields can take
+    const overhead = byteSize({
+        ...response,
+        message: `${response.message} ${truncationNote(rest.length, Array.isArray(rest), position.field)}`,
+        result: wrap(Array.isArray(rest) ? [] : ""),
+        truncated: true,
+        omitted: rest.length,
+        cursor: encodeCursor({ ...position, skip: skip + rest.length })
+    });
+    const budget = maxBytes - overhead;
+    let kept: number;
+
+    if (Array.isArray(rest)) {
+        let used = 2;
+
+        kept = 0;
+
+        for (const item of rest) {
+            used += byteSize(item) + (kept > 0 ? 1 : 0);
+
+            if (used > budget && kept > 0) break;
+
+            kept++;
+        }
+    } else kept = fitText(rest, budget);
+
+    if (kept >= rest.length) return continued;
+
+    const omitted = rest.length - kept;
+
+    return {
+        ...response,
+        message: `${response.message} ${truncationNote(omitted, Array.isArray(rest), position.field)}`,
+        result: wrap(rest.slice(0, kept)),
+        truncated: true,
+        omitted,
+        cursor: encodeCursor({ ...position, skip: skip + kept })
+    };
+}
+
+/** Cut `text` to at most `maxBytes` bytes (0: unlimited) on a line boundary when possible, noting the cut. */
+export function truncateText(text: string, maxBytes: number): string {
+    const size = Buffer.byteLength(text);
+
+    if (maxBytes <= 0 || size <= maxBytes) return text;
+
+    const head = Buffer.from(text).subarray(0, maxBytes).toString().replace(/\uFFFD$/, "");
+    const lineEnd = head.lastIndexOf("\n");
+    const kept = lineEnd > 0 ? head.slice(0, lineEnd + 1) : head;
+
+    return `${kept}\n[Truncated: ${size - Buffer.byteLength(kept)} of ${size} bytes omitted, see --max-response-size]`;
+}
+
+function truncationNote(omitted: number, items: boolean, field?: string): string {
+    return `Result truncated to fit the response size limit: ${omitted} ${items ? "items" : "characters"}${field ? ` of \`${field}\`` : ""} omitted. Call the tool again with the same arguments and \`cursor\` to get the rest.`;
+}
+
 /**
  * Wrap a ToolResponse as an MCP CallToolResult content block.
  * Includes `structuredContent` so tools with `outputSchema` pass SDK validation.
@@ -1,9 +1,12 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
-import type { Config } from "./config.js";
+import { authCredentials, type Config, type InstanceConfig } from "./config.js";
+import { createAuthStrategy } from "./bitbucket/auth.js";
 import { BitbucketClient } from "./bitbucket/client.js";
 import { normalizeBaseUrl, extractWorkspaceFromUrl, detectPlatform, PathBuilder } from "./bitbucket/utils.js";
 import { getLogger } from "./logger.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
 import { VERSION } from "./version.js";
 import { registerRepositoryTools } from "./tools/repositories.js";
 import { registerPullRequestTools } from "./tools/pull-requests.js";
@@ -13,8 +16,65 @@ import { registerTaskTools } from "./tools/tasks.js";
 import { registerWorkspaceTools } from "./tools/workspace.js";
 import { registerRefTools } from "./tools/refs.js";
 import { registerReviewTools } from "./tools/reviews.js";
+import { registerFileTools } from "./tools/files.js";
+import { registerCommitTools } from "./tools/commits.js";
+import { registerBuildStatusTools } from "./tools/build-statuses.js";
+import { registerPipelineTools } from "./tools/pipelines.js";
+import { registerSearchTools } from "./tools/search.js";
+import { applyConfirmation, ConfirmationStore } from "./tools/confirmation.js";
+import { registerInstanceTools, type ToolInstance, type ToolRegistrar } from "./tools/instances.js";
+import { applyResponseLimit } from "./tools/response-limit.js";
+import { ToolFilter } from "./tools/tool-filter.js";
 
-export function createServer(config: Config): McpServer {
+/** Build the Bitbucket client of one instance. */
+export function createBitbucketClient(instance: InstanceConfig, config: Config): BitbucketClient {
+    return new BitbucketClient({
+        baseUrl: normalizeBaseUrl(instance.bitbucketUrl),
+        auth: createAuthStrategy(authCredentials(instance)),
+        timeout: config.timeout,
+        maxRetries: config.maxRetries,
+        retryDelay: config.retryDelay,
+        cache: { maxEntries: config.cacheSize, maxBytes: config.cacheMaxBytes, ttl: config.cacheTtl },
+        rateLimit: { requestsPerHour: config.rateLimit, maxConcurrency: config.maxConcurrency },
+        platform: detectPlatform(instance.bitbucketUrl),
+        tls: { insecure: instance.insecure, caFile: instance.caFile }
+    });
+}
+
+/**
+ * Build the clients of all configured instances, by name. Create them once per process and share
+ * them between MCP servers: an auth strategy may hold state (e.g. OAuth tokens and a pending authorization).
+ */
+export function createBitbucketClients(config: Config): Map<string, BitbucketClient> {
+    return new Map(config.instances.map(instance => [instance.name, createBitbucketClient(instance, config)]));
+}
+
+/** Tool groups, in registration order; `--enable-tools` / `--disable-tools` accept these names. */
+export const TOOL_GROUPS: Record<string, ToolRegistrar> = {
+    "workspace": registerWorkspaceTools,
+    "repositories": registerRepositoryTools,
+    "search": registerSearchTools,
+    "pull-requests": registerPullRequestTools,
+    "comments": registerCommentTools,
+    "diffs": registerDiffTools,
+    "tasks": registerTaskTools,
+    "refs": registerRefTools,
+    "reviews": registerReviewTools,
+    "files": registerFileTools,
+    "commits": registerCommitTools,
+    "build-statuses": registerBuildStatusTools,
+    "pipelines": registerPipelineTools
+};
+
+/**
+ * Build an MCP server for `config`. `clients` and `confirmations` hold process-wide state, so the
+ * HTTP transport shares them between its per-request servers.
+ */
+export function createServer(
+    config: Config,
+    clients: Map<string, BitbucketClient> = createBitbucketClients(config),
+    confirmations: ConfirmationStore = new ConfirmationStore()
+): McpServer {
     const logger = getLogger();
 
     const server = new McpServer({
@@ -22,37 +82,40 @@ export function createServer(config: Config): McpServer {
         version: VERSION
     });
 
-    const platform = detectPlatform(config.bitbucketUrl);
-    const baseUrl = normalizeBaseUrl(config.bitbucketUrl);
+    const instances: ToolInstance[] = config.instances.map(instance => {
+        const platform = detectPlatform(instance.bitbucketUrl);
 
-    // Auto-extract workspace from URL if not explicitly set
-    const defaultWorkspace = config.defaultWorkspace ?? extractWorkspaceFromUrl(config.bitbucketUrl);
+        // Auto-extract workspace from URL if not explicitly set
+        const defaultWorkspace = instance.defaultWorkspace ?? extractWorkspaceFromUrl(instance.bitbucketUrl);
 
-    const client = new BitbucketClient({
-        baseUrl,
-        token: config.bitbucketToken,
-        timeout: config.timeout,
-        maxRetries: config.maxRetries,
-        retryDelay: config.retryDelay,
-        platform
+        logger.info(`Registering tools for Bitbucket instance ${instance.name}: ${normalizeBaseUrl(instance.bitbucketUrl)} (${platform})`);
+
+        if (defaultWorkspace) logger.info(`Default workspace/project of ${instance.name}: ${defaultWorkspace}`);
+
+        return {
+            name: instance.name,
+            client: clients.get(instance.name)!,
+            paths: new PathBuilder(platform),
+            defaultWorkspace
+        };
     });
 
-    const paths = new PathBuilder(platform);
+    const filter = new ToolFilter({ readOnly: config.readOnly, enableTools: config.enableTools, disableTools: config.disableTools });
+
+    applyResponseLimit(server, config.maxResponseSize);
+    applyConfirmation(server, { requireConfirmation: config.requireConfirmation, store: confirmations });
+    registerInstanceTools(server, instances, config.defaultInstance, (target, client, paths, defaultWorkspace) => {
+        for (const [group, register] of Object.entries(TOOL_GROUPS)) register(filter.scope(target, group), client, paths, defaultWorkspace);
+    });
 
-    logger.info(`Registering tools for Bitbucket instance: ${baseUrl} (${platform})`);
+    registerResources(server, instances, config.defaultInstance, config.maxResponseSize);
+    registerPrompts(server, instances, config.defaultInstance, config.maxResponseSize);
 
-    if (defaultWorkspace) logger.info(`Default workspace/project: ${defaultWorkspace}`);
+    for (const entry of filter.unknownEntries()) logger.warn(`Unknown tool or group in --enable-tools/--disable-tools: ${entry}`);
 
-    registerWorkspaceTools(server, client, paths, defaultWorkspace);
-    registerRepositoryTools(server, client, paths, defaultWorkspace);
-    registerPullRequestTools(server, client, paths, defaultWorkspace);
-    registerCommentTools(server, client, paths, defaultWorkspace);
-    registerDiffTools(server, client, paths, defaultWorkspace);
-    registerTaskTools(server, client, paths, defaultWorkspace);
-    registerRefTools(server, client, paths, defaultWorkspace);
-    registerReviewTools(server, client, paths, defaultWorkspace);
+    logger.info(`Exposed ${filter.exposed.size} tools${config.readOnly ? " (read-only)" : ""}: ${[...filter.exposed].join(", ")}`);
 
-    logger.info("All MCP tools registered successfully");
+    if (filter.hidden.size > 0) logger.info(`Hidden ${filter.hidden.size} tools: ${[...filter.hidden].join(", ")}`);
 
     return server;
 }
@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { BitbucketClient } from "../bitbucket/client.js";
+import { BitbucketClientError } from "../bitbucket/client.js";
+import type { PathBuilder } from "../bitbucket/utils.js";
+import { getLogger } from "../logger.js";
+import { cursorNext, toMcpResult, toolError, toolNotFound, toolPage, toolSuccess } from "../response.js";
+import { listCommitBuildStatusesOutput, setCommitBuildStatusOutput } from "./output-schemas.js";
+
+const BuildStateEnum = z.enum(["SUCCESSFUL", "FAILED", "INPROGRESS", "STOPPED"]);
+
+export function registerBuildStatusTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
+    const logger = getLogger();
+
+    function resolveWorkspace(workspace?: string) {
+        return workspace ?? defaultWorkspace;
+    }
+
+    /*
+     * ── setCommitBuildStatus ─────────────────────────────────────────────
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/commit/{commit}/statuses/build
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commit-statuses/#api-repositories-workspace-repo-slug-commit-commit-statuses-build-post
+     * DC:   POST /rest/build-status/1.0/commits/{commitId}
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-build-status/#api-build-status-1-0-commits-commitid-post
+     */
+    server.registerTool(
+        "setCommitBuildStatus",
+        {
+            description: "Report a build status (e.g. lint or test results) on a commit. Posting again with the same key updates the status. DC has no STOPPED state; it is reported as FAILED.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                commit: z.string().describe("Full commit hash"),
+                key: z.string().describe("Unique identifier of the build (e.g. lint, unit-tests); reuse it to update the status"),
+                state: BuildStateEnum.describe("Build state"),
+                url: z.string().describe("Link to the build results"),
+                name: z.string().optional().describe("Display name of the build"),
+                description: z.string().optional().describe("Short summary of the result (e.g. 3 tests failed)")
+            },
+            outputSchema: setCommitBuildStatusOutput,
+            annotations: { readOnlyHint: false }
+        },
+        async({ workspace, repoSlug, commit, key, state, url, name, description }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`setCommitBuildStatus: ${ws}/${repoSlug}@${commit} ${key}=${state}`);
+
+            try {
+                const body: Record<string, unknown> = {
+                    key,
+                    state: paths.isDataCenter && state === "STOPPED" ? "FAILED" : state,
+                    url
+                };
+
+                if (name) body.name = name;
+
+                if (description) body.description = description;
+
+                // DC answers 204 No Content; echo the submitted status instead
+                const result = await client.post(paths.commitBuildStatus(ws, repoSlug, commit), body);
+
+                return toMcpResult(toolSuccess(result ?? body, "Build status set."));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Commit", `${ws}/${repoSlug}@${commit}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── listCommitBuildStatuses ──────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/commit/{commit}/statuses
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commit-statuses/#api-repositories-workspace-repo-slug-commit-commit-statuses-get
+     * DC:   GET /rest/build-status/1.0/commits/{commitId}
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-build-status/#api-build-status-1-0-commits-commitid-get
+     */
+    server.registerTool(
+        "listCommitBuildStatuses",
+        {
+            description: "List the build statuses reported on a commit",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                commit: z.string().describe("Full commit hash"),
+                pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
+                page: z.number().int().min(1).optional().describe("Page number (1-based)"),
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
+            },
+            outputSchema: listCommitBuildStatusesOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, commit, pagelen, page, all, cursor }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`listCommitBuildStatuses: ${ws}/${repoSlug}@${commit}`);
+
+            try {
+                const result = await client.getPaginated(
+                    paths.commitBuildStatuses(ws, repoSlug, commit),
+                    { pagelen, page, all, next: cursorNext(cursor) }
+                );
+
+                return toMcpResult(toolPage(result.values, result.next));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Commit", `${ws}/${repoSlug}@${commit}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+}
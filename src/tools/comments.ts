@@ -4,7 +4,9 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import type { BitbucketClient } from "../bitbucket/client.js";
 import { BitbucketClientError } from "../bitbucket/client.js";
-import type { BitbucketComment } from "../bitbucket/types.js";
+import { buildCloudThreads, buildDataCenterThreads, filterThreads, type CommentThread } from "../bitbucket/comment-threads.js";
+import { normalizeComment } from "../bitbucket/models.js";
+import type { BitbucketComment, BitbucketTask } from "../bitbucket/types.js";
 import type { PathBuilder } from "../bitbucket/utils.js";
 import { getLogger } from "../logger.js";
 import { toMcpResult, toolError, toolNotFound, toolSuccess } from "../response.js";
@@ -24,25 +26,26 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
      * ── getPullRequestComments ───────────────────────────────────────────
      * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pullrequests/{pull_request_id}/comments
      *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-comments-get
+     *        and GET .../pullrequests/{pull_request_id}/tasks for the tasks attached to comments
      * DC:   Extracted from GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/pull-requests/{pullRequestId}/activities
      *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-pull-requests/#api-api-latest-projects-projectkey-repos-repositoryslug-pull-requests-pullrequestid-activities-get
      */
     server.registerTool(
         "getPullRequestComments",
         {
-            description: "List comments on a pull request. On Data Center, comments are extracted from the activity log.",
+            description: "List the comment threads of a pull request: each root comment with its replies (oldest first), inline anchor, resolved and outdated state, and attached tasks. Filter to find the feedback still to address.",
             inputSchema: {
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
-                pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
-                page: z.number().int().min(1).optional().describe("Page number"),
-                all: z.boolean().optional().describe("Fetch all pages")
+                unresolvedOnly: z.boolean().optional().describe("Only return threads that are not resolved"),
+                path: z.string().optional().describe("Only return inline threads on this file path"),
+                author: z.string().optional().describe("Only return threads started by this user (display name or username, case-insensitive)")
             },
             outputSchema: getPullRequestCommentsOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, pagelen, page, all }) => {
+        async({ workspace, repoSlug, pullRequestId, unresolvedOnly, path, author }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -50,26 +53,28 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
             logger.debug(`getPullRequestComments: ${ws}/${repoSlug}#${pullRequestId}`);
 
             try {
+                let threads: CommentThread[];
+
                 if (paths.isDataCenter) {
-                    // DC: comments endpoint requires a file path; use activities to get all comments
+                    // DC: comments endpoint requires a file path; activities hold every thread with its nested replies
                     const activities = await client.getPaginated<Record<string, unknown>>(
                         paths.pullRequestActivity(ws, repoSlug, pullRequestId),
-                        { pagelen: pagelen ?? 25, page, all: all ?? true }
+                        { all: true }
                     );
 
-                    const comments = activities.values.
-                        filter(a => a.action === "COMMENTED" && a.comment).
-                        map(a => a.comment as BitbucketComment);
+                    threads = buildDataCenterThreads(activities.values);
+                } else {
+                    const [comments, tasks] = await Promise.all([
+                        client.getPaginated<BitbucketComment>(paths.pullRequestComments(ws, repoSlug, pullRequestId), { all: true }),
+                        client.getPaginated<BitbucketTask>(paths.pullRequestTasks(ws, repoSlug, pullRequestId), { all: true })
+                    ]);
 
-                    return toMcpResult(toolSuccess(comments));
+                    threads = buildCloudThreads(comments.values, tasks.values);
                 }
 
-                const result = await client.getPaginated<BitbucketComment>(
-                    paths.pullRequestComments(ws, repoSlug, pullRequestId),
-                    { pagelen, page, all }
-                );
+                const matching = filterThreads(threads, { unresolvedOnly, path, author });
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolSuccess(matching, `${matching.length} of ${threads.length} comment threads.`));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -95,12 +100,13 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
-                commentId: z.number().int().describe("Comment ID")
+                commentId: z.number().int().describe("Comment ID"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: getPullRequestCommentOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, commentId }) => {
+        async({ workspace, repoSlug, pullRequestId, commentId, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -112,7 +118,7 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
                     paths.pullRequestComment(ws, repoSlug, pullRequestId, commentId)
                 );
 
-                return toMcpResult(toolSuccess(comment));
+                return toMcpResult(toolSuccess(normalizeComment(comment, raw)));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Comment", `${commentId} on PR ${ws}/${repoSlug}#${pullRequestId}`));
@@ -144,12 +150,13 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
                     from: z.number().optional().describe("Line number in the old version (for deleted/modified lines)"),
                     to: z.number().optional().describe("Line number in the new version (for added/modified lines)")
                 }).optional().describe("Inline comment position for commenting on specific lines"),
-                parentId: z.number().int().optional().describe("Parent comment ID for threaded replies")
+                parentId: z.number().int().optional().describe("Parent comment ID for threaded replies"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: addPullRequestCommentOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, pullRequestId, content, inline, parentId }) => {
+        async({ workspace, repoSlug, pullRequestId, content, inline, parentId, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -185,7 +192,7 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
                     body
                 );
 
-                return toMcpResult(toolSuccess(comment, "Comment added."));
+                return toMcpResult(toolSuccess(normalizeComment(comment, raw), "Comment added."));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -212,12 +219,13 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 commentId: z.number().int().describe("Comment ID"),
-                content: z.string().describe("Updated comment content in markdown format")
+                content: z.string().describe("Updated comment content in markdown format"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: updatePullRequestCommentOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, pullRequestId, commentId, content }) => {
+        async({ workspace, repoSlug, pullRequestId, commentId, content, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -234,7 +242,7 @@ export function registerCommentTools(server: McpServer, client: BitbucketClient,
                     body
                 );
 
-                return toMcpResult(toolSuccess(comment, "Comment updated."));
+                return toMcpResult(toolSuccess(normalizeComment(comment, raw), "Comment updated."));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Comment", `${commentId} on PR ${ws}/${repoSlug}#${pullRequestId}`));
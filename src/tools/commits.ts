@@ -0,0 +1,250 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { BitbucketClient } from "../bitbucket/client.js";
+import { BitbucketClientError } from "../bitbucket/client.js";
+import { filterUnifiedDiff, formatUnifiedDiff, fromDataCenterDiff } from "../bitbucket/diff.js";
+import type { BitbucketCommit, BitbucketDCCommit, BitbucketDCDiffResponse } from "../bitbucket/types.js";
+import type { PathBuilder } from "../bitbucket/utils.js";
+import { getLogger } from "../logger.js";
+import { cursorNext, toMcpResult, toolError, toolFailure, toolNotFound, toolPage, toolSuccess } from "../response.js";
+import { diffFilterInput, filterDiffStat, type DiffStatEntry } from "./diffs.js";
+import { getCommitDiffOutput, getCommitDiffStatOutput, getCommitOutput, listCommitsOutput } from "./output-schemas.js";
+
+/** Commit timestamp in ms: Cloud `date`, DC committer (or author) timestamp. */
+function commitTime(commit: BitbucketCommit | BitbucketDCCommit): number {
+    if ("date" in commit && typeof commit.date === "string") return Date.parse(commit.date);
+
+    const dc = commit as BitbucketDCCommit;
+
+    return dc.committerTimestamp ?? dc.authorTimestamp;
+}
+
+/** Parses an ISO 8601 date argument; returns NaN for invalid input and undefined when omitted. */
+function parseDate(value?: string): number | undefined {
+    return value === undefined ? undefined : Date.parse(value);
+}
+
+export function registerCommitTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
+    const logger = getLogger();
+
+    function resolveWorkspace(workspace?: string) {
+        return workspace ?? defaultWorkspace;
+    }
+
+    /*
+     * ── listCommits ──────────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/commits?include={branch}&path={path}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-commits-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits?until={branch}&path={path}
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-get
+     */
+    server.registerTool(
+        "listCommits",
+        {
+            description: "List commits in a repository, newest first. Filter by branch, file path and date range (dates are applied to each fetched page; paging stops once commits are older than `since`).",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                branch: z.string().optional().describe("Branch, tag or commit to list history from (defaults to the main branch)"),
+                path: z.string().optional().describe("Only commits touching this file or directory"),
+                since: z.string().optional().describe("Only commits on or after this ISO 8601 date (e.g. 2024-01-31)"),
+                until: z.string().optional().describe("Only commits on or before this ISO 8601 date"),
+                pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
+                page: z.number().int().min(1).optional().describe("Page number (1-based)"),
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
+            },
+            outputSchema: listCommitsOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, branch, path: filePath, since, until, pagelen, page, all, cursor }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            const sinceTime = parseDate(since);
+            const untilTime = parseDate(until);
+
+            if (Number.isNaN(sinceTime) || Number.isNaN(untilTime)) {
+                return toMcpResult(toolFailure("Invalid date: `since` and `until` must be ISO 8601 dates."));
+            }
+
+            logger.debug(`listCommits: ${ws}/${repoSlug}@${branch ?? "default"}${filePath ? `:${filePath}` : ""}`);
+
+            try {
+                const extraQuery: Record<string, string | number | boolean | undefined | null> = paths.isCloud
+                    ? { include: branch, path: filePath }
+                    : { until: branch, path: filePath };
+
+                const result = await client.getPaginated<BitbucketCommit | BitbucketDCCommit>(
+                    paths.commits(ws, repoSlug),
+                    { pagelen, page, all, next: cursorNext(cursor) },
+                    extraQuery
+                );
+
+                // Neither API filters by date, so filter here; history is newest first
+                const commits = result.values.filter(commit => {
+                    const time = commitTime(commit);
+
+                    return (sinceTime === undefined || time >= sinceTime) && (untilTime === undefined || time <= untilTime);
+                });
+                const oldest = result.values.at(-1);
+                const exhausted = sinceTime !== undefined && oldest !== undefined && commitTime(oldest) < sinceTime;
+
+                return toMcpResult(toolPage(commits, exhausted ? undefined : result.next));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Repository or branch", `${ws}/${repoSlug}${branch ? `@${branch}` : ""}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── getCommit ────────────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/commit/{commit}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-commit-commit-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits/{commitId}
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-commitid-get
+     */
+    server.registerTool(
+        "getCommit",
+        {
+            description: "Get a commit: message, author, date and parents",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                commit: z.string().describe("Commit hash (full or abbreviated)")
+            },
+            outputSchema: getCommitOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, commit }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`getCommit: ${ws}/${repoSlug}@${commit}`);
+
+            try {
+                const result = await client.get(paths.commit(ws, repoSlug, commit));
+
+                return toMcpResult(toolSuccess(result));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Commit", `${ws}/${repoSlug}@${commit}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── getCommitDiff ────────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/diff/{spec}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-diff-spec-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits/{commitId}/diff[/{path}] (rendered as a unified diff)
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-commitid-diff-path-get
+     */
+    server.registerTool(
+        "getCommitDiff",
+        {
+            description: "Get the unified diff introduced by a commit (against its first parent). Supports the same `path`, `include`/`exclude` and `contextLines` filters as getPullRequestDiff.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                commit: z.string().describe("Commit hash (full or abbreviated)"),
+                ...diffFilterInput
+            },
+            outputSchema: getCommitDiffOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, commit, path: filePath, include, exclude, contextLines }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`getCommitDiff: ${ws}/${repoSlug}@${commit}${filePath ? `:${filePath}` : ""}`);
+
+            try {
+                let diff: string;
+
+                if (paths.isCloud) {
+                    diff = await client.getText(
+                        paths.commitDiff(ws, repoSlug, commit),
+                        { path: filePath, context: contextLines }
+                    );
+                } else {
+                    const response = await client.get<BitbucketDCDiffResponse>(
+                        paths.commitDiff(ws, repoSlug, commit, filePath),
+                        { contextLines, withComments: false }
+                    );
+
+                    diff = formatUnifiedDiff(fromDataCenterDiff(response));
+                }
+
+                return toMcpResult(toolSuccess(filterUnifiedDiff(diff, { include, exclude })));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Commit", `${ws}/${repoSlug}@${commit}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── getCommitDiffStat ────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/diffstat/{spec}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-diffstat-spec-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits/{commitId}/changes
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-commitid-changes-get
+     */
+    server.registerTool(
+        "getCommitDiffStat",
+        {
+            description: "List the files changed by a commit (with lines added/removed on Cloud)",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                commit: z.string().describe("Commit hash (full or abbreviated)"),
+                pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
+                page: z.number().int().min(1).optional().describe("Page number (1-based)"),
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)"),
+                include: diffFilterInput.include,
+                exclude: diffFilterInput.exclude
+            },
+            outputSchema: getCommitDiffStatOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, commit, pagelen, page, all, cursor, include, exclude }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`getCommitDiffStat: ${ws}/${repoSlug}@${commit}`);
+
+            try {
+                const result = await client.getPaginated<DiffStatEntry>(
+                    paths.commitDiffStat(ws, repoSlug, commit),
+                    { pagelen, page, all, next: cursorNext(cursor) }
+                );
+
+                return toMcpResult(toolPage(filterDiffStat(result.values, { include, exclude }), result.next));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Commit", `${ws}/${repoSlug}@${commit}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+}
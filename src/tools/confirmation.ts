@@ -0,0 +1,131 @@
+import { randomBytes } from "node:crypto";
+
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { recordRequests, type RecordedRequest } from "../bitbucket/client.js";
+import { toMcpResult, toolFailure, toolSuccess } from "../response.js";
+import type { ToolConfig, ToolHandler } from "./instances.js";
+
+/** How long a confirmation token stays valid. */
+export const CONFIRMATION_TTL_MS = 5 * 60_000;
+
+type Args = Record<string, unknown>;
+
+const repository = (args: Args) => `${args.workspace ? `${String(args.workspace)}/` : ""}${String(args.repoSlug)}`;
+
+const target = (args: Args) => `pull request #${String(args.pullRequestId)} in ${repository(args)}`;
+
+/** Mutating tools that accept `dryRun` (and require confirmation with `--require-confirmation`), with their preview. */
+const GUARDED_TOOLS: Record<string, (args: Args) => string> = {
+    mergePullRequest: args => `Merge ${target(args)}${args.mergeStrategy ? ` using ${String(args.mergeStrategy)}` : ""}${args.closeSourceBranch ? " and close the source branch" : ""}.`,
+    declinePullRequest: args => `Decline ${target(args)}.`,
+    updatePullRequest: args => `Update the ${["title", "description"].filter(field => args[field] !== undefined).join(" and ") || "nothing"} of ${target(args)}.`,
+    deletePullRequestComment: args => `Delete comment ${String(args.commentId)} of ${target(args)}.`,
+    deletePullRequestTask: args => `Delete task ${String(args.taskId)} of ${target(args)}.`,
+    discardPendingReview: args => `Discard the pending review of ${target(args)} and all its draft comments.`,
+    deleteBranch: args => `Delete branch ${String(args.name)} in ${repository(args)}${args.endPoint ? ` if it still points at ${String(args.endPoint)}` : ""}.`,
+    stopPipeline: args => `Stop pipeline ${String(args.pipeline)} in ${repository(args)}.`
+};
+
+/** Short-lived confirmation tokens, each bound to one tool call (tool name and arguments). */
+export class ConfirmationStore {
+    private readonly pending = new Map<string, { call: string; expiresAt: number }>();
+
+    constructor(private readonly ttlMs = CONFIRMATION_TTL_MS) {}
+
+    issue(call: string): { token: string; expiresAt: number } {
+        this.purge();
+
+        const token = randomBytes(12).toString("base64url");
+        const expiresAt = Date.now() + this.ttlMs;
+
+        this.pending.set(token, { call, expiresAt });
+
+        return { token, expiresAt };
+    }
+
+    /** Whether `token` was issued for `call` and has not expired; a token is only accepted once. */
+    consume(token: string, call: string): boolean {
+        this.purge();
+
+        const entry = this.pending.get(token);
+
+        if (!entry || entry.call !== call) return false;
+
+        this.pending.delete(token);
+
+        return true;
+    }
+
+    private purge(): void {
+        const now = Date.now();
+
+        for (const [token, entry] of this.pending) if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+}
+
+/** Identity of a call: the tool name and its arguments, independent of key order. */
+function callKey(name: string, args: Args): string {
+    return `${name}:${JSON.stringify(args, Object.keys(args).sort())}`;
+}
+
+/**
+ * Guards the mutating tools of `GUARDED_TOOLS` registered on `server` after this call.
+ *
+ * Each gets a `dryRun` input: the handler runs with mutating requests recorded instead of sent
+ * (see `recordRequests`), and the call returns the request with a human-readable preview. With
+ * `requireConfirmation`, a call without `confirmationToken` is a dry run that also returns a token;
+ * repeating the call with the same arguments and that token executes it.
+ */
+export function applyConfirmation(server: McpServer, options: { requireConfirmation: boolean; store: ConfirmationStore }): void {
+    const registerTool = server.registerTool.bind(server) as (name: string, config: ToolConfig, handler: ToolHandler) => ReturnType<McpServer["registerTool"]>;
+
+    server.registerTool = ((name: string, config: ToolConfig, handler: ToolHandler) => {
+        const preview = GUARDED_TOOLS[name];
+
+        if (!preview) return registerTool(name, config, handler);
+
+        const inputSchema: z.ZodRawShape = {
+            ...config.inputSchema,
+            dryRun: z.boolean().optional().describe("Only return the HTTP request this call would send and a preview, without executing it")
+        };
+
+        if (options.requireConfirmation) {
+            inputSchema.confirmationToken = z.string().optional().describe("Token returned by the preview of this exact call; required to execute it");
+        }
+
+        return registerTool(name, { ...config, inputSchema }, async(args, extra) => {
+            const { dryRun, confirmationToken, ...toolArgs } = args;
+            const call = callKey(name, toolArgs);
+
+            if (options.requireConfirmation && !dryRun && typeof confirmationToken === "string") {
+                if (!options.store.consume(confirmationToken, call)) {
+                    return toMcpResult(toolFailure("Invalid or expired confirmation token, or the arguments differ from the preview. Call again without confirmationToken to get a new preview."));
+                }
+
+                return handler(toolArgs, extra);
+            }
+
+            if (!dryRun && !options.requireConfirmation) return handler(toolArgs, extra);
+
+            const requests: RecordedRequest[] = [];
+            const result = await recordRequests(requests, () => handler(toolArgs, extra));
+
+            // Nothing to send: the call failed before its mutation (e.g. not found), report that
+            if (requests.length === 0) return result;
+
+            const dryRunResult: Record<string, unknown> = { dryRun: true, preview: preview(toolArgs), request: requests[0] };
+
+            if (!options.requireConfirmation) return toMcpResult(toolSuccess(dryRunResult, "Dry run: nothing was changed."));
+
+            const { token, expiresAt } = options.store.issue(call);
+
+            return toMcpResult(toolSuccess(
+                { ...dryRunResult, confirmationToken: token, expiresAt: new Date(expiresAt).toISOString() },
+                "Confirmation required: nothing was changed. Repeat the call with the same arguments and this confirmationToken to execute it."
+            ));
+        });
+    }) as typeof server.registerTool;
+}
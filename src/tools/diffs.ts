@@ -4,11 +4,44 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import type { BitbucketClient } from "../bitbucket/client.js";
 import { BitbucketClientError } from "../bitbucket/client.js";
-import type { BitbucketDiffStat } from "../bitbucket/types.js";
+import {
+    filterDiffFiles,
+    filterUnifiedDiff,
+    formatUnifiedDiff,
+    fromDataCenterDiff,
+    matchesPathFilter,
+    parseUnifiedDiff,
+    type DiffPathFilter
+} from "../bitbucket/diff.js";
+import type { BitbucketDCDiffResponse, BitbucketDCPath, BitbucketDiffStat } from "../bitbucket/types.js";
 import type { PathBuilder } from "../bitbucket/utils.js";
 import { getLogger } from "../logger.js";
-import { toMcpResult, toolError, toolNotFound, toolSuccess } from "../response.js";
-import { getPullRequestDiffOutput, getPullRequestDiffStatOutput, getPullRequestPatchOutput } from "./output-schemas.js";
+import { cursorNext, toMcpResult, toolError, toolNotFound, toolPage, toolSuccess } from "../response.js";
+import {
+    getPullRequestDiffOutput,
+    getPullRequestDiffStatOutput,
+    getPullRequestDiffStructuredOutput,
+    getPullRequestPatchOutput
+} from "./output-schemas.js";
+
+/** Filter and context options shared by the diff tools (pull request and commit diffs). */
+export const diffFilterInput = {
+    path: z.string().optional().describe("Limit the diff to a single file path (filtered by Bitbucket)"),
+    include: z.array(z.string()).optional().describe("Glob patterns of files to keep, e.g. [\"src/**\", \"*.ts\"] (patterns without '/' match the file name)"),
+    exclude: z.array(z.string()).optional().describe("Glob patterns of files to drop, e.g. [\"**/*.lock\", \"dist/**\"]"),
+    contextLines: z.number().int().min(0).max(100).optional().describe("Number of context lines around each change (default: 3)")
+};
+
+/** DC change entry as returned by `/changes`, alongside the Cloud diffstat fields. */
+export type DiffStatEntry = BitbucketDiffStat & { path?: BitbucketDCPath; srcPath?: BitbucketDCPath };
+
+/** Keeps the diffstat (Cloud) or change (DC) entries whose old or new path passes the filter. */
+export function filterDiffStat(entries: DiffStatEntry[], filter: DiffPathFilter): DiffStatEntry[] {
+    return entries.filter(entry => matchesPathFilter(
+        [entry.old?.path, entry.new?.path, entry.srcPath?.toString, entry.path?.toString],
+        filter
+    ));
+}
 
 export function registerDiffTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
     const logger = getLogger();
@@ -17,38 +50,105 @@ export function registerDiffTools(server: McpServer, client: BitbucketClient, pa
         return workspace ?? defaultWorkspace;
     }
 
+    /** Query for the text diff endpoints: Cloud takes `path` and `context`, DC `.diff` takes `contextLines`. */
+    function textDiffQuery(filePath?: string, contextLines?: number) {
+        if (filePath === undefined && contextLines === undefined) return undefined;
+
+        return paths.isCloud ? { path: filePath, context: contextLines } : { contextLines };
+    }
+
     /*
      * ── getPullRequestDiff ───────────────────────────────────────────────
      * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pullrequests/{pull_request_id}/diff
      *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-diff-get
      * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/pull-requests/{pullRequestId}.diff
      *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-pull-requests/#api-api-latest-projects-projectkey-repos-repositoryslug-pull-requests-pullrequestid-diff-get
+     *       GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/pull-requests/{pullRequestId}/diff/{path} (when `path` is set)
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-pull-requests/#api-api-latest-projects-projectkey-repos-repositoryslug-pull-requests-pullrequestid-diff-path-get
      */
     server.registerTool(
         "getPullRequestDiff",
         {
-            description: "Get the raw diff for a pull request",
+            description: "Get the raw diff for a pull request. For large pull requests, list the files with getPullRequestDiffStat and fetch them one at a time with `path`, or narrow the diff with `include`/`exclude` globs.",
             inputSchema: {
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
-                pullRequestId: z.number().int().describe("Pull request ID")
+                pullRequestId: z.number().int().describe("Pull request ID"),
+                ...diffFilterInput
             },
             outputSchema: getPullRequestDiffOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId }) => {
+        async({ workspace, repoSlug, pullRequestId, path: filePath, include, exclude, contextLines }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
 
-            logger.debug(`getPullRequestDiff: ${ws}/${repoSlug}#${pullRequestId}`);
+            logger.debug(`getPullRequestDiff: ${ws}/${repoSlug}#${pullRequestId}${filePath ? `:${filePath}` : ""}`);
 
             try {
-                const diff = await client.getText(
-                    paths.pullRequestDiff(ws, repoSlug, pullRequestId)
-                );
+                let diff: string;
+
+                if (paths.isDataCenter && filePath) {
+                    // The DC raw `.diff` stream has no path filter, so render the per-path JSON diff instead
+                    const response = await client.get<BitbucketDCDiffResponse>(
+                        paths.pullRequestDiffStructured(ws, repoSlug, pullRequestId, filePath),
+                        { contextLines, withComments: false }
+                    );
+
+                    diff = formatUnifiedDiff(fromDataCenterDiff(response));
+                } else {
+                    diff = await client.getText(
+                        paths.pullRequestDiff(ws, repoSlug, pullRequestId),
+                        textDiffQuery(filePath, contextLines)
+                    );
+                }
+
+                return toMcpResult(toolSuccess(filterUnifiedDiff(diff, { include, exclude })));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── getPullRequestDiffStructured ─────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pullrequests/{pull_request_id}/diff (parsed client-side)
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-diff-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/pull-requests/{pullRequestId}/diff[/{path}]
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-pull-requests/#api-api-latest-projects-projectkey-repos-repositoryslug-pull-requests-pullrequestid-diff-path-get
+     */
+    server.registerTool(
+        "getPullRequestDiffStructured",
+        {
+            description: "Get the diff for a pull request as structured data: files with their status, hunks and lines. Each line has a type (added, removed, context) and its oldLine/newLine numbers. To comment on a line with addPullRequestComment, pass the file `path` and use `newLine` as `inline.to` for added or context lines, or `oldLine` as `inline.from` for removed lines.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace name"),
+                repoSlug: z.string().describe("Repository slug"),
+                pullRequestId: z.number().int().describe("Pull request ID"),
+                ...diffFilterInput
+            },
+            outputSchema: getPullRequestDiffStructuredOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, pullRequestId, path: filePath, include, exclude, contextLines }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
+
+            logger.debug(`getPullRequestDiffStructured: ${ws}/${repoSlug}#${pullRequestId}${filePath ? `:${filePath}` : ""}`);
+
+            try {
+                const path = paths.pullRequestDiffStructured(ws, repoSlug, pullRequestId, filePath);
+                const files = paths.isCloud
+                    ? parseUnifiedDiff(await client.getText(path, textDiffQuery(filePath, contextLines)))
+                    : fromDataCenterDiff(await client.get<BitbucketDCDiffResponse>(path, { contextLines, withComments: false }));
 
-                return toMcpResult(toolSuccess(diff));
+                return toMcpResult(toolSuccess(filterDiffFiles(files, { include, exclude })));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -69,19 +169,22 @@ export function registerDiffTools(server: McpServer, client: BitbucketClient, pa
     server.registerTool(
         "getPullRequestDiffStat",
         {
-            description: "Get diff statistics for a pull request (files changed, lines added/removed)",
+            description: "Get diff statistics for a pull request (files changed, lines added/removed). Use it to list the changed files before fetching their diffs one at a time.",
             inputSchema: {
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
                 page: z.number().int().min(1).optional().describe("Page number"),
-                all: z.boolean().optional().describe("Fetch all pages")
+                all: z.boolean().optional().describe("Fetch all pages"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)"),
+                include: diffFilterInput.include,
+                exclude: diffFilterInput.exclude
             },
             outputSchema: getPullRequestDiffStatOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, pagelen, page, all }) => {
+        async({ workspace, repoSlug, pullRequestId, pagelen, page, all, include, exclude, cursor }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -89,12 +192,12 @@ export function registerDiffTools(server: McpServer, client: BitbucketClient, pa
             logger.debug(`getPullRequestDiffStat: ${ws}/${repoSlug}#${pullRequestId}`);
 
             try {
-                const result = await client.getPaginated<BitbucketDiffStat>(
+                const result = await client.getPaginated<DiffStatEntry>(
                     paths.pullRequestDiffStat(ws, repoSlug, pullRequestId),
-                    { pagelen, page, all }
+                    { pagelen, page, all, next: cursorNext(cursor) }
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(filterDiffStat(result.values, { include, exclude }), result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
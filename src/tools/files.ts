@@ -0,0 +1,244 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { BitbucketClient } from "../bitbucket/client.js";
+import { BitbucketClientError } from "../bitbucket/client.js";
+import type { BitbucketDCBrowseChild, BitbucketDCBrowseDirectory, BitbucketRepository, BitbucketSourceEntry } from "../bitbucket/types.js";
+import type { PathBuilder } from "../bitbucket/utils.js";
+import { getLogger } from "../logger.js";
+import { cursorNext, toMcpResult, toolError, toolFailure, toolNotFound, toolPage, toolSuccess } from "../response.js";
+import { getFileContentOutput, listDirectoryOutput } from "./output-schemas.js";
+
+/** Default maximum file size (in bytes) returned by `getFileContent`. */
+const DEFAULT_MAX_FILE_BYTES = 100_000;
+
+/** Hard upper bound for the `maxBytes` parameter. */
+const MAX_FILE_BYTES_LIMIT = 2_000_000;
+
+/** Number of leading characters inspected for NUL bytes (same heuristic as git). */
+const BINARY_SNIFF_LENGTH = 8000;
+
+/** Maximum number of directory entries fetched on DC when `all` is set. */
+const ALL_ENTRIES_CAP = 1000;
+
+/** Platform-neutral directory entry returned by `listDirectory`. */
+export interface FileEntry {
+    path: string;
+    type: "file" | "directory" | "submodule";
+    size?: number;
+}
+
+/** Returns true when the content looks binary (contains a NUL character near the start). */
+export function isBinaryContent(content: string): boolean {
+    return content.slice(0, BINARY_SNIFF_LENGTH).includes("\u0000");
+}
+
+function fromCloudEntry(entry: BitbucketSourceEntry): FileEntry {
+    const types = { commit_file: "file", commit_directory: "directory", commit_link: "submodule" } as const;
+
+    return { path: entry.path, type: types[entry.type] ?? "file", size: entry.size };
+}
+
+function fromDataCenterEntry(entry: BitbucketDCBrowseChild, dirPath: string): FileEntry {
+    const types = { FILE: "file", DIRECTORY: "directory", SUBMODULE: "submodule" } as const;
+    const parent = dirPath.replace(/^\/+|\/+$/g, "");
+
+    return {
+        path: parent ? `${parent}/${entry.path.toString}` : entry.path.toString,
+        type: types[entry.type] ?? "file",
+        size: entry.size
+    };
+}
+
+export function registerFileTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
+    const logger = getLogger();
+
+    function resolveWorkspace(workspace?: string) {
+        return workspace ?? defaultWorkspace;
+    }
+
+    /**
+     * Cloud needs a commit or branch in the `/src` path, so fall back to the repository's main branch.
+     * DC resolves the default branch itself when `at` is omitted.
+     */
+    async function resolveRef(ws: string, repoSlug: string, ref?: string): Promise<string | undefined> {
+        if (ref || paths.isDataCenter) return ref;
+
+        const repo = await client.get<BitbucketRepository>(paths.repository(ws, repoSlug));
+
+        return repo.mainbranch?.name ?? "HEAD";
+    }
+
+    /*
+     * ── getFileContent ───────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/src/{commit}/{path}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-source/#api-repositories-workspace-repo-slug-src-commit-path-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/raw/{path}?at={ref}
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-raw-path-get
+     */
+    server.registerTool(
+        "getFileContent",
+        {
+            description: "Get the contents of a file at a branch, tag or commit. Binary files and files larger than `maxBytes` are reported without their content.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                path: z.string().describe("Path to the file in the repository"),
+                ref: z.string().optional().describe("Branch, tag or commit hash (defaults to the repository's main branch)"),
+                maxBytes: z.number().int().min(1).max(MAX_FILE_BYTES_LIMIT).optional().describe(`Maximum file size to return in bytes (default: ${DEFAULT_MAX_FILE_BYTES})`)
+            },
+            outputSchema: getFileContentOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, path: filePath, ref, maxBytes }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`getFileContent: ${ws}/${repoSlug}:${filePath}@${ref ?? "default"}`);
+
+            const limit = maxBytes ?? DEFAULT_MAX_FILE_BYTES;
+
+            try {
+                const at = await resolveRef(ws, repoSlug, ref);
+                let size: number | undefined;
+
+                if (paths.isCloud) {
+                    const meta = await client.get<BitbucketSourceEntry>(
+                        paths.fileContent(ws, repoSlug, at!, filePath),
+                        { format: "meta" }
+                    );
+
+                    if (meta.type !== "commit_file") {
+                        return toMcpResult(toolFailure(`'${filePath}' is not a file. Use listDirectory to browse directories.`));
+                    }
+
+                    size = meta.size;
+                } else {
+                    const meta = await client.get<{ size?: number; children?: unknown }>(
+                        paths.browse(ws, repoSlug, at ?? "", filePath),
+                        { at, size: true }
+                    );
+
+                    if (meta.children !== undefined) {
+                        return toMcpResult(toolFailure(`'${filePath}' is not a file. Use listDirectory to browse directories.`));
+                    }
+
+                    size = meta.size;
+                }
+
+                const file = { path: filePath, ref: at ?? null, size: size ?? null, binary: false, tooLarge: false, content: null as string | null };
+
+                if (size !== undefined && size > limit) {
+                    return toMcpResult(toolSuccess(
+                        { ...file, tooLarge: true },
+                        `File is ${size} bytes, which exceeds the ${limit}-byte limit. Content was not returned.`
+                    ));
+                }
+
+                const content = await client.getText(
+                    paths.fileContent(ws, repoSlug, at ?? "", filePath),
+                    paths.isDataCenter ? { at } : undefined
+                );
+
+                file.size ??= Buffer.byteLength(content);
+
+                if (isBinaryContent(content)) {
+                    return toMcpResult(toolSuccess({ ...file, binary: true }, "File is binary. Content was not returned."));
+                }
+
+                if (file.size > limit) {
+                    return toMcpResult(toolSuccess(
+                        { ...file, tooLarge: true },
+                        `File is ${file.size} bytes, which exceeds the ${limit}-byte limit. Content was not returned.`
+                    ));
+                }
+
+                return toMcpResult(toolSuccess({ ...file, content }));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("File", `${ws}/${repoSlug}:${filePath}${ref ? `@${ref}` : ""}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── listDirectory ────────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/src/{commit}/{path}/
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-source/#api-repositories-workspace-repo-slug-src-commit-path-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/browse/{path}?at={ref}
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-browse-path-get
+     */
+    server.registerTool(
+        "listDirectory",
+        {
+            description: "List the files and sub-directories of a directory at a branch, tag or commit",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                path: z.string().optional().describe("Directory path (defaults to the repository root)"),
+                ref: z.string().optional().describe("Branch, tag or commit hash (defaults to the repository's main branch)"),
+                pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
+                page: z.number().int().min(1).optional().describe("Page number (1-based)"),
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
+            },
+            outputSchema: listDirectoryOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, path: dirPath, ref, pagelen, page, all, cursor }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`listDirectory: ${ws}/${repoSlug}:${dirPath ?? "/"}@${ref ?? "default"}`);
+
+            try {
+                const at = await resolveRef(ws, repoSlug, ref);
+
+                if (paths.isCloud) {
+                    const result = await client.getPaginated<BitbucketSourceEntry>(
+                        paths.browse(ws, repoSlug, at!, dirPath),
+                        { pagelen, page, all, next: cursorNext(cursor) }
+                    );
+
+                    return toMcpResult(toolPage(result.values.map(fromCloudEntry), result.next));
+                }
+
+                // DC nests the listing under `children`, so it is paged here rather than via getPaginated
+                const limit = Math.min(pagelen ?? 25, 100);
+                const fetchAll = all === true && page === undefined;
+                const entries: FileEntry[] = [];
+                const next = cursorNext(cursor);
+                let start: number | undefined = page !== undefined ? (page - 1) * limit : 0;
+
+                if (typeof next === "number") start = next;
+
+                while (start !== undefined) {
+                    const response: BitbucketDCBrowseDirectory = await client.get<BitbucketDCBrowseDirectory>(
+                        paths.browse(ws, repoSlug, at ?? "", dirPath),
+                        { at, limit, start }
+                    );
+                    const children = response.children;
+
+                    entries.push(...children.values.map(child => fromDataCenterEntry(child, dirPath ?? "")));
+                    start = children.isLastPage ? undefined : children.nextPageStart;
+
+                    if (!fetchAll || entries.length >= ALL_ENTRIES_CAP) break;
+                }
+
+                return toMcpResult(toolPage(entries, start));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Directory", `${ws}/${repoSlug}:${dirPath ?? "/"}${ref ? `@${ref}` : ""}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+}
@@ -0,0 +1,87 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+import type { BitbucketClient } from "../bitbucket/client.js";
+import type { PathBuilder } from "../bitbucket/utils.js";
+import { toMcpResult, toolFailure } from "../response.js";
+
+/** One Bitbucket instance the tools can target. */
+export interface ToolInstance {
+    name: string;
+    client: BitbucketClient;
+    paths: PathBuilder;
+    defaultWorkspace?: string;
+}
+
+/** Signature shared by the `registerXTools` functions. */
+export type ToolRegistrar = (server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string) => void;
+
+/** The parts of a tool's `registerTool` config and handler that the registration wrappers use. */
+export interface ToolConfig {
+    inputSchema?: z.ZodRawShape;
+    annotations?: { readOnlyHint?: boolean };
+    [key: string]: unknown;
+}
+
+export type ToolHandler = (args: Record<string, unknown>, extra: unknown) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Registers the tools of `register` on `server` for every instance.
+ *
+ * With a single instance the tools are registered as is. With several, `register` runs once per
+ * instance against a collector, and each tool is registered once with an optional `instance` input
+ * that dispatches the call to the handler bound to that instance (`defaultInstance` when omitted).
+ */
+export function registerInstanceTools(server: McpServer, instances: ToolInstance[], defaultInstance: string, register: ToolRegistrar): void {
+    if (instances.length === 1) {
+        const [instance] = instances;
+
+        register(server, instance.client, instance.paths, instance.defaultWorkspace);
+
+        return;
+    }
+
+    const tools = new Map<string, { config: ToolConfig; handlers: Map<string, ToolHandler> }>();
+
+    for (const instance of instances) {
+        collectTools(instance, register, (name, config, handler) => {
+            const tool = tools.get(name) ?? { config, handlers: new Map<string, ToolHandler>() };
+
+            tool.handlers.set(instance.name, handler);
+            tools.set(name, tool);
+        });
+    }
+
+    const names = instances.map(instance => instance.name) as [string, ...string[]];
+    const described = instances.map(instance => `${instance.name} (${instance.paths.isCloud ? "Cloud" : "Data Center"})`).join(", ");
+    const registerTool = server.registerTool.bind(server) as (name: string, config: ToolConfig, handler: ToolHandler) => ReturnType<McpServer["registerTool"]>;
+
+    for (const [name, tool] of tools) {
+        const inputSchema = {
+            ...tool.config.inputSchema,
+            instance: z.enum(names).optional().describe(`Bitbucket instance: ${described} (default: ${defaultInstance})`)
+        };
+
+        registerTool(name, { ...tool.config, inputSchema }, async(args, extra) => {
+            const { instance, ...toolArgs } = args;
+            const handler = tool.handlers.get(typeof instance === "string" ? instance : defaultInstance);
+
+            if (!handler) return toMcpResult(toolFailure(`Unknown instance: ${String(instance)}`));
+
+            return handler(toolArgs, extra);
+        });
+    }
+}
+
+/** Run `register` for `instance` against a collector that hands each tool to `collect` instead of an MCP server. */
+export function collectTools(
+    instance: ToolInstance,
+    register: ToolRegistrar,
+    collect: (name: string, config: ToolConfig, handler: ToolHandler) => void
+): void {
+    const collector = { registerTool: collect } as unknown as McpServer;
+
+    register(collector, instance.client, instance.paths, instance.defaultWorkspace);
+}
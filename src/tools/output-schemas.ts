@@ -2,12 +2,14 @@
  * Output schema definitions for all MCP tools.
  *
  * Each schema describes the JSON structure returned by the tool inside
- * the MCP text content block: `{ status, message, result }`.
+ * the MCP text content block: `{ status, message, result }`, plus
+ * `truncated`, `omitted` and `cursor` when the result was cut to fit the maximum response size.
  *
  * These schemas are meant to be wired into `registerTool({ outputSchema })`.
  *
- * The `result` field is left as `z.any()` to accommodate both
- * Bitbucket Cloud and Data Center response shapes.
+ * Tools returning pull requests, comments, tasks and users normalize them to the same shape on
+ * Bitbucket Cloud and Data Center (see `src/bitbucket/models.ts`) and declare it precisely.
+ * Other tools pass the Bitbucket payload through, so their `result` is left as `z.any()`.
  */
 import { z } from "zod";
 
@@ -16,15 +18,118 @@ import { z } from "zod";
 export const ToolResponseSchema = z.object({
     status: z.enum(["COMPLETED", "FAILED"]).describe("Whether the tool call succeeded"),
     message: z.string().describe("Human-readable status message"),
-    result: z.any().describe("Tool-specific result payload")
+    result: z.any().describe("Tool-specific result payload"),
+    truncated: z.boolean().optional().describe("Set when the result was cut to fit the maximum response size"),
+    omitted: z.number().int().optional().describe("Number of items (or characters, for text results) left out of a truncated result"),
+    cursor: z.string().optional().describe("Pass back to the same tool, with the same arguments, to get the rest of a truncated result")
+});
+
+// ── Normalized entities ──────────────────────────────────────────────────
+
+const RawSchema = z.unknown().optional().describe("Original Bitbucket payload, only with `raw: true`");
+
+export const UserSchema = z.object({
+    id: z.string().nullable().describe("Cloud UUID (or account ID), DC numeric user ID"),
+    username: z.string().nullable().describe("Cloud nickname, DC user name"),
+    displayName: z.string().describe("Display name")
+});
+
+export const PullRequestRefSchema = z.object({
+    branch: z.string().nullable().describe("Branch name"),
+    commit: z.string().nullable().describe("Head commit hash"),
+    repository: z.string().nullable().describe("Repository (Cloud: workspace/slug, DC: PROJECT/slug)")
+});
+
+export const ReviewerSchema = z.object({
+    user: UserSchema,
+    state: z.enum(["approved", "changes_requested", "pending"]).describe("Review state")
+});
+
+export const PullRequestSchema = z.object({
+    id: z.number().int().describe("Pull request ID"),
+    title: z.string(),
+    description: z.string(),
+    state: z.enum(["OPEN", "MERGED", "DECLINED", "SUPERSEDED"]),
+    draft: z.boolean(),
+    author: UserSchema.nullable(),
+    source: PullRequestRefSchema.describe("Source branch"),
+    destination: PullRequestRefSchema.describe("Target branch"),
+    reviewers: z.array(ReviewerSchema).describe("Reviewers, and on Cloud other participants who approved or requested changes"),
+    createdOn: z.string().nullable().describe("ISO 8601 date"),
+    updatedOn: z.string().nullable().describe("ISO 8601 date"),
+    url: z.string().nullable().describe("Web page of the pull request"),
+    raw: RawSchema
+});
+
+export const CommentAnchorSchema = z.object({
+    path: z.string().describe("File path"),
+    from: z.number().int().nullable().describe("Line in the old file"),
+    to: z.number().int().nullable().describe("Line in the new file")
+});
+
+export const CommentSchema = z.object({
+    id: z.number().int().describe("Comment ID"),
+    parentId: z.number().int().nullable().describe("Comment this one replies to"),
+    author: UserSchema.nullable(),
+    content: z.string().describe("Comment text (markdown)"),
+    createdOn: z.string().nullable().describe("ISO 8601 date"),
+    updatedOn: z.string().nullable().describe("ISO 8601 date"),
+    anchor: CommentAnchorSchema.nullable().describe("Inline position, null for general comments"),
+    resolved: z.boolean(),
+    outdated: z.boolean().describe("The anchored lines changed since the comment was made"),
+    deleted: z.boolean(),
+    raw: RawSchema
+});
+
+export const TaskSchema = z.object({
+    id: z.number().int().describe("Task ID"),
+    content: z.string(),
+    state: z.enum(["OPEN", "RESOLVED"]),
+    author: UserSchema.nullable(),
+    commentId: z.number().int().nullable().describe("Comment the task was created on (Cloud only)"),
+    createdOn: z.string().nullable().describe("ISO 8601 date"),
+    updatedOn: z.string().nullable().describe("ISO 8601 date"),
+    raw: RawSchema
+});
+
+const ThreadCommentSchema = CommentSchema.pick({ id: true, parentId: true, author: true, content: true, createdOn: true, updatedOn: true });
+
+export const CommentThreadSchema = z.object({
+    root: ThreadCommentSchema.describe("Root comment, the one to reply to and resolve"),
+    replies: z.array(ThreadCommentSchema).describe("Replies at any depth, oldest first"),
+    anchor: CommentAnchorSchema.nullable(),
+    resolved: z.boolean(),
+    outdated: z.boolean(),
+    deleted: z.boolean().describe("The root comment was deleted but has replies"),
+    tasks: z.array(TaskSchema.pick({ id: true, content: true, state: true })).describe("Tasks created on the thread")
+});
+
+/** Result of a mutating tool called with `dryRun` or awaiting confirmation (see `applyConfirmation`). */
+export const DryRunResultSchema = z.object({
+    dryRun: z.literal(true),
+    preview: z.string().describe("What the call would do"),
+    request: z.object({
+        method: z.string(),
+        url: z.string(),
+        body: z.record(z.unknown()).optional()
+    }).describe("HTTP request the call would send"),
+    confirmationToken: z.string().optional().describe("Token to execute the call, with --require-confirmation"),
+    expiresAt: z.string().optional().describe("Expiry of the confirmation token")
 });
 
 // ── Workspace tools ──────────────────────────────────────────────────────
 
-export const getCurrentUserOutput = ToolResponseSchema.describe("Current Bitbucket user");
+export const getCurrentUserOutput = ToolResponseSchema.extend({
+    result: UserSchema.extend({
+        raw: RawSchema,
+        server: z.record(z.unknown()).optional().describe("Data Center application properties (DC has no current user endpoint)")
+    })
+}).describe("Current Bitbucket user");
 
 export const getWorkspaceOutput = ToolResponseSchema.describe("Bitbucket workspace/project details");
 
+export const getRateLimitStatusOutput = ToolResponseSchema.describe("Client-side rate limiter state and Bitbucket rate-limit headers");
+
 // ── Repository tools ─────────────────────────────────────────────────────
 
 export const listRepositoriesOutput = ToolResponseSchema.describe("Repositories in the workspace");
@@ -33,13 +138,13 @@ export const getRepositoryOutput = ToolResponseSchema.describe("Repository detai
 
 // ── Pull request tools ───────────────────────────────────────────────────
 
-export const getPullRequestsOutput = ToolResponseSchema.describe("Pull requests for a repository");
+export const getPullRequestsOutput = ToolResponseSchema.extend({ result: z.array(PullRequestSchema) }).describe("Pull requests for a repository");
 
-export const createPullRequestOutput = ToolResponseSchema.describe("Created pull request");
+export const createPullRequestOutput = ToolResponseSchema.extend({ result: PullRequestSchema }).describe("Created pull request");
 
-export const getPullRequestOutput = ToolResponseSchema.describe("Pull request details");
+export const getPullRequestOutput = ToolResponseSchema.extend({ result: PullRequestSchema }).describe("Pull request details");
 
-export const updatePullRequestOutput = ToolResponseSchema.describe("Updated pull request");
+export const updatePullRequestOutput = ToolResponseSchema.extend({ result: PullRequestSchema.or(DryRunResultSchema) }).describe("Updated pull request");
 
 export const getPullRequestActivityOutput = ToolResponseSchema.describe("Pull request activity log");
 
@@ -51,23 +156,46 @@ export const requestChangesOutput = ToolResponseSchema.describe("Change request
 
 export const removeChangeRequestOutput = ToolResponseSchema.describe("Change request removal result");
 
-export const declinePullRequestOutput = ToolResponseSchema.describe("Declined pull request");
+export const declinePullRequestOutput = ToolResponseSchema.extend({ result: PullRequestSchema.or(DryRunResultSchema) }).describe("Declined pull request");
 
-export const mergePullRequestOutput = ToolResponseSchema.describe("Merged pull request");
+export const mergePullRequestOutput = ToolResponseSchema.extend({ result: PullRequestSchema.or(DryRunResultSchema) }).describe("Merged pull request");
 
 export const getPullRequestCommitsOutput = ToolResponseSchema.describe("Pull request commits");
 
 export const getPullRequestStatusesOutput = ToolResponseSchema.describe("Pull request commit statuses");
 
+export const getPullRequestOverviewOutput = ToolResponseSchema.extend({
+    result: z.object({
+        pullRequest: PullRequestSchema.nullable().describe("Pull request, with its reviewer states"),
+        builds: z.object({
+            state: z.enum(["SUCCESSFUL", "FAILED", "INPROGRESS", "NONE"]).describe("FAILED if any build failed or was stopped, else INPROGRESS if any runs"),
+            total: z.number().int(),
+            successful: z.number().int(),
+            failed: z.number().int(),
+            inProgress: z.number().int(),
+            failing: z.array(z.string()).describe("Names (or keys) of the failed and stopped builds")
+        }).nullable(),
+        openTasks: z.number().int().nullable(),
+        unresolvedThreads: z.number().int().nullable(),
+        files: z.array(z.object({
+            path: z.string(),
+            status: z.enum(["added", "removed", "modified", "renamed"]),
+            linesAdded: z.number().int().optional().describe("Cloud only"),
+            linesRemoved: z.number().int().optional().describe("Cloud only")
+        })).nullable(),
+        errors: z.record(z.string()).describe("Why each null section could not be fetched")
+    })
+}).describe("Pull request with reviewer states, build rollup, open task and unresolved thread counts, and changed files");
+
 // ── Comment tools ────────────────────────────────────────────────────────
 
-export const getPullRequestCommentsOutput = ToolResponseSchema.describe("Pull request comments");
+export const getPullRequestCommentsOutput = ToolResponseSchema.extend({ result: z.array(CommentThreadSchema) }).describe("Pull request comment threads");
 
-export const getPullRequestCommentOutput = ToolResponseSchema.describe("Pull request comment details");
+export const getPullRequestCommentOutput = ToolResponseSchema.extend({ result: CommentSchema }).describe("Pull request comment details");
 
-export const addPullRequestCommentOutput = ToolResponseSchema.describe("Created comment");
+export const addPullRequestCommentOutput = ToolResponseSchema.extend({ result: CommentSchema }).describe("Created comment");
 
-export const updatePullRequestCommentOutput = ToolResponseSchema.describe("Updated comment");
+export const updatePullRequestCommentOutput = ToolResponseSchema.extend({ result: CommentSchema }).describe("Updated comment");
 
 export const deletePullRequestCommentOutput = ToolResponseSchema.describe("Comment deletion result");
 
@@ -79,28 +207,88 @@ export const reopenCommentOutput = ToolResponseSchema.describe("Comment reopen r
 
 export const getPullRequestDiffOutput = ToolResponseSchema.describe("Pull request raw diff");
 
+export const getPullRequestDiffStructuredOutput = ToolResponseSchema.describe("Pull request diff parsed into files, hunks and lines");
+
 export const getPullRequestDiffStatOutput = ToolResponseSchema.describe("Pull request diff statistics");
 
 export const getPullRequestPatchOutput = ToolResponseSchema.describe("Pull request patch");
 
 // ── Task tools ───────────────────────────────────────────────────────────
 
-export const getPullRequestTasksOutput = ToolResponseSchema.describe("Pull request tasks");
+export const getPullRequestTasksOutput = ToolResponseSchema.extend({ result: z.array(TaskSchema) }).describe("Pull request tasks");
 
-export const createPullRequestTaskOutput = ToolResponseSchema.describe("Created task");
+export const createPullRequestTaskOutput = ToolResponseSchema.extend({ result: TaskSchema }).describe("Created task");
 
-export const getPullRequestTaskOutput = ToolResponseSchema.describe("Task details");
+export const getPullRequestTaskOutput = ToolResponseSchema.extend({ result: TaskSchema }).describe("Task details");
 
-export const updatePullRequestTaskOutput = ToolResponseSchema.describe("Updated task");
+export const updatePullRequestTaskOutput = ToolResponseSchema.extend({ result: TaskSchema }).describe("Updated task");
 
 export const deletePullRequestTaskOutput = ToolResponseSchema.describe("Task deletion result");
 
+// ── File tools ───────────────────────────────────────────────────────────
+
+export const getFileContentOutput = ToolResponseSchema.describe("File contents at a ref");
+
+export const listDirectoryOutput = ToolResponseSchema.describe("Directory entries at a ref");
+
+// ── Commit tools ─────────────────────────────────────────────────────────
+
+export const listCommitsOutput = ToolResponseSchema.describe("Repository commits, newest first");
+
+export const getCommitOutput = ToolResponseSchema.describe("Commit details");
+
+export const getCommitDiffOutput = ToolResponseSchema.describe("Unified diff introduced by a commit");
+
+export const getCommitDiffStatOutput = ToolResponseSchema.describe("Files changed by a commit");
+
+// ── Build status tools ───────────────────────────────────────────────────
+
+export const setCommitBuildStatusOutput = ToolResponseSchema.describe("Build status set on the commit");
+
+export const listCommitBuildStatusesOutput = ToolResponseSchema.describe("Build statuses of a commit");
+
+// ── Pipeline tools (Cloud only) ──────────────────────────────────────────
+
+export const listPipelinesOutput = ToolResponseSchema.describe("Pipelines, newest first");
+
+export const getPipelineStepsOutput = ToolResponseSchema.describe("Pipeline steps with state and result");
+
+export const getPipelineStepLogOutput = ToolResponseSchema.describe("End of a pipeline step log");
+
+export const triggerPipelineOutput = ToolResponseSchema.describe("Triggered pipeline");
+
+export const stopPipelineOutput = ToolResponseSchema.describe("Pipeline stop result");
+
+// ── Search tools ─────────────────────────────────────────────────────────
+
+export const CodeSearchHitSchema = z.object({
+    repository: z.string().optional().describe("Repository of the file (Cloud: workspace/slug, DC: PROJECT/slug)"),
+    path: z.string().describe("File path within the repository"),
+    matches: z.array(z.object({
+        line: z.number().int().describe("1-based line number"),
+        text: z.string().describe("Full text of the matching line"),
+        fragments: z.array(z.string()).describe("Parts of the line that matched the query")
+    })).describe("Matching lines (empty when only the path matched)")
+});
+
+export const searchCodeOutput = ToolResponseSchema.extend({
+    result: z.array(CodeSearchHitSchema).nullable().describe("Files matching the query, or null when nothing matched")
+}).describe("Code search results");
+
 // ── Ref tools (branches/tags) ────────────────────────────────────────────
 
 export const listBranchesOutput = ToolResponseSchema.describe("Repository branches");
 
 export const listTagsOutput = ToolResponseSchema.describe("Repository tags");
 
+export const createBranchOutput = ToolResponseSchema.describe("Created branch");
+
+export const deleteBranchOutput = ToolResponseSchema.describe("Branch deletion result");
+
+export const createTagOutput = ToolResponseSchema.describe("Created tag");
+
+export const compareRefsOutput = ToolResponseSchema.describe("Ahead/behind counts and commits only on the source ref");
+
 // ── Review tools (DC pending review) ─────────────────────────────────────
 
 export const addPendingReviewCommentOutput = ToolResponseSchema.describe("Pending review comment added");
@@ -118,6 +306,7 @@ export const OUTPUT_SCHEMAS: Record<string, z.ZodType> = {
     // Workspace
     getCurrentUser: getCurrentUserOutput,
     getWorkspace: getWorkspaceOutput,
+    getRateLimitStatus: getRateLimitStatusOutput,
     // Repositories
     listRepositories: listRepositoriesOutput,
     getRepository: getRepositoryOutput,
@@ -135,6 +324,7 @@ export const OUTPUT_SCHEMAS: Record<string, z.ZodType> = {
     mergePullRequest: mergePullRequestOutput,
     getPullRequestCommits: getPullRequestCommitsOutput,
     getPullRequestStatuses: getPullRequestStatusesOutput,
+    getPullRequestOverview: getPullRequestOverviewOutput,
     // Comments
     getPullRequestComments: getPullRequestCommentsOutput,
     getPullRequestComment: getPullRequestCommentOutput,
@@ -145,6 +335,7 @@ export const OUTPUT_SCHEMAS: Record<string, z.ZodType> = {
     reopenComment: reopenCommentOutput,
     // Diffs
     getPullRequestDiff: getPullRequestDiffOutput,
+    getPullRequestDiffStructured: getPullRequestDiffStructuredOutput,
     getPullRequestDiffStat: getPullRequestDiffStatOutput,
     getPullRequestPatch: getPullRequestPatchOutput,
     // Tasks
@@ -153,9 +344,32 @@ export const OUTPUT_SCHEMAS: Record<string, z.ZodType> = {
     getPullRequestTask: getPullRequestTaskOutput,
     updatePullRequestTask: updatePullRequestTaskOutput,
     deletePullRequestTask: deletePullRequestTaskOutput,
+    // Files
+    getFileContent: getFileContentOutput,
+    listDirectory: listDirectoryOutput,
+    // Commits
+    listCommits: listCommitsOutput,
+    getCommit: getCommitOutput,
+    getCommitDiff: getCommitDiffOutput,
+    getCommitDiffStat: getCommitDiffStatOutput,
+    // Build statuses
+    setCommitBuildStatus: setCommitBuildStatusOutput,
+    listCommitBuildStatuses: listCommitBuildStatusesOutput,
+    // Pipelines (Cloud only)
+    listPipelines: listPipelinesOutput,
+    getPipelineSteps: getPipelineStepsOutput,
+    getPipelineStepLog: getPipelineStepLogOutput,
+    triggerPipeline: triggerPipelineOutput,
+    stopPipeline: stopPipelineOutput,
+    // Search
+    searchCode: searchCodeOutput,
     // Refs (branches/tags)
     listBranches: listBranchesOutput,
     listTags: listTagsOutput,
+    createBranch: createBranchOutput,
+    deleteBranch: deleteBranchOutput,
+    createTag: createTagOutput,
+    compareRefs: compareRefsOutput,
     // Reviews (DC pending review)
     addPendingReviewComment: addPendingReviewCommentOutput,
     getPendingReview: getPendingReviewOutput,
@@ -0,0 +1,287 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { BitbucketClient } from "../bitbucket/client.js";
+import { BitbucketClientError } from "../bitbucket/client.js";
+import type { BitbucketPipeline, BitbucketPipelineStep, BitbucketPullRequest } from "../bitbucket/types.js";
+import type { PathBuilder } from "../bitbucket/utils.js";
+import { getLogger } from "../logger.js";
+import { cursorNext, toMcpResult, toolError, toolFailure, toolNotFound, toolPage, toolSuccess } from "../response.js";
+import {
+    listPipelinesOutput, getPipelineStepsOutput, getPipelineStepLogOutput,
+    triggerPipelineOutput, stopPipelineOutput
+} from "./output-schemas.js";
+
+const UNSUPPORTED = "Pipelines are only available on Bitbucket Cloud.";
+
+const DEFAULT_TAIL_LINES = 200;
+
+/** Keeps the last `lines` lines of a log (a trailing newline does not count as a line). */
+function tailLog(log: string, lines: number): { text: string; total: number } {
+    if (log.length === 0) return { text: "", total: 0 };
+
+    const all = (log.endsWith("\n") ? log.slice(0, -1) : log).split("\n");
+
+    return { text: all.slice(-lines).join("\n"), total: all.length };
+}
+
+export function registerPipelineTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
+    const logger = getLogger();
+
+    function resolveWorkspace(workspace?: string) {
+        return workspace ?? defaultWorkspace;
+    }
+
+    /*
+     * ── listPipelines ────────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pipelines?sort=-created_on&target.branch={branch}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-get
+     */
+    server.registerTool(
+        "listPipelines",
+        {
+            description: "List pipelines of a repository, newest first, optionally for a branch or a pull request (pipelines run on its source branch). Cloud only.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                branch: z.string().optional().describe("Only pipelines that ran on this branch"),
+                pullRequestId: z.number().int().optional().describe("Only pipelines that ran on this pull request's source branch"),
+                pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
+                page: z.number().int().min(1).optional().describe("Page number (1-based)"),
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
+            },
+            outputSchema: listPipelinesOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, branch, pullRequestId, pagelen, page, all, cursor }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
+
+            if (paths.isDataCenter) return toMcpResult(toolFailure(UNSUPPORTED));
+
+            if (branch && pullRequestId !== undefined) return toMcpResult(toolFailure("Pass either `branch` or `pullRequestId`, not both."));
+
+            logger.debug(`listPipelines: ${ws}/${repoSlug}, branch=${branch ?? "all"}, pr=${pullRequestId ?? "none"}`);
+
+            try {
+                let targetBranch = branch;
+
+                if (pullRequestId !== undefined) {
+                    const pr = await client.get<BitbucketPullRequest>(paths.pullRequest(ws, repoSlug, pullRequestId));
+
+                    targetBranch = pr.source.branch.name;
+                }
+
+                const result = await client.getPaginated<BitbucketPipeline>(
+                    paths.pipelines(ws, repoSlug),
+                    { pagelen, page, all, next: cursorNext(cursor) },
+                    { "sort": "-created_on", "target.branch": targetBranch }
+                );
+
+                return toMcpResult(toolPage(result.values, result.next));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    const target = pullRequestId === undefined ? `${ws}/${repoSlug}` : `${ws}/${repoSlug}#${pullRequestId}`;
+
+                    return toMcpResult(toolNotFound(pullRequestId === undefined ? "Repository" : "Pull Request", target));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── getPipelineSteps ─────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pipelines/{pipeline_uuid}/steps
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-pipeline-uuid-steps-get
+     */
+    server.registerTool(
+        "getPipelineSteps",
+        {
+            description: "List the steps of a pipeline with their state and result. Cloud only.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                pipeline: z.string().describe("Pipeline UUID, including braces (e.g. {a1b2c3...}), as returned by listPipelines")
+            },
+            outputSchema: getPipelineStepsOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, pipeline }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
+
+            if (paths.isDataCenter) return toMcpResult(toolFailure(UNSUPPORTED));
+
+            logger.debug(`getPipelineSteps: ${ws}/${repoSlug} ${pipeline}`);
+
+            try {
+                const result = await client.getPaginated<BitbucketPipelineStep>(
+                    paths.pipelineSteps(ws, repoSlug, pipeline),
+                    { all: true }
+                );
+
+                return toMcpResult(toolSuccess(result.values));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Pipeline", `${ws}/${repoSlug} ${pipeline}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── getPipelineStepLog ───────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pipelines/{pipeline_uuid}/steps/{step_uuid}/log
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-pipeline-uuid-steps-step-uuid-log-get
+     */
+    server.registerTool(
+        "getPipelineStepLog",
+        {
+            description: "Get the end of a pipeline step's log (last `tailLines` lines, default 200). Cloud only.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                pipeline: z.string().describe("Pipeline UUID, including braces"),
+                step: z.string().describe("Step UUID, including braces, as returned by getPipelineSteps"),
+                tailLines: z.number().int().min(1).max(10000).optional().describe("Number of lines to return from the end of the log (default: 200)")
+            },
+            outputSchema: getPipelineStepLogOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, pipeline, step, tailLines }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
+
+            if (paths.isDataCenter) return toMcpResult(toolFailure(UNSUPPORTED));
+
+            logger.debug(`getPipelineStepLog: ${ws}/${repoSlug} ${pipeline} ${step}`);
+
+            try {
+                const log = await client.getText(paths.pipelineStepLog(ws, repoSlug, pipeline, step));
+                const lines = tailLines ?? DEFAULT_TAIL_LINES;
+                const { text, total } = tailLog(log, lines);
+                const message = total > lines ? `Showing the last ${lines} of ${total} log lines.` : undefined;
+
+                return toMcpResult(toolSuccess(text, message));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    // Steps that have not started yet have no log
+                    return toMcpResult(toolNotFound("Pipeline step log", `${ws}/${repoSlug} ${pipeline} ${step}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── triggerPipeline ──────────────────────────────────────────────────
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/pipelines
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-post
+     */
+    server.registerTool(
+        "triggerPipeline",
+        {
+            description: "Run a pipeline on a branch or tag: the pipeline configured for that ref, or a custom pipeline from bitbucket-pipelines.yml, with optional variables. Cloud only.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                ref: z.string().describe("Branch or tag name to run the pipeline on"),
+                refType: z.enum(["branch", "tag"]).optional().describe("Type of `ref` (default: branch)"),
+                commit: z.string().optional().describe("Commit hash to run on (defaults to the head of `ref`)"),
+                pipeline: z.string().optional().describe("Name of a custom pipeline (the key under `pipelines.custom`)"),
+                variables: z.array(z.object({
+                    key: z.string().describe("Variable name"),
+                    value: z.string().describe("Variable value"),
+                    secured: z.boolean().optional().describe("Mask the value in logs")
+                })).optional().describe("Variables passed to the pipeline")
+            },
+            outputSchema: triggerPipelineOutput,
+            annotations: { readOnlyHint: false }
+        },
+        async({ workspace, repoSlug, ref, refType, commit, pipeline, variables }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
+
+            if (paths.isDataCenter) return toMcpResult(toolFailure(UNSUPPORTED));
+
+            logger.debug(`triggerPipeline: ${ws}/${repoSlug}@${ref}${pipeline ? ` (custom: ${pipeline})` : ""}`);
+
+            try {
+                const target: Record<string, unknown> = {
+                    type: "pipeline_ref_target",
+                    ref_type: refType ?? "branch",
+                    ref_name: ref
+                };
+
+                if (commit) target.commit = { type: "commit", hash: commit };
+
+                if (pipeline) target.selector = { type: "custom", pattern: pipeline };
+
+                const body: Record<string, unknown> = { target };
+
+                if (variables && variables.length > 0) body.variables = variables;
+
+                const result = await client.post<BitbucketPipeline>(paths.pipelines(ws, repoSlug), body);
+
+                return toMcpResult(toolSuccess(result, "Pipeline triggered."));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Repository or ref", `${ws}/${repoSlug}@${ref}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── stopPipeline ─────────────────────────────────────────────────────
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/pipelines/{pipeline_uuid}/stopPipeline
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pipelines/#api-repositories-workspace-repo-slug-pipelines-pipeline-uuid-stoppipeline-post
+     */
+    server.registerTool(
+        "stopPipeline",
+        {
+            description: "Stop a running pipeline. Cloud only.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                pipeline: z.string().describe("Pipeline UUID, including braces")
+            },
+            outputSchema: stopPipelineOutput,
+            annotations: { readOnlyHint: false }
+        },
+        async({ workspace, repoSlug, pipeline }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
+
+            if (paths.isDataCenter) return toMcpResult(toolFailure(UNSUPPORTED));
+
+            logger.debug(`stopPipeline: ${ws}/${repoSlug} ${pipeline}`);
+
+            try {
+                await client.post(paths.pipelineStop(ws, repoSlug, pipeline));
+
+                return toMcpResult(toolSuccess(true, "Pipeline stop requested."));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Pipeline", `${ws}/${repoSlug} ${pipeline}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+}
@@ -4,16 +4,22 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import type { BitbucketClient } from "../bitbucket/client.js";
 import { BitbucketClientError } from "../bitbucket/client.js";
-import type { BitbucketPullRequest } from "../bitbucket/types.js";
+import { buildCloudThreads, buildDataCenterThreads, filterThreads } from "../bitbucket/comment-threads.js";
+import { normalizePullRequest } from "../bitbucket/models.js";
+import { countOpenTasks, rollupBuildStatuses, summarizeChangedFiles } from "../bitbucket/overview.js";
+import type {
+    BitbucketComment, BitbucketCommitStatus, BitbucketDCBuildStatus, BitbucketDCChange, BitbucketDCPullRequest,
+    BitbucketDiffStat, BitbucketPullRequest
+} from "../bitbucket/types.js";
 import type { PathBuilder } from "../bitbucket/utils.js";
 import { getLogger } from "../logger.js";
-import { toMcpResult, toolError, toolNotFound, toolSuccess } from "../response.js";
+import { cursorNext, toMcpResult, toolError, toolNotFound, toolPage, toolSuccess } from "../response.js";
 import {
     getPullRequestsOutput, createPullRequestOutput, getPullRequestOutput,
     updatePullRequestOutput, getPullRequestActivityOutput, approvePullRequestOutput,
     unapprovePullRequestOutput, requestChangesOutput, removeChangeRequestOutput,
     declinePullRequestOutput, mergePullRequestOutput, getPullRequestCommitsOutput,
-    getPullRequestStatusesOutput
+    getPullRequestStatusesOutput, getPullRequestOverviewOutput
 } from "./output-schemas.js";
 
 const PullRequestStateEnum = z.enum(["OPEN", "MERGED", "DECLINED", "SUPERSEDED"]);
@@ -43,12 +49,14 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                 state: PullRequestStateEnum.optional().describe("Filter by pull request state"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page (default: 10, max: 100)"),
                 page: z.number().int().min(1).optional().describe("Page number (1-based)"),
-                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)")
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload of each pull request as `raw`")
             },
             outputSchema: getPullRequestsOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, state, pagelen, page, all }) => {
+        async({ workspace, repoSlug, state, pagelen, page, all, cursor, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -62,11 +70,11 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
 
                 const result = await client.getPaginated<BitbucketPullRequest>(
                     paths.pullRequests(ws, repoSlug),
-                    { pagelen, page, all },
+                    { pagelen, page, all, next: cursorNext(cursor) },
                     extraQuery
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values.map(pr => normalizePullRequest(pr, raw)), result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Repository", `${ws}/${repoSlug}`));
@@ -95,14 +103,15 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                 description: z.string().optional().describe("Pull request description"),
                 sourceBranch: z.string().describe("Source branch name"),
                 targetBranch: z.string().describe("Target branch name"),
-                reviewers: z.array(z.string()).optional().describe("List of reviewer UUIDs"),
+                reviewers: z.array(z.string()).optional().describe("Reviewers: Cloud user UUIDs (`id`), DC user names (`username`)"),
                 draft: z.boolean().optional().describe("Create as draft pull request"),
-                closeSourceBranch: z.boolean().optional().describe("Close source branch after merge")
+                closeSourceBranch: z.boolean().optional().describe("Close source branch after merge"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: createPullRequestOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, title, description, sourceBranch, targetBranch, reviewers, draft, closeSourceBranch }) => {
+        async({ workspace, repoSlug, title, description, sourceBranch, targetBranch, reviewers, draft, closeSourceBranch, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -143,7 +152,7 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                     body
                 );
 
-                return toMcpResult(toolSuccess(pr, "Pull request created successfully."));
+                return toMcpResult(toolSuccess(normalizePullRequest(pr, raw), "Pull request created successfully."));
             } catch (error) {
                 return toMcpResult(toolError(error));
             }
@@ -164,12 +173,13 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
             inputSchema: {
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
-                pullRequestId: z.number().int().describe("Pull request ID")
+                pullRequestId: z.number().int().describe("Pull request ID"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: getPullRequestOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId }) => {
+        async({ workspace, repoSlug, pullRequestId, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -181,7 +191,7 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                     paths.pullRequest(ws, repoSlug, pullRequestId)
                 );
 
-                return toMcpResult(toolSuccess(pr));
+                return toMcpResult(toolSuccess(normalizePullRequest(pr, raw)));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -208,12 +218,13 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 title: z.string().optional().describe("New pull request title"),
-                description: z.string().optional().describe("New pull request description")
+                description: z.string().optional().describe("New pull request description"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: updatePullRequestOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, pullRequestId, title, description }) => {
+        async({ workspace, repoSlug, pullRequestId, title, description, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -245,7 +256,7 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                     body
                 );
 
-                return toMcpResult(toolSuccess(pr, "Pull request updated successfully."));
+                return toMcpResult(toolSuccess(normalizePullRequest(pr, raw), "Pull request updated successfully."));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -273,12 +284,13 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
                 page: z.number().int().min(1).optional().describe("Page number"),
-                all: z.boolean().optional().describe("Fetch all pages")
+                all: z.boolean().optional().describe("Fetch all pages"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
             },
             outputSchema: getPullRequestActivityOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, pagelen, page, all }) => {
+        async({ workspace, repoSlug, pullRequestId, pagelen, page, all, cursor }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -288,10 +300,10 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
             try {
                 const result = await client.getPaginated(
                     paths.pullRequestActivity(ws, repoSlug, pullRequestId),
-                    { pagelen, page, all }
+                    { pagelen, page, all, next: cursorNext(cursor) }
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values, result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -481,12 +493,13 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
-                message: z.string().optional().describe("Reason for declining")
+                message: z.string().optional().describe("Reason for declining"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: declinePullRequestOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, pullRequestId, message }) => {
+        async({ workspace, repoSlug, pullRequestId, message, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -503,7 +516,7 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                     Object.keys(body).length > 0 ? body : undefined
                 );
 
-                return toMcpResult(toolSuccess(result, "Pull request declined."));
+                return toMcpResult(toolSuccess(normalizePullRequest(result, raw), "Pull request declined."));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -531,12 +544,13 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 message: z.string().optional().describe("Merge commit message"),
                 mergeStrategy: MergeStrategyEnum.optional().describe("Merge strategy (merge_commit, squash, fast_forward)"),
-                closeSourceBranch: z.boolean().optional().describe("Close source branch after merge")
+                closeSourceBranch: z.boolean().optional().describe("Close source branch after merge"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: mergePullRequestOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, pullRequestId, message, mergeStrategy, closeSourceBranch }) => {
+        async({ workspace, repoSlug, pullRequestId, message, mergeStrategy, closeSourceBranch, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -557,7 +571,7 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                     Object.keys(body).length > 0 ? body : undefined
                 );
 
-                return toMcpResult(toolSuccess(result, "Pull request merged."));
+                return toMcpResult(toolSuccess(normalizePullRequest(result, raw), "Pull request merged."));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -585,12 +599,13 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
                 page: z.number().int().min(1).optional().describe("Page number"),
-                all: z.boolean().optional().describe("Fetch all pages")
+                all: z.boolean().optional().describe("Fetch all pages"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
             },
             outputSchema: getPullRequestCommitsOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, pagelen, page, all }) => {
+        async({ workspace, repoSlug, pullRequestId, pagelen, page, all, cursor }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -600,10 +615,10 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
             try {
                 const result = await client.getPaginated(
                     paths.pullRequestCommits(ws, repoSlug, pullRequestId),
-                    { pagelen, page, all }
+                    { pagelen, page, all, next: cursorNext(cursor) }
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values, result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -618,23 +633,26 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
      * ── getPullRequestStatuses ───────────────────────────────────────────
      * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/pullrequests/{pull_request_id}/statuses
      *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-statuses-get
+     * DC:   GET /rest/build-status/1.0/commits/{commitId} for the PR's head commit (fromRef.latestCommit)
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-build-status/#api-build-status-1-0-commits-commitid-get
      */
     server.registerTool(
         "getPullRequestStatuses",
         {
-            description: "List commit statuses associated with a pull request",
+            description: "List commit statuses associated with a pull request (on Data Center, the build statuses of its head commit)",
             inputSchema: {
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
                 page: z.number().int().min(1).optional().describe("Page number"),
-                all: z.boolean().optional().describe("Fetch all pages")
+                all: z.boolean().optional().describe("Fetch all pages"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
             },
             outputSchema: getPullRequestStatusesOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, pagelen, page, all }) => {
+        async({ workspace, repoSlug, pullRequestId, pagelen, page, all, cursor }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -642,12 +660,20 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
             logger.debug(`getPullRequestStatuses: ${ws}/${repoSlug}#${pullRequestId}`);
 
             try {
+                let statusesPath = paths.pullRequestStatuses(ws, repoSlug, pullRequestId);
+
+                if (paths.isDataCenter) {
+                    const pr = await client.get<BitbucketDCPullRequest>(paths.pullRequest(ws, repoSlug, pullRequestId));
+
+                    statusesPath = paths.commitBuildStatuses(ws, repoSlug, pr.fromRef.latestCommit);
+                }
+
                 const result = await client.getPaginated(
-                    paths.pullRequestStatuses(ws, repoSlug, pullRequestId),
-                    { pagelen, page, all }
+                    statusesPath,
+                    { pagelen, page, all, next: cursorNext(cursor) }
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values, result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -657,4 +683,80 @@ export function registerPullRequestTools(server: McpServer, client: BitbucketCli
             }
         }
     );
+
+    /*
+     * ── getPullRequestOverview ───────────────────────────────────────────
+     * Concurrent calls to the endpoints of getPullRequest, getPullRequestDiffStat, getPullRequestStatuses,
+     * getPullRequestTasks and getPullRequestComments (DC: activities), reduced to a summary
+     */
+    server.registerTool(
+        "getPullRequestOverview",
+        {
+            description: "Get a compact overview of a pull request in one call: the pull request with its reviewer approval states, build status rollup, open task count, unresolved comment thread count and changed files. Sections that cannot be fetched are null, with the reason in `errors`.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace name"),
+                repoSlug: z.string().describe("Repository slug"),
+                pullRequestId: z.number().int().describe("Pull request ID")
+            },
+            outputSchema: getPullRequestOverviewOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, pullRequestId }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
+
+            logger.debug(`getPullRequestOverview: ${ws}/${repoSlug}#${pullRequestId}`);
+
+            const pullRequest = client.get<BitbucketPullRequest | BitbucketDCPullRequest>(paths.pullRequest(ws, repoSlug, pullRequestId));
+            const [pr, files, builds, openTasks, unresolvedThreads] = await Promise.allSettled([
+                pullRequest,
+                client.getPaginated<BitbucketDiffStat | BitbucketDCChange>(paths.pullRequestDiffStat(ws, repoSlug, pullRequestId), { all: true }).
+                    then(result => summarizeChangedFiles(result.values)),
+                (paths.isDataCenter
+                    ? pullRequest.then(dcPr => client.getPaginated<BitbucketDCBuildStatus>(
+                        paths.commitBuildStatuses(ws, repoSlug, (dcPr as BitbucketDCPullRequest).fromRef.latestCommit),
+                        { all: true }
+                    ))
+                    : client.getPaginated<BitbucketCommitStatus>(paths.pullRequestStatuses(ws, repoSlug, pullRequestId), { all: true })
+                ).then(result => rollupBuildStatuses(result.values)),
+                client.getPaginated<{ state: string }>(paths.pullRequestTasks(ws, repoSlug, pullRequestId), { all: true }).
+                    then(result => countOpenTasks(result.values)),
+                (paths.isDataCenter
+                    ? client.getPaginated<Record<string, unknown>>(paths.pullRequestActivity(ws, repoSlug, pullRequestId), { all: true }).
+                        then(result => buildDataCenterThreads(result.values))
+                    : client.getPaginated<BitbucketComment>(paths.pullRequestComments(ws, repoSlug, pullRequestId), { all: true }).
+                        then(result => buildCloudThreads(result.values))
+                ).then(threads => filterThreads(threads, { unresolvedOnly: true }).length)
+            ]);
+
+            if (pr.status === "rejected" && pr.reason instanceof BitbucketClientError && pr.reason.statusCode === 404) {
+                return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
+            }
+
+            const sections = { pullRequest: pr, files, builds, openTasks, unresolvedThreads };
+            const errors: Record<string, string> = {};
+
+            for (const [name, section] of Object.entries(sections)) {
+                if (section.status === "rejected") errors[name] = section.reason instanceof Error ? section.reason.message : String(section.reason);
+            }
+
+            const value = <T>(section: PromiseSettledResult<T>) => {
+                return section.status === "fulfilled" ? section.value : null;
+            };
+            const failed = Object.keys(errors);
+
+            return toMcpResult(toolSuccess(
+                {
+                    pullRequest: pr.status === "fulfilled" ? normalizePullRequest(pr.value) : null,
+                    builds: value(builds),
+                    openTasks: value(openTasks),
+                    unresolvedThreads: value(unresolvedThreads),
+                    files: value(files),
+                    errors
+                },
+                failed.length === 0 ? "Pull request overview." : `Pull request overview, without: ${failed.join(", ")} (see errors).`
+            ));
+        }
+    );
 }
@@ -4,10 +4,18 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import type { BitbucketClient } from "../bitbucket/client.js";
 import { BitbucketClientError } from "../bitbucket/client.js";
+import type { BitbucketCommit, BitbucketDCCommit } from "../bitbucket/types.js";
 import type { PathBuilder } from "../bitbucket/utils.js";
 import { getLogger } from "../logger.js";
-import { toMcpResult, toolError, toolNotFound, toolSuccess } from "../response.js";
-import { listBranchesOutput, listTagsOutput } from "./output-schemas.js";
+import { cursorNext, toMcpResult, toolError, toolNotFound, toolPage, toolSuccess } from "../response.js";
+import {
+    compareRefsOutput,
+    createBranchOutput,
+    createTagOutput,
+    deleteBranchOutput,
+    listBranchesOutput,
+    listTagsOutput
+} from "./output-schemas.js";
 
 export function registerRefTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
     const logger = getLogger();
@@ -33,12 +41,13 @@ export function registerRefTools(server: McpServer, client: BitbucketClient, pat
                 filter: z.string().optional().describe("Filter branches by name (partial match)"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
                 page: z.number().int().min(1).optional().describe("Page number (1-based)"),
-                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)")
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
             },
             outputSchema: listBranchesOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, filter, pagelen, page, all }) => {
+        async({ workspace, repoSlug, filter, pagelen, page, all, cursor }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
@@ -58,11 +67,11 @@ export function registerRefTools(server: McpServer, client: BitbucketClient, pat
 
                 const result = await client.getPaginated(
                     paths.branches(ws, repoSlug),
-                    { pagelen, page, all },
+                    { pagelen, page, all, next: cursorNext(cursor) },
                     extraQuery
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values, result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Repository", `${ws}/${repoSlug}`));
@@ -90,12 +99,13 @@ export function registerRefTools(server: McpServer, client: BitbucketClient, pat
                 filter: z.string().optional().describe("Filter tags by name (partial match)"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
                 page: z.number().int().min(1).optional().describe("Page number (1-based)"),
-                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)")
+                all: z.boolean().optional().describe("Fetch all pages (capped at 1000)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
             },
             outputSchema: listTagsOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, filter, pagelen, page, all }) => {
+        async({ workspace, repoSlug, filter, pagelen, page, all, cursor }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
@@ -115,11 +125,11 @@ export function registerRefTools(server: McpServer, client: BitbucketClient, pat
 
                 const result = await client.getPaginated(
                     paths.tags(ws, repoSlug),
-                    { pagelen, page, all },
+                    { pagelen, page, all, next: cursorNext(cursor) },
                     extraQuery
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values, result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Repository", `${ws}/${repoSlug}`));
@@ -129,4 +139,201 @@ export function registerRefTools(server: McpServer, client: BitbucketClient, pat
             }
         }
     );
+
+    /*
+     * ── createBranch ─────────────────────────────────────────────────────
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/refs/branches
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-refs/#api-repositories-workspace-repo-slug-refs-branches-post
+     * DC:   POST /rest/branch-utils/latest/projects/{projectKey}/repos/{repositorySlug}/branches
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-branch-utils-latest-projects-projectkey-repos-repositoryslug-branches-post
+     */
+    server.registerTool(
+        "createBranch",
+        {
+            description: "Create a branch from a branch, tag or commit",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                name: z.string().describe("Name of the new branch (e.g. feature/login)"),
+                startPoint: z.string().describe("Branch, tag or commit hash to create the branch from")
+            },
+            outputSchema: createBranchOutput,
+            annotations: { readOnlyHint: false }
+        },
+        async({ workspace, repoSlug, name, startPoint }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`createBranch: ${ws}/${repoSlug} ${name} from ${startPoint}`);
+
+            try {
+                const body = paths.isCloud
+                    ? { name, target: { hash: startPoint }}
+                    : { name, startPoint };
+
+                const result = await client.post(paths.branchManagement(ws, repoSlug), body);
+
+                return toMcpResult(toolSuccess(result, "Branch created."));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Repository or start point", `${ws}/${repoSlug}@${startPoint}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── deleteBranch ─────────────────────────────────────────────────────
+     * Cloud: DELETE /2.0/repositories/{workspace}/{repo_slug}/refs/branches/{name}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-refs/#api-repositories-workspace-repo-slug-refs-branches-name-delete
+     * DC:   DELETE /rest/branch-utils/latest/projects/{projectKey}/repos/{repositorySlug}/branches
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-branch-utils-latest-projects-projectkey-repos-repositoryslug-branches-delete
+     */
+    server.registerTool(
+        "deleteBranch",
+        {
+            description: "Delete a branch",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                name: z.string().describe("Name of the branch to delete"),
+                endPoint: z.string().optional().describe("DC only: commit hash the branch must point at, to avoid deleting newer work")
+            },
+            outputSchema: deleteBranchOutput,
+            annotations: { readOnlyHint: false }
+        },
+        async({ workspace, repoSlug, name, endPoint }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`deleteBranch: ${ws}/${repoSlug} ${name}`);
+
+            try {
+                if (paths.isCloud) {
+                    await client.delete(paths.branch(ws, repoSlug, name));
+                } else {
+                    const ref = name.startsWith("refs/") ? name : `refs/heads/${name}`;
+
+                    await client.delete(paths.branchManagement(ws, repoSlug), undefined, { name: ref, endPoint, dryRun: false });
+                }
+
+                return toMcpResult(toolSuccess(true, "Branch deleted."));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Branch", `${ws}/${repoSlug}@${name}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── createTag ────────────────────────────────────────────────────────
+     * Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/refs/tags
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-refs/#api-repositories-workspace-repo-slug-refs-tags-post
+     * DC:   POST /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/tags
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-tags-post
+     */
+    server.registerTool(
+        "createTag",
+        {
+            description: "Create a tag on a branch, tag or commit. With a message the tag is annotated, otherwise lightweight.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                name: z.string().describe("Name of the new tag (e.g. v1.2.0)"),
+                target: z.string().describe("Branch, tag or commit hash to tag"),
+                message: z.string().optional().describe("Tag message; creates an annotated tag when set")
+            },
+            outputSchema: createTagOutput,
+            annotations: { readOnlyHint: false }
+        },
+        async({ workspace, repoSlug, name, target, message }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`createTag: ${ws}/${repoSlug} ${name} at ${target}`);
+
+            try {
+                const body: Record<string, unknown> = paths.isCloud
+                    ? { name, target: { hash: target }}
+                    : { name, startPoint: target };
+
+                if (message) body.message = message;
+
+                const result = await client.post(paths.tags(ws, repoSlug), body);
+
+                return toMcpResult(toolSuccess(result, "Tag created."));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Repository or target", `${ws}/${repoSlug}@${target}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+
+    /*
+     * ── compareRefs ──────────────────────────────────────────────────────
+     * Cloud: GET /2.0/repositories/{workspace}/{repo_slug}/commits?include={source}&exclude={destination} (and reversed)
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commits/#api-repositories-workspace-repo-slug-commits-get
+     * DC:   GET /rest/api/latest/projects/{projectKey}/repos/{repositorySlug}/commits?until={source}&since={destination} (and reversed)
+     *   https://developer.atlassian.com/server/bitbucket/rest/v1000/api-group-repository/#api-api-latest-projects-projectkey-repos-repositoryslug-commits-get
+     */
+    server.registerTool(
+        "compareRefs",
+        {
+            description: "Compare two refs: how many commits `source` is ahead of and behind `destination`, plus the commits only on `source` (newest first). Counts stop at 1000 commits; `complete` is false when a count was capped.",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                repoSlug: z.string().describe("Repository slug"),
+                source: z.string().describe("Branch, tag or commit to compare (e.g. feature/login)"),
+                destination: z.string().describe("Branch, tag or commit to compare against (e.g. main)"),
+                limit: z.number().int().min(0).max(1000).optional().describe("Maximum number of ahead commits to return (default: 25)")
+            },
+            outputSchema: compareRefsOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, repoSlug, source, destination, limit }) => {
+            const ws = resolveWorkspace(workspace);
+
+            if (!ws) return toMcpResult(toolError(new Error("Workspace/project is required.")));
+
+            logger.debug(`compareRefs: ${ws}/${repoSlug} ${source}...${destination}`);
+
+            // Commits reachable from `from` but not from `excluded`
+            const commitsBetween = (from: string, excluded: string) => client.getPaginated<BitbucketCommit | BitbucketDCCommit>(
+                paths.commits(ws, repoSlug),
+                { pagelen: 100, all: true },
+                paths.isCloud ? { include: from, exclude: excluded } : { until: from, since: excluded }
+            );
+
+            try {
+                const ahead = await commitsBetween(source, destination);
+                const behind = await commitsBetween(destination, source);
+
+                return toMcpResult(toolSuccess({
+                    source,
+                    destination,
+                    ahead: ahead.values.length,
+                    behind: behind.values.length,
+                    complete: ahead.next === undefined && behind.next === undefined,
+                    commits: ahead.values.slice(0, limit ?? 25)
+                }));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Repository or ref", `${ws}/${repoSlug}@${source}...${destination}`));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
 }
@@ -7,7 +7,7 @@ import { BitbucketClientError } from "../bitbucket/client.js";
 import type { BitbucketRepository } from "../bitbucket/types.js";
 import type { PathBuilder } from "../bitbucket/utils.js";
 import { getLogger } from "../logger.js";
-import { toMcpResult, toolError, toolNotFound, toolSuccess } from "../response.js";
+import { cursorNext, toMcpResult, toolError, toolNotFound, toolPage, toolSuccess } from "../response.js";
 import { listRepositoriesOutput, getRepositoryOutput } from "./output-schemas.js";
 
 export function registerRepositoryTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
@@ -29,12 +29,13 @@ export function registerRepositoryTools(server: McpServer, client: BitbucketClie
                 name: z.string().optional().describe("Filter repositories by name (partial match)"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page (default: 10, max: 100)"),
                 page: z.number().int().min(1).optional().describe("Page number (1-based)"),
-                all: z.boolean().optional().describe("When true, fetches all pages (capped at 1000 items)")
+                all: z.boolean().optional().describe("When true, fetches all pages (capped at 1000 items)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
             },
             outputSchema: listRepositoriesOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, name, pagelen, page, all }) => {
+        async({ workspace, name, pagelen, page, all, cursor }) => {
             const ws = workspace ?? defaultWorkspace;
 
             if (!ws) {
@@ -56,21 +57,21 @@ export function registerRepositoryTools(server: McpServer, client: BitbucketClie
 
                         const result = await client.getPaginated<BitbucketRepository>(
                             "/repos",
-                            { pagelen, page, all },
+                            { pagelen, page, all, next: cursorNext(cursor) },
                             extraQuery
                         );
 
-                        return toMcpResult(toolSuccess(result.values));
+                        return toMcpResult(toolPage(result.values, result.next));
                     }
                 }
 
                 const result = await client.getPaginated<BitbucketRepository>(
                     paths.repositories(ws),
-                    { pagelen, page, all },
+                    { pagelen, page, all, next: cursorNext(cursor) },
                     extraQuery
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values, result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) return toMcpResult(toolNotFound("Workspace/Project", ws));
 
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { CursorPayload, ToolResponse } from "../response.js";
+import { decodeCursor, toMcpResult, toolFailure, truncateResponse } from "../response.js";
+import type { ToolConfig, ToolHandler } from "./instances.js";
+
+/**
+ * Caps the size of the results of every tool registered on `server` after this call.
+ *
+ * Each tool gets an optional `cursor` input. Array, text and object results larger than `maxBytes`
+ * are truncated (see `truncateResponse`) and carry a cursor that resumes after the last
+ * returned item; calling the tool again with that cursor re-runs it and skips what was already sent.
+ * Tools that declare a `cursor` input themselves (paginated listings) receive it unchanged, so the
+ * same cursor carries both the page position and the offset within the page.
+ */
+export function applyResponseLimit(server: McpServer, maxBytes: number): void {
+    const registerTool = server.registerTool.bind(server) as (name: string, config: ToolConfig, handler: ToolHandler) => ReturnType<McpServer["registerTool"]>;
+
+    server.registerTool = ((name: string, config: ToolConfig, handler: ToolHandler) => {
+        // Paginated tools declare their own `cursor` and read the page position from it
+        const ownsCursor = config.inputSchema !== undefined && "cursor" in config.inputSchema;
+        const inputSchema = ownsCursor
+            ? config.inputSchema
+            : {
+                ...config.inputSchema,
+                cursor: z.string().optional().describe("Continuation cursor returned by a previous truncated call (repeat all other arguments unchanged)")
+            };
+
+        return registerTool(name, { ...config, inputSchema }, async(args, extra) => {
+            const { cursor, ...toolArgs } = args;
+            let position: CursorPayload = {};
+
+            if (typeof cursor === "string") {
+                try {
+                    position = decodeCursor(cursor);
+                } catch (error) {
+                    return toMcpResult(toolFailure(error instanceof Error ? error.message : String(error)));
+                }
+            }
+
+            const result = await handler(ownsCursor ? args : toolArgs, extra);
+            const response = result.structuredContent as ToolResponse | undefined;
+
+            if (!response || result.isError) return result;
+
+            return toMcpResult(truncateResponse(response, maxBytes, position));
+        });
+    }) as typeof server.registerTool;
+}
@@ -0,0 +1,132 @@
+import { z } from "zod";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { BitbucketClient } from "../bitbucket/client.js";
+import { BitbucketClientError } from "../bitbucket/client.js";
+import type {
+    BitbucketCodeSearchResult,
+    BitbucketDCCodeSearchResponse,
+    BitbucketDCCodeSearchResult,
+    CodeSearchHit
+} from "../bitbucket/types.js";
+import type { PathBuilder } from "../bitbucket/utils.js";
+import { getLogger } from "../logger.js";
+import { cursorNext, toMcpResult, toolEmpty, toolError, toolNotFound, toolPage } from "../response.js";
+import { searchCodeOutput } from "./output-schemas.js";
+
+const DEFAULT_PAGE_LEN = 25;
+
+const HTML_ENTITIES: Record<string, string> = { "amp": "&", "lt": "<", "gt": ">", "quot": "\"", "apos": "'", "#39": "'", "#x27": "'" };
+
+/** Cloud hit: lines are split into segments, the matching ones flagged with `match`. */
+function fromCloudResult(result: BitbucketCodeSearchResult): CodeSearchHit {
+    return {
+        repository: result.file.commit?.repository?.full_name,
+        path: result.file.path,
+        matches: result.content_matches.flatMap(match => match.lines).
+            map(line => ({
+                line: line.line,
+                text: line.segments.map(segment => segment.text).join(""),
+                fragments: line.segments.filter(segment => segment.match).map(segment => segment.text)
+            })).
+            filter(line => line.fragments.length > 0)
+    };
+}
+
+/** DC hit: context lines are HTML-escaped with matches wrapped in `<em>`. */
+function fromDataCenterResult(result: BitbucketDCCodeSearchResult): CodeSearchHit {
+    const unescape = (text: string) => text.replace(/&(amp|lt|gt|quot|apos|#39|#x27);/g, (_, entity: string) => HTML_ENTITIES[entity]);
+
+    return {
+        repository: `${result.repository.project.key}/${result.repository.slug}`,
+        path: result.file,
+        matches: result.hitContexts.flat().
+            map(line => ({
+                line: line.line,
+                text: unescape(line.text.replace(/<\/?em>/g, "")),
+                fragments: [...line.text.matchAll(/<em>(.*?)<\/em>/g)].map(match => unescape(match[1]))
+            })).
+            filter(line => line.fragments.length > 0)
+    };
+}
+
+export function registerSearchTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
+    const logger = getLogger();
+
+    /*
+     * ── searchCode ───────────────────────────────────────────────────────
+     * Cloud: GET /2.0/workspaces/{workspace}/search/code?search_query={query}
+     *   https://developer.atlassian.com/cloud/bitbucket/rest/api-group-search/#api-workspaces-workspace-search-code-get
+     * DC:   POST /rest/search/latest/search with { query, entities: { code: { start, limit } } }
+     *   https://confluence.atlassian.com/bitbucketserver/bitbucket-search-syntax-814204781.html
+     */
+    server.registerTool(
+        "searchCode",
+        {
+            description: "Search code across a workspace (Cloud) or project (Data Center), optionally within one repository. Returns file paths with the matching lines and fragments. Requires code search to be enabled (Cloud) or the search server to be configured (DC).",
+            inputSchema: {
+                workspace: z.string().optional().describe("Bitbucket workspace or project key (uses default if omitted)"),
+                query: z.string().describe("Search terms; supports the platform's search syntax (e.g. ext:ts, path:src, lang:java)"),
+                repoSlug: z.string().optional().describe("Only search this repository"),
+                pagelen: z.number().int().min(1).max(100).optional().describe("Number of files per page (default: 25)"),
+                page: z.number().int().min(1).optional().describe("Page number (1-based)"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)")
+            },
+            outputSchema: searchCodeOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async({ workspace, query, repoSlug, pagelen, page, cursor }) => {
+            const ws = workspace ?? defaultWorkspace;
+
+            if (!ws) {
+                return toMcpResult(toolError(new Error("Workspace/project is required. Provide it as a parameter or set BITBUCKET_WORKSPACE.")));
+            }
+
+            logger.debug(`searchCode: ${ws}${repoSlug ? `/${repoSlug}` : ""} "${query}"`);
+
+            try {
+                let hits: CodeSearchHit[];
+                let next: string | number | undefined;
+
+                if (paths.isCloud) {
+                    const result = await client.getPaginated<BitbucketCodeSearchResult>(
+                        paths.codeSearch(ws),
+                        { pagelen: pagelen ?? DEFAULT_PAGE_LEN, page, next: cursorNext(cursor) },
+                        {
+                            search_query: repoSlug ? `${query} repo:${repoSlug}` : query,
+                            fields: "+values.file.commit.repository.full_name"
+                        }
+                    );
+
+                    hits = result.values.map(fromCloudResult);
+                    next = result.next;
+                } else {
+                    // The search REST API is a POST, so page it here rather than through getPaginated
+                    const limit = pagelen ?? DEFAULT_PAGE_LEN;
+                    const position = cursorNext(cursor);
+                    const start = typeof position === "number" ? position : ((page ?? 1) - 1) * limit;
+                    const response = await client.post<BitbucketDCCodeSearchResponse>(paths.codeSearch(ws), {
+                        query: `project:${ws}${repoSlug ? ` repo:${repoSlug}` : ""} ${query}`,
+                        entities: { code: { start, limit }},
+                        limits: { primary: limit, secondary: 10 }
+                    });
+                    const code = response.code;
+
+                    hits = (code?.values ?? []).map(fromDataCenterResult);
+                    next = code && !code.isLastPage ? code.nextStart : undefined;
+                }
+
+                if (hits.length === 0 && next === undefined) return toMcpResult(toolEmpty());
+
+                return toMcpResult(toolPage(hits, next));
+            } catch (error) {
+                if (error instanceof BitbucketClientError && error.statusCode === 404) {
+                    return toMcpResult(toolNotFound("Workspace/Project", ws));
+                }
+
+                return toMcpResult(toolError(error));
+            }
+        }
+    );
+}
@@ -4,10 +4,11 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import type { BitbucketClient } from "../bitbucket/client.js";
 import { BitbucketClientError } from "../bitbucket/client.js";
+import { normalizeTask } from "../bitbucket/models.js";
 import type { BitbucketBlockerComment, BitbucketTask, TaskState } from "../bitbucket/types.js";
 import type { PathBuilder } from "../bitbucket/utils.js";
 import { getLogger } from "../logger.js";
-import { toMcpResult, toolError, toolNotFound, toolSuccess } from "../response.js";
+import { cursorNext, toMcpResult, toolError, toolNotFound, toolPage, toolSuccess } from "../response.js";
 import {
     getPullRequestTasksOutput, createPullRequestTaskOutput, getPullRequestTaskOutput,
     updatePullRequestTaskOutput, deletePullRequestTaskOutput
@@ -39,12 +40,14 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 pagelen: z.number().int().min(1).max(100).optional().describe("Number of items per page"),
                 page: z.number().int().min(1).optional().describe("Page number"),
-                all: z.boolean().optional().describe("Fetch all pages")
+                all: z.boolean().optional().describe("Fetch all pages"),
+                cursor: z.string().optional().describe("Cursor from a previous response to fetch the next page (takes precedence over page)"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload of each task as `raw`")
             },
             outputSchema: getPullRequestTasksOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, pagelen, page, all }) => {
+        async({ workspace, repoSlug, pullRequestId, pagelen, page, all, cursor, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -55,18 +58,18 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                 if (paths.isDataCenter) {
                     const result = await client.getPaginated<BitbucketBlockerComment>(
                         paths.pullRequestTasks(ws, repoSlug, pullRequestId),
-                        { pagelen, page, all }
+                        { pagelen, page, all, next: cursorNext(cursor) }
                     );
 
-                    return toMcpResult(toolSuccess(result.values));
+                    return toMcpResult(toolPage(result.values.map(task => normalizeTask(task, raw)), result.next));
                 }
 
                 const result = await client.getPaginated<BitbucketTask>(
                     paths.pullRequestTasks(ws, repoSlug, pullRequestId),
-                    { pagelen, page, all }
+                    { pagelen, page, all, next: cursorNext(cursor) }
                 );
 
-                return toMcpResult(toolSuccess(result.values));
+                return toMcpResult(toolPage(result.values.map(task => normalizeTask(task, raw)), result.next));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -94,12 +97,13 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 content: z.string().describe("Task content"),
                 commentId: z.number().int().optional().describe("Comment ID to attach the task to (Cloud only)"),
-                state: TaskStateEnum.optional().describe("Initial task state (OPEN or RESOLVED)")
+                state: TaskStateEnum.optional().describe("Initial task state (OPEN or RESOLVED)"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: createPullRequestTaskOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, pullRequestId, content, commentId, state }) => {
+        async({ workspace, repoSlug, pullRequestId, content, commentId, state, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -120,7 +124,7 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                         body
                     );
 
-                    return toMcpResult(toolSuccess(task, "Task created."));
+                    return toMcpResult(toolSuccess(normalizeTask(task, raw), "Task created."));
                 }
 
                 const body: Record<string, unknown> = {
@@ -136,7 +140,7 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                     body
                 );
 
-                return toMcpResult(toolSuccess(task, "Task created."));
+                return toMcpResult(toolSuccess(normalizeTask(task, raw), "Task created."));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Pull Request", `${ws}/${repoSlug}#${pullRequestId}`));
@@ -162,12 +166,13 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                 workspace: z.string().optional().describe("Bitbucket workspace name"),
                 repoSlug: z.string().describe("Repository slug"),
                 pullRequestId: z.number().int().describe("Pull request ID"),
-                taskId: z.number().int().describe("Task ID")
+                taskId: z.number().int().describe("Task ID"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: getPullRequestTaskOutput,
             annotations: { readOnlyHint: true }
         },
-        async({ workspace, repoSlug, pullRequestId, taskId }) => {
+        async({ workspace, repoSlug, pullRequestId, taskId, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -180,14 +185,14 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                         paths.pullRequestTask(ws, repoSlug, pullRequestId, taskId)
                     );
 
-                    return toMcpResult(toolSuccess(task));
+                    return toMcpResult(toolSuccess(normalizeTask(task, raw)));
                 }
 
                 const task = await client.get<BitbucketTask>(
                     paths.pullRequestTask(ws, repoSlug, pullRequestId, taskId)
                 );
 
-                return toMcpResult(toolSuccess(task));
+                return toMcpResult(toolSuccess(normalizeTask(task, raw)));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Task", `${taskId} on PR ${ws}/${repoSlug}#${pullRequestId}`));
@@ -215,12 +220,13 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                 pullRequestId: z.number().int().describe("Pull request ID"),
                 taskId: z.number().int().describe("Task ID"),
                 content: z.string().optional().describe("Updated task content"),
-                state: TaskStateEnum.optional().describe("Updated task state (OPEN or RESOLVED)")
+                state: TaskStateEnum.optional().describe("Updated task state (OPEN or RESOLVED)"),
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
             },
             outputSchema: updatePullRequestTaskOutput,
             annotations: { readOnlyHint: false }
         },
-        async({ workspace, repoSlug, pullRequestId, taskId, content, state }) => {
+        async({ workspace, repoSlug, pullRequestId, taskId, content, state, raw }) => {
             const ws = resolveWorkspace(workspace);
 
             if (!ws) return toMcpResult(toolError(new Error("Workspace is required.")));
@@ -248,7 +254,7 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                         body
                     );
 
-                    return toMcpResult(toolSuccess(task, "Task updated."));
+                    return toMcpResult(toolSuccess(normalizeTask(task, raw), "Task updated."));
                 }
 
                 const body: Record<string, unknown> = {};
@@ -262,7 +268,7 @@ export function registerTaskTools(server: McpServer, client: BitbucketClient, pa
                     body
                 );
 
-                return toMcpResult(toolSuccess(task, "Task updated."));
+                return toMcpResult(toolSuccess(normalizeTask(task, raw), "Task updated."));
             } catch (error) {
                 if (error instanceof BitbucketClientError && error.statusCode === 404) {
                     return toMcpResult(toolNotFound("Task", `${taskId} on PR ${ws}/${repoSlug}#${pullRequestId}`));
@@ -0,0 +1,65 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { ToolConfig } from "./instances.js";
+
+export interface ToolFilterOptions {
+
+    /** Only expose tools annotated with `readOnlyHint: true`. */
+    readOnly: boolean;
+
+    /** Tool names or groups to expose; empty exposes every tool. */
+    enableTools: string[];
+
+    /** Tool names or groups to hide, applied after `enableTools`. */
+    disableTools: string[];
+}
+
+/**
+ * Decides which tools are registered, by name, group (e.g. `comments`) and read-only annotation,
+ * and records the outcome for the startup log.
+ */
+export class ToolFilter {
+    readonly exposed = new Set<string>();
+    readonly hidden = new Set<string>();
+    private readonly known = new Set<string>();
+
+    constructor(private readonly options: ToolFilterOptions) {}
+
+    /** `server`, restricted to the tools of `group` that the options allow. */
+    scope(server: McpServer, group: string): McpServer {
+        const registerTool = server.registerTool.bind(server) as (name: string, config: ToolConfig, ...rest: unknown[]) => unknown;
+
+        this.known.add(group);
+
+        return {
+            registerTool: (name: string, config: ToolConfig, ...rest: unknown[]) => {
+                this.known.add(name);
+
+                if (!this.isEnabled(name, group, config.annotations?.readOnlyHint === true)) {
+                    this.hidden.add(name);
+
+                    return undefined;
+                }
+
+                this.exposed.add(name);
+
+                return registerTool(name, config, ...rest);
+            }
+        } as unknown as McpServer;
+    }
+
+    isEnabled(name: string, group: string, readOnly: boolean): boolean {
+        const { enableTools, disableTools } = this.options;
+
+        if (this.options.readOnly && !readOnly) return false;
+
+        if (enableTools.length > 0 && !enableTools.includes(name) && !enableTools.includes(group)) return false;
+
+        return !disableTools.includes(name) && !disableTools.includes(group);
+    }
+
+    /** Entries of the allow and deny lists that match no registered tool or group (typos). */
+    unknownEntries(): string[] {
+        return [...this.options.enableTools, ...this.options.disableTools].filter(entry => !this.known.has(entry));
+    }
+}
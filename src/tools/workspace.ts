@@ -4,11 +4,12 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import type { BitbucketClient } from "../bitbucket/client.js";
 import { BitbucketClientError } from "../bitbucket/client.js";
+import { normalizeCloudUser } from "../bitbucket/models.js";
 import type { BitbucketAccount, BitbucketWorkspace } from "../bitbucket/types.js";
 import type { PathBuilder } from "../bitbucket/utils.js";
 import { getLogger } from "../logger.js";
 import { toMcpResult, toolError, toolNotFound, toolSuccess } from "../response.js";
-import { getCurrentUserOutput, getWorkspaceOutput } from "./output-schemas.js";
+import { getCurrentUserOutput, getRateLimitStatusOutput, getWorkspaceOutput } from "./output-schemas.js";
 
 export function registerWorkspaceTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
     const logger = getLogger();
@@ -24,18 +25,20 @@ export function registerWorkspaceTools(server: McpServer, client: BitbucketClien
         "getCurrentUser",
         {
             description: "Get the currently authenticated Bitbucket user. Useful for verifying connectivity and credentials.",
-            inputSchema: {},
+            inputSchema: {
+                raw: z.boolean().optional().describe("Also return the original Bitbucket payload as `raw`")
+            },
             outputSchema: getCurrentUserOutput,
             annotations: { readOnlyHint: true }
         },
-        async() => {
+        async({ raw }) => {
             logger.debug("getCurrentUser");
 
             try {
                 if (paths.isCloud) {
                     const user = await client.get<BitbucketAccount>("/user");
 
-                    return toMcpResult(toolSuccess(user, "Authenticated successfully."));
+                    return toMcpResult(toolSuccess(normalizeCloudUser(user, raw), "Authenticated successfully."));
                 }
 
                 // DC: no direct /user endpoint — use /application-properties to verify connectivity
@@ -43,9 +46,10 @@ export function registerWorkspaceTools(server: McpServer, client: BitbucketClien
 
                 // Return server properties as a proxy for auth verification
                 return toMcpResult(toolSuccess({
-                    display_name: "Authenticated User",
-                    type: "user" as const,
-                    ...props
+                    id: null,
+                    username: null,
+                    displayName: "Authenticated User",
+                    server: props
                 }, "Authenticated successfully (Data Center)."));
             } catch (error) {
                 return toMcpResult(toolError(error));
@@ -92,4 +96,31 @@ export function registerWorkspaceTools(server: McpServer, client: BitbucketClien
             }
         }
     );
+
+    /*
+     * ── getRateLimitStatus ───────────────────────────────────────────────
+     * No API call: reports the client-side limiter and the rate-limit headers of the last response
+     * (Cloud: X-RateLimit-Limit, X-RateLimit-NearLimit, X-RateLimit-Resource; DC: X-RateLimit-Limit, X-RateLimit-Remaining)
+     *   https://support.atlassian.com/bitbucket-cloud/docs/api-request-limits/
+     *   https://confluence.atlassian.com/bitbucketserver/improving-instance-stability-with-rate-limiting-976171954.html
+     */
+    server.registerTool(
+        "getRateLimitStatus",
+        {
+            description: "Get the remaining request quota: the server's own rate limiter (requests per hour, in flight, queued) and the rate-limit headers of Bitbucket's last response. Check it before long batches of calls.",
+            inputSchema: {},
+            outputSchema: getRateLimitStatusOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async() => {
+            logger.debug("getRateLimitStatus");
+
+            const status = client.rateLimitStatus();
+            const quota = status.requestsPerHour > 0 ? `${status.availableTokens}/${status.requestsPerHour} requests available` : "No client-side rate limit";
+            const pause = status.pausedUntil ? `, paused until ${status.pausedUntil} after a 429` : "";
+            const near = status.bitbucket?.nearLimit ? "; Bitbucket reports the limit is near" : "";
+
+            return toMcpResult(toolSuccess(status, `${quota}${pause}${near}.`));
+        }
+    );
 }
@@ -120,7 +120,7 @@ describe("Integration: Bitbucket Cloud (mock)", () => {
 
             const user = res.result as Record<string, unknown>;
 
-            expect(user.nickname).toBe("admin");
+            expect(user.username).toBe("admin");
         });
     });
 
@@ -265,8 +265,8 @@ describe("Integration: Bitbucket Data Center (mock)", () => {
             expect(prs.length).toBeGreaterThan(0);
             expect(prs[0]).toHaveProperty("id");
             expect(prs[0]).toHaveProperty("title");
-            expect(prs[0]).toHaveProperty("fromRef");
-            expect(prs[0]).toHaveProperty("toRef");
+            expect(prs[0].source).toEqual({ branch: expect.any(String), commit: expect.any(String), repository: null });
+            expect(prs[0].destination).toEqual({ branch: expect.any(String), commit: expect.any(String), repository: null });
         });
     });
 
@@ -281,8 +281,8 @@ describe("Integration: Bitbucket Data Center (mock)", () => {
             expect(pr.id).toBe(DC_PR_ID);
             expect(pr.title).toBe("Add new feature");
             expect(pr.state).toBe("OPEN");
-            expect(pr).toHaveProperty("fromRef");
-            expect(pr).toHaveProperty("toRef");
+            expect(pr.source).toEqual({ branch: "feature/new-feature", commit: "abc123", repository: null });
+            expect(pr.destination).toEqual({ branch: "master", commit: "def456", repository: null });
         });
 
         it("should return not found for a non-existent PR", async() => {
@@ -639,10 +639,11 @@ describe("Integration: Bitbucket Data Center (mock)", () => {
             expect(res.status).toBe("COMPLETED");
             expect(res.message).toContain("created");
 
-            const task = res.result as { id: number; text: string; severity: string };
+            const task = res.result as { id: number; content: string; state: string };
 
             expect(task.id).toBeDefined();
-            expect(task.severity).toBe("BLOCKER");
+            expect(task.content).toBe("DC integration test task");
+            expect(task.state).toBe("OPEN");
             createdTaskId = task.id;
         });
 
@@ -657,10 +658,10 @@ describe("Integration: Bitbucket Data Center (mock)", () => {
 
             expect(res.status).toBe("COMPLETED");
 
-            const task = res.result as { id: number; text: string };
+            const task = res.result as { id: number; content: string };
 
             expect(task.id).toBe(createdTaskId);
-            expect(task.text).toBe("DC integration test task");
+            expect(task.content).toBe("DC integration test task");
         });
 
         it("updatePullRequestTask should resolve a blocker-comment", async() => {
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { AUTH_SETTING_FLAGS, basicAuth, bearerAuth, createAuthStrategy, missingAuthSettings, resolveAuthMode } from "../../../src/bitbucket/auth.js";
+import { OAuthAuth } from "../../../src/bitbucket/oauth.js";
+
+describe("auth", () => {
+    describe("strategies", () => {
+        it("should build a bearer header", () => {
+            expect(bearerAuth("tok").authorization()).toBe("Bearer tok");
+        });
+
+        it("should build a basic header from username and secret", () => {
+            const auth = basicAuth("me@example.com", "secret", "api-token");
+
+            expect(auth.mode).toBe("api-token");
+            expect(auth.authorization()).toBe(`Basic ${Buffer.from("me@example.com:secret").toString("base64")}`);
+        });
+    });
+
+    describe("resolveAuthMode", () => {
+        it("should keep an explicit mode", () => {
+            expect(resolveAuthMode({ authMode: "basic", token: "t" })).toBe("basic");
+        });
+
+        it("should infer the mode from the credentials", () => {
+            expect(resolveAuthMode({ token: "t" })).toBe("bearer");
+            expect(resolveAuthMode({ username: "u", password: "p" })).toBe("basic");
+            expect(resolveAuthMode({ username: "u", token: "t" })).toBe("api-token");
+            expect(resolveAuthMode({ oauthClientId: "id", oauthClientSecret: "s" })).toBe("oauth");
+            expect(resolveAuthMode({})).toBe("bearer");
+        });
+    });
+
+    describe("missingAuthSettings", () => {
+        it("should name what each mode lacks", () => {
+            expect(missingAuthSettings("bearer", {})).toEqual(["--bitbucket-token or BITBUCKET_TOKEN"]);
+            expect(missingAuthSettings("basic", { username: "u" })).toEqual(["--bitbucket-password or BITBUCKET_PASSWORD"]);
+            expect(missingAuthSettings("api-token", { token: "t" })).toEqual(["--bitbucket-username or BITBUCKET_USERNAME (Atlassian account email)"]);
+            expect(missingAuthSettings("basic", { username: "u", password: "p" })).toEqual([]);
+            expect(missingAuthSettings("oauth", { oauthClientId: "id" })).toEqual(["--oauth-client-secret or BITBUCKET_OAUTH_CLIENT_SECRET"]);
+            expect(missingAuthSettings("api-token", {}, { ...AUTH_SETTING_FLAGS, username: "instances.a.bitbucketUsername" })).
+                toEqual(["instances.a.bitbucketUsername (Atlassian account email)", "--bitbucket-token or BITBUCKET_TOKEN"]);
+        });
+    });
+
+    describe("createAuthStrategy", () => {
+        it("should create the strategy of the resolved mode", () => {
+            expect(createAuthStrategy({ token: "t" }).authorization()).toBe("Bearer t");
+            expect(createAuthStrategy({ username: "u", password: "p" }).authorization()).toBe(`Basic ${Buffer.from("u:p").toString("base64")}`);
+            expect(createAuthStrategy({ username: "u", token: "t" }).mode).toBe("api-token");
+            expect(createAuthStrategy({ oauthClientId: "id", oauthClientSecret: "s" })).toBeInstanceOf(OAuthAuth);
+        });
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, jest, afterEach } from "@jest/globals";
+
+import { ResponseCache } from "../../../src/bitbucket/cache.js";
+
+const BASE = "https://api.bitbucket.org/2.0/repositories/ws/repo";
+
+describe("ResponseCache", () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("should evict the least recently used entry", () => {
+        const cache = new ResponseCache({ maxEntries: 2, ttl: 60_000 });
+
+        cache.store(`${BASE}/pullrequests/1`, "1");
+        cache.store(`${BASE}/pullrequests/2`, "2");
+        cache.lookup(`${BASE}/pullrequests/1`);
+        cache.store(`${BASE}/pullrequests/3`, "3");
+
+        expect(cache.lookup(`${BASE}/pullrequests/1`)?.body).toBe("1");
+        expect(cache.lookup(`${BASE}/pullrequests/2`)).toBeUndefined();
+        expect(cache.stats()).toEqual({ hits: 2, misses: 1, revalidations: 0, size: 2 });
+    });
+
+    it("should evict the least recently used entries beyond the size limit and skip bodies above it", () => {
+        const cache = new ResponseCache({ maxEntries: 10, ttl: 60_000, maxBytes: 10 });
+
+        cache.store(`${BASE}/pullrequests/1`, "aaaa");
+        cache.store(`${BASE}/pullrequests/2`, "bbbb");
+        cache.store(`${BASE}/pullrequests/3`, "cccc");
+
+        expect(cache.lookup(`${BASE}/pullrequests/1`)).toBeUndefined();
+        expect(cache.stats().size).toBe(2);
+
+        cache.store(`${BASE}/pullrequests/4/diff`, "d".repeat(11));
+
+        expect(cache.lookup(`${BASE}/pullrequests/4/diff`)).toBeUndefined();
+        expect(cache.lookup(`${BASE}/pullrequests/2`)?.body).toBe("bbbb");
+        expect(cache.lookup(`${BASE}/pullrequests/3`)?.body).toBe("cccc");
+    });
+
+    it("should drop expired entries without an ETag and keep those with one for revalidation", () => {
+        jest.useFakeTimers({ now: 0 });
+
+        const cache = new ResponseCache({ maxEntries: 10, ttl: 1000 });
+
+        cache.store(`${BASE}/pullrequests/1`, "plain");
+        cache.store(`${BASE}/pullrequests/2`, "tagged", "\"abc\"");
+        jest.setSystemTime(1000);
+
+        expect(cache.lookup(`${BASE}/pullrequests/1`)).toBeUndefined();
+
+        const stale = cache.lookup(`${BASE}/pullrequests/2`)!;
+
+        expect(stale).toEqual({ body: "tagged", etag: "\"abc\"", expiresAt: 1000 });
+
+        cache.revalidated(`${BASE}/pullrequests/2`, stale);
+
+        expect(stale.expiresAt).toBe(2000);
+        expect(cache.stats()).toEqual({ hits: 0, misses: 2, revalidations: 1, size: 1 });
+    });
+
+    it("should apply per-path TTLs", () => {
+        jest.useFakeTimers({ now: 0 });
+
+        const cache = new ResponseCache({ maxEntries: 10, ttl: 1000, rules: [{ pattern: /\/diff$/, ttl: 5000 }] });
+
+        cache.store(`${BASE}/pullrequests/1/diff`, "diff");
+        cache.store(`${BASE}/pullrequests/1`, "pr");
+        jest.setSystemTime(2000);
+
+        expect(cache.lookup(`${BASE}/pullrequests/1/diff`)?.body).toBe("diff");
+        expect(cache.lookup(`${BASE}/pullrequests/1`)).toBeUndefined();
+    });
+
+    it("should cache commits by full hash longer by default", () => {
+        jest.useFakeTimers({ now: 0 });
+
+        const cache = new ResponseCache({ maxEntries: 10, ttl: 1000 });
+
+        cache.store(`${BASE}/commit/${"a".repeat(40)}`, "commit");
+        cache.store(BASE, "repo");
+        cache.store(`${BASE}/commits?branch=main`, "commits");
+        jest.setSystemTime(60_000);
+
+        expect(cache.lookup(`${BASE}/commit/${"a".repeat(40)}`)).toBeDefined();
+        expect(cache.lookup(BASE)).toBeUndefined();
+        expect(cache.lookup(`${BASE}/commits?branch=main`)).toBeUndefined();
+    });
+
+    it("should invalidate the entries of a pull request and the pull request listings on mutation", () => {
+        const cache = new ResponseCache({ maxEntries: 10, ttl: 60_000 });
+        const urls = [
+            `${BASE}/pullrequests/1`,
+            `${BASE}/pullrequests/1/diff`,
+            `${BASE}/pullrequests/1/comments?pagelen=10`,
+            `${BASE}/pullrequests?state=OPEN`,
+            `${BASE}/pullrequests/12`,
+            BASE
+        ];
+
+        for (const url of urls) cache.store(url, url);
+
+        cache.invalidate(`${BASE}/pullrequests/1/merge`);
+
+        expect(urls.filter(url => cache.lookup(url))).toEqual([`${BASE}/pullrequests/12`, BASE]);
+    });
+
+    it("should invalidate a whole repository across DC REST APIs", () => {
+        const cache = new ResponseCache({ maxEntries: 10, ttl: 60_000 });
+        const dc = "https://git.example.com/rest";
+        const urls = [
+            `${dc}/api/latest/projects/PROJ/repos/repo/branches`,
+            `${dc}/api/latest/projects/PROJ/repos/repo-2/branches`,
+            `${dc}/api/latest/projects/PROJ/repos/repo/pull-requests/3`
+        ];
+
+        for (const url of urls) cache.store(url, url);
+
+        cache.invalidate(`${dc}/branch-utils/latest/projects/PROJ/repos/repo/branches`);
+
+        expect(urls.filter(url => cache.lookup(url))).toEqual([`${dc}/api/latest/projects/PROJ/repos/repo-2/branches`]);
+    });
+
+    it("should only invalidate the entries under the path of a write outside any repository", () => {
+        const cache = new ResponseCache({ maxEntries: 10, ttl: 60_000 });
+        const dc = "https://git.example.com/rest";
+        const commit = "a".repeat(40);
+        const urls = [
+            `${dc}/build-status/1.0/commits/${commit}?limit=25`,
+            `${dc}/build-status/1.0/commits/${"b".repeat(40)}`,
+            `${dc}/api/latest/projects/PROJ/repos/repo/pull-requests/3`
+        ];
+
+        for (const url of urls) cache.store(url, url);
+
+        cache.invalidate(`${dc}/build-status/1.0/commits/${commit}`);
+
+        expect(urls.filter(url => cache.lookup(url))).toEqual(urls.slice(1));
+    });
+});
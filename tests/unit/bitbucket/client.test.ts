@@ -1,6 +1,7 @@
-import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import { describe, it, expect, jest, beforeEach, afterEach } from "@jest/globals";
 
-import { BitbucketClient, BitbucketClientError } from "../../../src/bitbucket/client.js";
+import { basicAuth } from "../../../src/bitbucket/auth.js";
+import { BitbucketClient, BitbucketClientError, DryRunInterrupt, recordRequests, type RecordedRequest } from "../../../src/bitbucket/client.js";
 
 // Mock global fetch
 const mockFetch = jest.fn();
@@ -195,6 +196,117 @@ describe("BitbucketClient", () => {
                 })
             );
         });
+
+        it("should send an optional JSON body", async() => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true
+            });
+
+            await client.delete("/repositories/ws/repo/refs/branches", undefined, { name: "refs/heads/x" });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                "https://api.bitbucket.org/2.0/repositories/ws/repo/refs/branches",
+                expect.objectContaining({
+                    method: "DELETE",
+                    headers: { "Authorization": "Bearer test-token", "Content-Type": "application/json" },
+                    body: JSON.stringify({ name: "refs/heads/x" })
+                })
+            );
+        });
+    });
+
+    describe("auth strategy", () => {
+        it("should send the Authorization header of the configured strategy", async() => {
+            const basicClient = new BitbucketClient({
+                baseUrl: "https://api.bitbucket.org/2.0",
+                auth: basicAuth("me@example.com", "api-token", "api-token"),
+                timeout: 5000,
+                platform: "cloud"
+            });
+
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async() => ({}) });
+
+            await basicClient.get("/user");
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                "https://api.bitbucket.org/2.0/user",
+                expect.objectContaining({ headers: { Authorization: `Basic ${Buffer.from("me@example.com:api-token").toString("base64")}` }})
+            );
+        });
+
+        it("should name the auth mode when authentication fails", async() => {
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized", text: async() => "" });
+
+            await expect(client.get("/user")).rejects.toThrow("auth mode: bearer");
+        });
+
+        it("should refresh the credentials and retry once on 401", async() => {
+            const refresh = jest.fn(async() => true);
+            const refreshingClient = new BitbucketClient({
+                baseUrl: "https://api.bitbucket.org/2.0",
+                auth: { mode: "oauth", authorization: async() => `Bearer ${refresh.mock.calls.length > 0 ? "new" : "old"}`, refresh },
+                timeout: 5000,
+                maxRetries: 0,
+                platform: "cloud"
+            });
+
+            mockFetch.
+                mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized", text: async() => "" }).
+                mockResolvedValueOnce({ ok: true, json: async() => ({ uuid: "u" }) });
+
+            expect(await refreshingClient.get("/user")).toEqual({ uuid: "u" });
+            expect(refresh).toHaveBeenCalledTimes(1);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                "https://api.bitbucket.org/2.0/user",
+                expect.objectContaining({ headers: { Authorization: "Bearer new" }})
+            );
+        });
+
+        it("should not retry when the credentials cannot be refreshed", async() => {
+            const refreshingClient = new BitbucketClient({
+                baseUrl: "https://api.bitbucket.org/2.0",
+                auth: { mode: "oauth", authorization: () => "Bearer old", refresh: async() => false },
+                timeout: 5000,
+                maxRetries: 0,
+                platform: "cloud"
+            });
+
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized", text: async() => "" });
+
+            await expect(refreshingClient.get("/user")).rejects.toThrow("auth mode: oauth");
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("REST API base path", () => {
+        const dcClient = () => new BitbucketClient({
+            baseUrl: "https://bitbucket.example.com/context/rest/api/latest",
+            token: "test-token",
+            timeout: 5000,
+            platform: "datacenter"
+        });
+
+        it("should resolve DC /rest/ paths against the server root", async() => {
+            mockFetch.mockResolvedValueOnce({ ok: true, text: async() => "{}" });
+
+            await dcClient().post("/rest/branch-utils/latest/projects/PL/repos/r/branches", { name: "x" });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                "https://bitbucket.example.com/context/rest/branch-utils/latest/projects/PL/repos/r/branches",
+                expect.anything()
+            );
+        });
+
+        it("should keep other DC paths under the core REST API", async() => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async() => ({}) });
+
+            await dcClient().get("/projects/PL/repos/r");
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                "https://bitbucket.example.com/context/rest/api/latest/projects/PL/repos/r",
+                expect.anything()
+            );
+        });
     });
 
     describe("getPaginated", () => {
@@ -260,6 +372,73 @@ describe("BitbucketClient", () => {
             expect(result.values).toHaveLength(1);
             expect(mockFetch).toHaveBeenCalledTimes(1);
         });
+
+        it("should return the Cloud next link and resume from it", async() => {
+            const next = "https://api.bitbucket.org/2.0/repositories/ws?page=2&pagelen=2";
+
+            mockFetch.
+                mockResolvedValueOnce({ ok: true, json: async() => ({ values: [{ slug: "repo1" }], pagelen: 1, next }) }).
+                mockResolvedValueOnce({ ok: true, json: async() => ({ values: [{ slug: "repo2" }], pagelen: 1 }) });
+
+            const first = await client.getPaginated("/repositories/ws", { pagelen: 1 });
+
+            expect(first.next).toBe(next);
+
+            const second = await client.getPaginated("/repositories/ws", { pagelen: 1, page: 5, next: first.next });
+
+            expect(mockFetch).toHaveBeenLastCalledWith(next, expect.objectContaining({ method: "GET" }));
+            expect(second.values).toEqual([{ slug: "repo2" }]);
+            expect(second.next).toBeUndefined();
+        });
+
+        it("should refuse to follow a next link outside the configured API", async() => {
+            await expect(client.getPaginated("/repositories/ws", { next: "https://evil.example.com/2.0/steal" })).
+                rejects.toThrow("Invalid pagination cursor");
+            await expect(client.getPaginated("/repositories/ws", { next: "https://api.bitbucket.org/2.0.evil.com/x" })).
+                rejects.toThrow("Invalid pagination cursor");
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it("should return the DC nextPageStart and resume from it", async() => {
+            const dcClient = new BitbucketClient({
+                baseUrl: "https://bitbucket.example.com/rest/api/latest",
+                token: "test-token",
+                timeout: 5000,
+                platform: "datacenter"
+            });
+
+            mockFetch.
+                mockResolvedValueOnce({ ok: true, json: async() => ({ values: [{ id: 1 }], size: 1, limit: 1, start: 0, isLastPage: false, nextPageStart: 1 }) }).
+                mockResolvedValueOnce({ ok: true, json: async() => ({ values: [{ id: 2 }], size: 1, limit: 1, start: 1, isLastPage: true }) });
+
+            const first = await dcClient.getPaginated("/projects/PRJ/repos", { pagelen: 1 });
+
+            expect(first.next).toBe(1);
+
+            const second = await dcClient.getPaginated("/projects/PRJ/repos", { pagelen: 1, next: first.next });
+
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                "https://bitbucket.example.com/rest/api/latest/projects/PRJ/repos?limit=1&start=1",
+                expect.anything()
+            );
+            expect(second.next).toBeUndefined();
+        });
+
+        it("should return a next position when all=true stops at the cap", async() => {
+            const values = Array.from({ length: 100 }, (_, i) => ({ id: i }));
+
+            for (let i = 0; i < 10; i++) {
+                mockFetch.mockResolvedValueOnce({
+                    ok: true,
+                    json: async() => ({ values, pagelen: 100, next: `https://api.bitbucket.org/2.0/repositories/ws?page=${i + 2}` })
+                });
+            }
+
+            const result = await client.getPaginated("/repositories/ws", { all: true });
+
+            expect(result.values).toHaveLength(1000);
+            expect(result.next).toBe("https://api.bitbucket.org/2.0/repositories/ws?page=11");
+        });
     });
 
     describe("retry logic", () => {
@@ -297,6 +476,36 @@ describe("BitbucketClient", () => {
             expect(mockFetch).toHaveBeenCalledTimes(2);
         });
 
+        it("should wait for Retry-After instead of the backoff delay", async() => {
+            const slowBackoffClient = new BitbucketClient({ baseUrl: "https://api.bitbucket.org/2.0", token: "t", timeout: 5000, platform: "cloud", retryDelay: 60_000 });
+
+            mockFetch.
+                mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ "Retry-After": "0" }), text: async() => "" }).
+                mockResolvedValueOnce({ ok: true, json: async() => ({ status: "ok" }) });
+
+            expect(await slowBackoffClient.get("/repositories/ws")).toEqual({ status: "ok" });
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it("should not retry when Retry-After is too long and report it", async() => {
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ "Retry-After": "3600" }), text: async() => "" });
+
+            await expect(retryClient.get("/repositories/ws")).rejects.toThrow("Bitbucket rate limit exceeded (429), retry in 3600s");
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it("should expose Bitbucket's rate-limit headers", async() => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                headers: new Headers({ "X-RateLimit-Limit": "1000", "X-RateLimit-NearLimit": "true", "X-RateLimit-Resource": "api" }),
+                json: async() => ({})
+            });
+
+            await retryClient.get("/repositories/ws");
+
+            expect(retryClient.rateLimitStatus().bitbucket).toEqual(expect.objectContaining({ limit: 1000, nearLimit: true, resource: "api" }));
+        });
+
         it("should retry on 500 and fail after max retries", async() => {
             const mock500 = { ok: false, status: 500, statusText: "Internal Server Error", text: async() => "error" };
 
@@ -343,10 +552,119 @@ describe("BitbucketClient", () => {
             expect(result).toEqual({ status: "ok" });
             expect(mockFetch).toHaveBeenCalledTimes(2);
         });
+
+        it("should not retry a timed out request", async() => {
+            mockFetch.mockRejectedValueOnce(new DOMException("The operation was aborted due to timeout", "TimeoutError"));
+
+            await expect(retryClient.get("/repositories/ws")).rejects.toThrow(/timeout/);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("response cache", () => {
+        const PR_URL = "https://api.bitbucket.org/2.0/repositories/ws/repo/pullrequests/1";
+        const okResponse = (body: unknown, etag?: string) => ({
+            ok: true,
+            status: 200,
+            headers: new Headers(etag ? { etag } : {}),
+            text: async() => JSON.stringify(body)
+        });
+        let cachedClient: BitbucketClient;
+
+        beforeEach(() => {
+            cachedClient = new BitbucketClient({
+                baseUrl: "https://api.bitbucket.org/2.0",
+                token: "test-token",
+                timeout: 5000,
+                platform: "cloud",
+                cache: { maxEntries: 10, ttl: 60_000 }
+            });
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("should serve repeated GET requests from the cache", async() => {
+            mockFetch.mockResolvedValueOnce(okResponse({ id: 1 }));
+
+            expect(await cachedClient.get("/repositories/ws/repo/pullrequests/1")).toEqual({ id: 1 });
+            expect(await cachedClient.get("/repositories/ws/repo/pullrequests/1")).toEqual({ id: 1 });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it("should revalidate stale entries with If-None-Match", async() => {
+            jest.useFakeTimers({ now: 0, doNotFake: ["setTimeout"] });
+            mockFetch.
+                mockResolvedValueOnce(okResponse("diff", "\"v1\"")).
+                mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+            await cachedClient.getText("/repositories/ws/repo/pullrequests/1/diff");
+            jest.setSystemTime(60_000);
+
+            expect(await cachedClient.getText("/repositories/ws/repo/pullrequests/1/diff")).toBe("\"diff\"");
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                `${PR_URL}/diff`,
+                expect.objectContaining({ headers: { "Authorization": "Bearer test-token", "If-None-Match": "\"v1\"" }})
+            );
+        });
+
+        it("should invalidate the pull request after a mutating request", async() => {
+            mockFetch.
+                mockResolvedValueOnce(okResponse({ state: "OPEN" })).
+                mockResolvedValueOnce(okResponse({ state: "MERGED" })).
+                mockResolvedValueOnce(okResponse({ state: "MERGED" }));
+
+            await cachedClient.get("/repositories/ws/repo/pullrequests/1");
+            await cachedClient.post("/repositories/ws/repo/pullrequests/1/merge");
+
+            expect(await cachedClient.get("/repositories/ws/repo/pullrequests/1")).toEqual({ state: "MERGED" });
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it("should not cache failed requests", async() => {
+            mockFetch.
+                mockResolvedValueOnce({ ok: false, status: 404, statusText: "Not Found", text: async() => "" }).
+                mockResolvedValueOnce(okResponse({ id: 1 }));
+
+            await expect(cachedClient.get("/repositories/ws/repo/pullrequests/1")).rejects.toThrow(BitbucketClientError);
+            expect(await cachedClient.get("/repositories/ws/repo/pullrequests/1")).toEqual({ id: 1 });
+        });
+    });
+
+    describe("recordRequests", () => {
+        it("should send GET requests but record mutating ones instead of sending them", async() => {
+            const requests: RecordedRequest[] = [];
+
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async() => ({ state: "OPEN" }) });
+
+            await expect(recordRequests(requests, async() => {
+                await client.get("/repositories/ws/repo/pullrequests/1");
+                await client.post("/repositories/ws/repo/pullrequests/1/merge", { merge_strategy: "squash" });
+            })).rejects.toBeInstanceOf(DryRunInterrupt);
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(requests).toEqual([
+                {
+                    method: "POST",
+                    url: "https://api.bitbucket.org/2.0/repositories/ws/repo/pullrequests/1/merge",
+                    body: { merge_strategy: "squash" }
+                }
+            ]);
+        });
+
+        it("should not affect requests made outside of it", async() => {
+            mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+            await recordRequests([], async() => undefined);
+            await client.delete("/repositories/ws/repo/pullrequests/1/comments/2");
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
     });
 
     describe("constructor", () => {
-        it("should strip trailing slashes from base URL", () => {
+        it("should strip trailing slashes from base URL", async() => {
             const c = new BitbucketClient({
                 baseUrl: "https://api.bitbucket.org/2.0///",
                 token: "token",
@@ -358,7 +676,7 @@ describe("BitbucketClient", () => {
                 json: async() => ({})
             });
 
-            c.get("/repositories/ws");
+            await c.get("/repositories/ws");
 
             expect(mockFetch).toHaveBeenCalledWith(
                 "https://api.bitbucket.org/2.0/repositories/ws",
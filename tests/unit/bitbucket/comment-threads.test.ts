@@ -0,0 +1,92 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { buildCloudThreads, buildDataCenterThreads, filterThreads } from "../../../src/bitbucket/comment-threads.js";
+import type { BitbucketComment } from "../../../src/bitbucket/types.js";
+
+const bob = { name: "bob", displayName: "Bob" };
+const ann = { name: "ann", displayName: "Ann" };
+
+describe("buildDataCenterThreads", () => {
+    it("should flatten nested replies in date order and attach blocker comments as tasks", () => {
+        const threads = buildDataCenterThreads([
+            {
+                action: "COMMENTED",
+                commentAction: "ADDED",
+                commentAnchor: { path: "src/a.ts", line: 7, lineType: "REMOVED", fileType: "FROM", orphaned: true },
+                comment: {
+                    id: 1,
+                    text: "Why?",
+                    author: bob,
+                    createdDate: 1000,
+                    comments: [
+                        { id: 2, text: "Because", author: ann, createdDate: 3000, comments: [{ id: 4, text: "OK", author: bob, createdDate: 4000 }] },
+                        { id: 3, text: "Fix the name", author: bob, createdDate: 2000, severity: "BLOCKER", state: "OPEN" }
+                    ]
+                }
+            },
+            { action: "COMMENTED", commentAction: "REPLIED", comment: { id: 2, text: "Because", author: ann }},
+            { action: "COMMENTED", commentAction: "ADDED", comment: { id: 5, text: "Standalone task", author: bob, severity: "BLOCKER" }},
+            { action: "APPROVED" }
+        ]);
+
+        expect(threads).toEqual([
+            {
+                root: { id: 1, parentId: null, author: { id: null, username: "bob", displayName: "Bob" }, content: "Why?", createdOn: "1970-01-01T00:00:01.000Z", updatedOn: null },
+                replies: [
+                    expect.objectContaining({ id: 2, parentId: 1, content: "Because" }),
+                    expect.objectContaining({ id: 4, parentId: 2, content: "OK" })
+                ],
+                anchor: { path: "src/a.ts", from: 7, to: null },
+                resolved: false,
+                outdated: true,
+                deleted: false,
+                tasks: [{ id: 3, content: "Fix the name", state: "OPEN" }]
+            }
+        ]);
+    });
+
+    it("should read the resolution of a thread", () => {
+        const threads = buildDataCenterThreads([
+            { action: "COMMENTED", commentAction: "ADDED", comment: { id: 1, text: "a", author: bob, threadResolved: true }},
+            { action: "COMMENTED", commentAction: "ADDED", comment: { id: 2, text: "b", author: bob, state: "RESOLVED" }},
+            { action: "COMMENTED", commentAction: "ADDED", comment: { id: 3, text: "c", author: bob, state: "OPEN" }}
+        ]);
+
+        expect(threads.map(thread => thread.resolved)).toEqual([true, true, false]);
+    });
+});
+
+describe("buildCloudThreads", () => {
+    const comment = (id: number, extra: Partial<BitbucketComment> = {}) => ({
+        id,
+        content: { raw: `comment ${id}` },
+        user: { display_name: "Bob", type: "user" },
+        created_on: `2026-01-0${id}T00:00:00Z`,
+        deleted: false,
+        ...extra
+    }) as BitbucketComment;
+
+    it("should attach replies of replies to the root and keep deleted roots only when answered", () => {
+        const threads = buildCloudThreads([
+            comment(1, { deleted: true }),
+            comment(2, { parent: { id: 1 }}),
+            comment(3, { parent: { id: 2 }}),
+            comment(4, { deleted: true })
+        ]);
+
+        expect(threads).toHaveLength(1);
+        expect(threads[0]).toEqual(expect.objectContaining({ deleted: true, replies: [expect.objectContaining({ id: 2, parentId: 1 }), expect.objectContaining({ id: 3, parentId: 2 })] }));
+    });
+});
+
+describe("filterThreads", () => {
+    it("should only keep general threads when filtering by path", () => {
+        const threads = buildCloudThreads([
+            { id: 1, content: { raw: "general" }, deleted: false } as BitbucketComment,
+            { id: 2, content: { raw: "inline" }, deleted: false, inline: { path: "a.ts", to: 1 }} as BitbucketComment
+        ]);
+
+        expect(filterThreads(threads, { path: "a.ts" }).map(thread => thread.root.id)).toEqual([2]);
+        expect(filterThreads(threads, { author: "nobody" })).toEqual([]);
+    });
+});
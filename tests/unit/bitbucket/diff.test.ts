@@ -0,0 +1,234 @@
+import { describe, it, expect } from "@jest/globals";
+
+import {
+    filterUnifiedDiff,
+    formatUnifiedDiff,
+    fromDataCenterDiff,
+    globToRegExp,
+    matchesPathFilter,
+    parseUnifiedDiff
+} from "../../../src/bitbucket/diff.js";
+
+describe("parseUnifiedDiff", () => {
+    it("should map lines to their old and new line numbers", () => {
+        const diff = [
+            "diff --git a/src/app.ts b/src/app.ts",
+            "index 1111111..2222222 100644",
+            "--- a/src/app.ts",
+            "+++ b/src/app.ts",
+            "@@ -10,4 +10,5 @@ function main() {",
+            " const a = 1;",
+            "-const b = 2;",
+            "+const b = 3;",
+            "+const c = 4;",
+            " const d = 5;",
+            " return a;"
+        ].join("\n");
+
+        const files = parseUnifiedDiff(diff);
+
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatchObject({ path: "src/app.ts", oldPath: "src/app.ts", newPath: "src/app.ts", status: "modified", binary: false });
+        expect(files[0].hunks[0]).toMatchObject({ oldStart: 10, oldLines: 4, newStart: 10, newLines: 5 });
+        expect(files[0].hunks[0].lines).toEqual([
+            { type: "context", oldLine: 10, newLine: 10, content: "const a = 1;" },
+            { type: "removed", oldLine: 11, newLine: null, content: "const b = 2;" },
+            { type: "added", oldLine: null, newLine: 11, content: "const b = 3;" },
+            { type: "added", oldLine: null, newLine: 12, content: "const c = 4;" },
+            { type: "context", oldLine: 12, newLine: 13, content: "const d = 5;" },
+            { type: "context", oldLine: 13, newLine: 14, content: "return a;" }
+        ]);
+    });
+
+    it("should track line numbers across multiple hunks and files", () => {
+        const diff = [
+            "diff --git a/a.ts b/a.ts",
+            "--- a/a.ts",
+            "+++ b/a.ts",
+            "@@ -1 +1 @@",
+            "-old",
+            "+new",
+            "@@ -20,2 +20,3 @@",
+            " x",
+            "+y",
+            " z",
+            "diff --git a/b.ts b/b.ts",
+            "--- a/b.ts",
+            "+++ b/b.ts",
+            "@@ -5,1 +5,0 @@",
+            "-gone"
+        ].join("\n");
+
+        const files = parseUnifiedDiff(diff);
+
+        expect(files.map(file => file.path)).toEqual(["a.ts", "b.ts"]);
+        expect(files[0].hunks).toHaveLength(2);
+        expect(files[0].hunks[1].lines[1]).toEqual({ type: "added", oldLine: null, newLine: 21, content: "y" });
+        expect(files[1].hunks[0].lines).toEqual([{ type: "removed", oldLine: 5, newLine: null, content: "gone" }]);
+    });
+
+    it("should not mistake removed lines starting with dashes for file headers", () => {
+        const diff = [
+            "diff --git a/notes.md b/notes.md",
+            "--- a/notes.md",
+            "+++ b/notes.md",
+            "@@ -1,2 +1,1 @@",
+            "--- a list item",
+            " keep"
+        ].join("\n");
+
+        const files = parseUnifiedDiff(diff);
+
+        expect(files).toHaveLength(1);
+        expect(files[0].hunks[0].lines[0]).toEqual({ type: "removed", oldLine: 1, newLine: null, content: "-- a list item" });
+    });
+
+    it("should detect added, removed, renamed and binary files", () => {
+        const diff = [
+            "diff --git a/new.ts b/new.ts",
+            "new file mode 100644",
+            "--- /dev/null",
+            "+++ b/new.ts",
+            "@@ -0,0 +1 @@",
+            "+hello",
+            "\\ No newline at end of file",
+            "diff --git a/old.ts b/old.ts",
+            "deleted file mode 100644",
+            "--- a/old.ts",
+            "+++ /dev/null",
+            "@@ -1 +0,0 @@",
+            "-bye",
+            "diff --git a/before.ts b/after.ts",
+            "similarity index 100%",
+            "rename from before.ts",
+            "rename to after.ts",
+            "diff --git a/logo.png b/logo.png",
+            "Binary files a/logo.png and b/logo.png differ"
+        ].join("\n");
+
+        const files = parseUnifiedDiff(diff);
+
+        expect(files.map(({ path, oldPath, newPath, status, binary }) => ({ path, oldPath, newPath, status, binary }))).toEqual([
+            { path: "new.ts", oldPath: null, newPath: "new.ts", status: "added", binary: false },
+            { path: "old.ts", oldPath: "old.ts", newPath: null, status: "removed", binary: false },
+            { path: "after.ts", oldPath: "before.ts", newPath: "after.ts", status: "renamed", binary: false },
+            { path: "logo.png", oldPath: "logo.png", newPath: "logo.png", status: "modified", binary: true }
+        ]);
+        expect(files[0].hunks[0].lines).toEqual([{ type: "added", oldLine: null, newLine: 1, content: "hello" }]);
+    });
+
+    it("should return an empty list for an empty diff", () => {
+        expect(parseUnifiedDiff("")).toEqual([]);
+    });
+});
+
+describe("fromDataCenterDiff", () => {
+    it("should map DC segments to typed lines", () => {
+        const files = fromDataCenterDiff({
+            diffs: [
+                {
+                    source: { components: ["src", "app.ts"], toString: "src/app.ts" },
+                    destination: { components: ["src", "app.ts"], toString: "src/app.ts" },
+                    hunks: [
+                        {
+                            sourceLine: 10,
+                            sourceSpan: 2,
+                            destinationLine: 10,
+                            destinationSpan: 2,
+                            segments: [
+                                { type: "CONTEXT", lines: [{ source: 10, destination: 10, line: "a" }] },
+                                { type: "REMOVED", lines: [{ source: 11, destination: 11, line: "b" }] },
+                                { type: "ADDED", lines: [{ source: 12, destination: 11, line: "c" }] }
+                            ]
+                        }
+                    ]
+                },
+                {
+                    source: null,
+                    destination: { components: ["new.ts"], toString: "new.ts" },
+                    hunks: []
+                }
+            ]
+        });
+
+        expect(files[0]).toMatchObject({ path: "src/app.ts", status: "modified" });
+        expect(files[0].hunks[0].header).toBe("@@ -10,2 +10,2 @@");
+        expect(files[0].hunks[0].lines).toEqual([
+            { type: "context", oldLine: 10, newLine: 10, content: "a" },
+            { type: "removed", oldLine: 11, newLine: null, content: "b" },
+            { type: "added", oldLine: null, newLine: 11, content: "c" }
+        ]);
+        expect(files[1]).toMatchObject({ path: "new.ts", oldPath: null, status: "added" });
+    });
+});
+
+describe("globToRegExp", () => {
+    it("should keep single stars within a path segment", () => {
+        expect(globToRegExp("src/*.ts").test("src/a.ts")).toBe(true);
+        expect(globToRegExp("src/*.ts").test("src/sub/a.ts")).toBe(false);
+    });
+
+    it("should match across directories with double stars", () => {
+        expect(globToRegExp("src/**").test("src/sub/a.ts")).toBe(true);
+        expect(globToRegExp("**/*.test.ts").test("a.test.ts")).toBe(true);
+        expect(globToRegExp("**/*.test.ts").test("tests/unit/a.test.ts")).toBe(true);
+    });
+
+    it("should match patterns without a slash against the file name", () => {
+        expect(globToRegExp("*.lock").test("yarn.lock")).toBe(true);
+        expect(globToRegExp("*.lock").test("deep/dir/Cargo.lock")).toBe(true);
+        expect(globToRegExp("*.lock").test("lockfile.txt")).toBe(false);
+    });
+
+    it("should escape regex characters", () => {
+        expect(globToRegExp("a+b.(c)").test("a+b.(c)")).toBe(true);
+        expect(globToRegExp("a.c").test("abc")).toBe(false);
+    });
+});
+
+describe("matchesPathFilter", () => {
+    it("should match everything without filters", () => {
+        expect(matchesPathFilter(["a.ts"], {})).toBe(true);
+    });
+
+    it("should let exclude win over include", () => {
+        expect(matchesPathFilter(["src/gen/a.ts"], { include: ["src/**"], exclude: ["**/gen/**"] })).toBe(false);
+    });
+
+    it("should match when either the old or the new path matches", () => {
+        expect(matchesPathFilter(["old/a.ts", "new/a.ts"], { include: ["old/**"] })).toBe(true);
+    });
+});
+
+describe("filterUnifiedDiff", () => {
+    const diff = "diff --git a/a.ts b/a.ts\n@@ -1 +1 @@\n-a\n+b\ndiff --git a/b.md b/b.md\n@@ -1 +1 @@\n-c\n+d\n";
+
+    it("should keep the raw text of matching files", () => {
+        expect(filterUnifiedDiff(diff, { include: ["*.md"] })).toBe("diff --git a/b.md b/b.md\n@@ -1 +1 @@\n-c\n+d\n");
+    });
+
+    it("should return the diff unchanged without filters", () => {
+        expect(filterUnifiedDiff(diff, {})).toBe(diff);
+    });
+});
+
+describe("formatUnifiedDiff", () => {
+    it("should round-trip through parseUnifiedDiff", () => {
+        const diff = [
+            "diff --git a/new.ts b/new.ts",
+            "new file mode 100644",
+            "--- /dev/null",
+            "+++ b/new.ts",
+            "@@ -0,0 +1,2 @@",
+            "+one",
+            "+two",
+            ""
+        ].join("\n");
+
+        expect(formatUnifiedDiff(parseUnifiedDiff(diff))).toBe(diff);
+    });
+
+    it("should render binary files without hunks", () => {
+        expect(formatUnifiedDiff([{ path: "a.png", oldPath: "a.png", newPath: "a.png", status: "modified", binary: true, hunks: [] }])).toBe("diff --git a/a.png b/a.png\nBinary files a/a.png and b/a.png differ\n");
+    });
+});
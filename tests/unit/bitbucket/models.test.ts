@@ -0,0 +1,118 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { normalizeComment, normalizePullRequest, normalizeTask } from "../../../src/bitbucket/models.js";
+import type {
+    BitbucketBlockerComment, BitbucketComment, BitbucketDCComment, BitbucketDCPullRequest, BitbucketPullRequest, BitbucketTask
+} from "../../../src/bitbucket/types.js";
+import { CommentSchema, PullRequestSchema, TaskSchema } from "../../../src/tools/output-schemas.js";
+
+describe("normalizePullRequest", () => {
+    it("should normalize a Data Center pull request", () => {
+        const pr = {
+            id: 4,
+            version: 2,
+            title: "Fix",
+            state: "OPEN",
+            author: { user: { name: "ann", displayName: "Ann", id: 11 }, role: "AUTHOR", approved: false, status: "UNAPPROVED" },
+            reviewers: [
+                { user: { name: "bob", displayName: "Bob" }, role: "REVIEWER", approved: false, status: "NEEDS_WORK" },
+                { user: { name: "cy", displayName: "Cy" }, role: "REVIEWER", approved: false, status: "UNAPPROVED" }
+            ],
+            createdDate: 0,
+            fromRef: { id: "refs/heads/fix", displayId: "fix", latestCommit: "abc", repository: { slug: "r", project: { key: "PL" }}},
+            toRef: { id: "refs/heads/main", displayId: "main", latestCommit: "def" },
+            links: { self: [{ href: "https://bitbucket.example.com/projects/PL/repos/r/pull-requests/4" }] }
+        } as BitbucketDCPullRequest;
+
+        expect(normalizePullRequest(pr)).toEqual({
+            id: 4,
+            title: "Fix",
+            description: "",
+            state: "OPEN",
+            draft: false,
+            author: { id: "11", username: "ann", displayName: "Ann" },
+            source: { branch: "fix", commit: "abc", repository: "PL/r" },
+            destination: { branch: "main", commit: "def", repository: null },
+            reviewers: [
+                { user: { id: null, username: "bob", displayName: "Bob" }, state: "changes_requested" },
+                { user: { id: null, username: "cy", displayName: "Cy" }, state: "pending" }
+            ],
+            createdOn: "1970-01-01T00:00:00.000Z",
+            updatedOn: null,
+            url: "https://bitbucket.example.com/projects/PL/repos/r/pull-requests/4"
+        });
+    });
+
+    it("should normalize a Cloud pull request to the same shape, keeping the payload on request", () => {
+        const pr = {
+            id: 7,
+            title: "Add login",
+            description: "Adds a form",
+            state: "MERGED",
+            draft: false,
+            author: { uuid: "{u-1}", display_name: "Ann", nickname: "ann", type: "user" },
+            source: { branch: { name: "login" }, commit: { hash: "abc" }, repository: { full_name: "ws/app" }},
+            destination: { branch: { name: "main" }, commit: { hash: "def" }, repository: { full_name: "ws/app" }},
+            reviewers: [{ uuid: "{u-2}", display_name: "Bob", type: "user" }],
+            participants: [
+                { user: { uuid: "{u-2}", display_name: "Bob", type: "user" }, role: "REVIEWER", approved: true },
+                { user: { uuid: "{u-3}", display_name: "Cy", type: "user" }, role: "PARTICIPANT", approved: false, state: "changes_requested" },
+                { user: { uuid: "{u-4}", display_name: "Di", type: "user" }, role: "PARTICIPANT", approved: false }
+            ],
+            created_on: "2026-01-01T00:00:00Z",
+            updated_on: "2026-01-02T00:00:00Z",
+            links: { html: { href: "https://bitbucket.org/ws/app/pull-requests/7" }}
+        } as unknown as BitbucketPullRequest;
+
+        const normalized = normalizePullRequest(pr, true);
+
+        expect(normalized).toEqual(expect.objectContaining({
+            author: { id: "{u-1}", username: "ann", displayName: "Ann" },
+            source: { branch: "login", commit: "abc", repository: "ws/app" },
+            reviewers: [
+                { user: { id: "{u-2}", username: null, displayName: "Bob" }, state: "approved" },
+                { user: { id: "{u-3}", username: null, displayName: "Cy" }, state: "changes_requested" }
+            ],
+            url: "https://bitbucket.org/ws/app/pull-requests/7",
+            raw: pr
+        }));
+        expect(() => PullRequestSchema.parse(normalized)).not.toThrow();
+    });
+});
+
+describe("normalizeComment", () => {
+    it("should read the anchor, resolution and outdated state on both platforms", () => {
+        const cloud = normalizeComment({
+            id: 1,
+            content: { raw: "Why?" },
+            user: { display_name: "Bob", nickname: "bob", type: "user" },
+            inline: { path: "src/a.ts", to: 3, outdated: true },
+            parent: { id: 9 },
+            resolution: { type: "comment_resolution" },
+            deleted: false
+        } as unknown as BitbucketComment);
+        const dc = normalizeComment({
+            id: 2,
+            text: "Why?",
+            author: { name: "bob", displayName: "Bob" },
+            createdDate: 1000,
+            anchor: { path: "src/a.ts", line: 5, lineType: "REMOVED", fileType: "FROM", orphaned: true },
+            threadResolved: true
+        } as BitbucketDCComment);
+
+        expect(cloud).toEqual(expect.objectContaining({ parentId: 9, content: "Why?", anchor: { path: "src/a.ts", from: null, to: 3 }, resolved: true, outdated: true }));
+        expect(dc).toEqual(expect.objectContaining({ parentId: null, createdOn: "1970-01-01T00:00:01.000Z", anchor: { path: "src/a.ts", from: 5, to: null }, resolved: true, outdated: true }));
+        expect(() => CommentSchema.parse(dc)).not.toThrow();
+    });
+});
+
+describe("normalizeTask", () => {
+    it("should map Cloud UNRESOLVED tasks and DC blocker comments to OPEN", () => {
+        const cloud = normalizeTask({ id: 1, state: "UNRESOLVED", content: { raw: "Rename" }, comment: { id: 4 }} as unknown as BitbucketTask);
+        const dc = normalizeTask({ id: 2, text: "Add a test", state: "OPEN", severity: "BLOCKER", author: { name: "ann", displayName: "Ann" }, createdDate: 0 } as unknown as BitbucketBlockerComment);
+
+        expect(cloud).toEqual({ id: 1, content: "Rename", state: "OPEN", author: null, commentId: 4, createdOn: null, updatedOn: null });
+        expect(dc).toEqual(expect.objectContaining({ content: "Add a test", state: "OPEN", author: { id: null, username: "ann", displayName: "Ann" }, commentId: null }));
+        expect(() => TaskSchema.parse(dc)).not.toThrow();
+    });
+});
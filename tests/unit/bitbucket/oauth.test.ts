@@ -0,0 +1,178 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { get } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { OAuthAuth, OAuthAuthorizationRequiredError, OAuthTokenStore } from "../../../src/bitbucket/oauth.js";
+
+const mockFetch = jest.fn<typeof fetch>();
+
+global.fetch = mockFetch;
+
+function tokenResponse(accessToken: string, expiresIn = 7200) {
+    return {
+        ok: true,
+        json: async() => ({ access_token: accessToken, refresh_token: "refresh-2", expires_in: expiresIn, token_type: "bearer" })
+    } as Response;
+}
+
+/** GET a loopback URL with node:http, since fetch is mocked. */
+function callLoopback(url: string): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+        get(url, res => {
+            let body = "";
+
+            res.on("data", chunk => {
+                body += chunk;
+            });
+            res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+        }).on("error", reject);
+    });
+}
+
+describe("OAuth", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async() => {
+        mockFetch.mockReset();
+        dir = await mkdtemp(join(tmpdir(), "oauth-test-"));
+        file = join(dir, "nested", "tokens.json");
+    });
+
+    afterEach(async() => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe("OAuthTokenStore", () => {
+        it("should round-trip tokens without storing them in clear", async() => {
+            const store = new OAuthTokenStore(file, "secret");
+            const tokens = { accessToken: "access-1", refreshToken: "refresh-1", expiresAt: 123 };
+
+            await store.save(tokens);
+
+            const raw = await readFile(file, "utf8");
+
+            expect(raw).not.toContain("access-1");
+            expect(raw).not.toContain("refresh-1");
+            expect(await store.load()).toEqual(tokens);
+        });
+
+        it("should return undefined when no file exists", async() => {
+            expect(await new OAuthTokenStore(file, "secret").load()).toBeUndefined();
+        });
+
+        it("should reject a file encrypted with another key", async() => {
+            await new OAuthTokenStore(file, "secret").save({ accessToken: "a", refreshToken: "r", expiresAt: 1 });
+
+            await expect(new OAuthTokenStore(file, "other").load()).rejects.toThrow(/Cannot decrypt OAuth token file/);
+        });
+    });
+
+    describe("OAuthAuth", () => {
+        it("should use stored tokens that have not expired", async() => {
+            const store = new OAuthTokenStore(file, "secret");
+
+            await store.save({ accessToken: "access-1", refreshToken: "refresh-1", expiresAt: Date.now() + 3600_000 });
+
+            const auth = new OAuthAuth({ clientId: "id", clientSecret: "secret", store, openBrowser: false });
+
+            expect(await auth.authorization()).toBe("Bearer access-1");
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it("should refresh an expired access token and persist the new tokens", async() => {
+            const store = new OAuthTokenStore(file, "secret");
+
+            await store.save({ accessToken: "access-1", refreshToken: "refresh-1", expiresAt: Date.now() - 1000 });
+            mockFetch.mockResolvedValueOnce(tokenResponse("access-2"));
+
+            const auth = new OAuthAuth({ clientId: "id", clientSecret: "secret", store, openBrowser: false, tokenUrl: "https://example.test/token" });
+
+            expect(await auth.authorization()).toBe("Bearer access-2");
+            expect(mockFetch).toHaveBeenCalledWith(
+                "https://example.test/token",
+                expect.objectContaining({
+                    method: "POST",
+                    headers: expect.objectContaining({ Authorization: `Basic ${Buffer.from("id:secret").toString("base64")}` }),
+                    body: "grant_type=refresh_token&refresh_token=refresh-1"
+                })
+            );
+            expect((await store.load())?.refreshToken).toBe("refresh-2");
+        });
+
+        it("should report a failed refresh so the caller does not retry", async() => {
+            const store = new OAuthTokenStore(file, "secret");
+
+            await store.save({ accessToken: "access-1", refreshToken: "revoked", expiresAt: Date.now() + 3600_000 });
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 400, statusText: "Bad Request", text: async() => "invalid_grant" } as Response);
+
+            const auth = new OAuthAuth({ clientId: "id", clientSecret: "secret", store, openBrowser: false });
+
+            await auth.authorization();
+
+            expect(await auth.refresh()).toBe(false);
+        });
+
+        it("should require a new authorization when an expired token cannot be refreshed", async() => {
+            const store = new OAuthTokenStore(file, "secret");
+
+            await store.save({ accessToken: "access-1", refreshToken: "revoked", expiresAt: Date.now() - 1000 });
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 400, statusText: "Bad Request", text: async() => "invalid_grant" } as Response);
+
+            const auth = new OAuthAuth({ clientId: "id", clientSecret: "secret", store, redirectPort: 0, openBrowser: false });
+
+            try {
+                await expect(auth.authorization()).rejects.toBeInstanceOf(OAuthAuthorizationRequiredError);
+            } finally {
+                auth.close();
+            }
+        });
+
+        it("should require authorization and complete it through the loopback redirect", async() => {
+            const store = new OAuthTokenStore(file, "secret");
+            const auth = new OAuthAuth({
+                clientId: "id",
+                clientSecret: "secret",
+                store,
+                redirectPort: 0,
+                openBrowser: false,
+                authorizeUrl: "https://example.test/authorize"
+            });
+
+            try {
+                const error = await auth.authorization().catch((e: unknown) => e);
+
+                expect(error).toBeInstanceOf(OAuthAuthorizationRequiredError);
+
+                const authorizeUrl = new URL((error as OAuthAuthorizationRequiredError).authorizeUrl);
+
+                expect(authorizeUrl.origin + authorizeUrl.pathname).toBe("https://example.test/authorize");
+                expect(authorizeUrl.searchParams.get("client_id")).toBe("id");
+                expect(authorizeUrl.searchParams.get("response_type")).toBe("code");
+
+                const redirectUri = authorizeUrl.searchParams.get("redirect_uri")!;
+                const state = authorizeUrl.searchParams.get("state")!;
+
+                expect(redirectUri).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+
+                expect((await callLoopback(`${redirectUri}?code=abc&state=wrong`)).status).toBe(400);
+
+                mockFetch.mockResolvedValueOnce(tokenResponse("access-1"));
+
+                const response = await callLoopback(`${redirectUri}?code=abc&state=${state}`);
+
+                expect(response.status).toBe(200);
+                expect(mockFetch).toHaveBeenCalledWith(
+                    expect.any(String),
+                    expect.objectContaining({ body: new URLSearchParams({ grant_type: "authorization_code", code: "abc", redirect_uri: redirectUri }).toString() })
+                );
+                expect(await auth.authorization()).toBe("Bearer access-1");
+                expect((await store.load())?.accessToken).toBe("access-1");
+            } finally {
+                auth.close();
+            }
+        });
+    });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { rollupBuildStatuses, summarizeChangedFiles } from "../../../src/bitbucket/overview.js";
+
+describe("rollupBuildStatuses", () => {
+    it("should report in-progress builds unless one failed, and none without builds", () => {
+        expect(rollupBuildStatuses([]).state).toBe("NONE");
+        expect(rollupBuildStatuses([{ key: "a", state: "SUCCESSFUL", url: "" }, { key: "b", state: "INPROGRESS", url: "" }]).state).toBe("INPROGRESS");
+        expect(rollupBuildStatuses([{ key: "a", state: "STOPPED", url: "" }, { key: "b", state: "INPROGRESS", url: "" }])).toEqual(expect.objectContaining({ state: "FAILED", failing: ["a"] }));
+    });
+});
+
+describe("summarizeChangedFiles", () => {
+    it("should map Data Center change types", () => {
+        const path = (value: string) => ({ components: value.split("/"), toString: value });
+
+        expect(summarizeChangedFiles([
+            { path: path("src/new.ts"), type: "ADD" },
+            { path: path("src/moved.ts"), srcPath: path("src/old.ts"), type: "MOVE" }
+        ])).toEqual([{ path: "src/new.ts", status: "added" }, { path: "src/moved.ts", status: "renamed" }]);
+    });
+});
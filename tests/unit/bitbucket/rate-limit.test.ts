@@ -0,0 +1,118 @@
+import { describe, it, expect, jest, afterEach } from "@jest/globals";
+
+import { parseRetryAfter, RateLimiter } from "../../../src/bitbucket/rate-limit.js";
+
+describe("RateLimiter", () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("should let requests through without waiting when unlimited", async() => {
+        const limiter = new RateLimiter({ requestsPerHour: 0, maxConcurrency: 0 });
+        const releases = await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+        expect(limiter.status()).toEqual(expect.objectContaining({ inFlight: 3, queued: 0, availableTokens: undefined }));
+
+        releases.forEach(release => release());
+
+        expect(limiter.status().inFlight).toBe(0);
+    });
+
+    it("should queue requests beyond the concurrency limit and hand slots over on release", async() => {
+        const limiter = new RateLimiter({ requestsPerHour: 0, maxConcurrency: 1 });
+        const first = await limiter.acquire();
+        let secondStarted = false;
+        const second = limiter.acquire().then(release => {
+            secondStarted = true;
+
+            return release;
+        });
+
+        await Promise.resolve();
+
+        expect(secondStarted).toBe(false);
+        expect(limiter.status()).toEqual(expect.objectContaining({ inFlight: 1, queued: 1 }));
+
+        first();
+        first();
+        (await second)();
+
+        expect(secondStarted).toBe(true);
+        expect(limiter.status()).toEqual(expect.objectContaining({ inFlight: 0, queued: 0 }));
+    });
+
+    it("should wait for the bucket to refill once the hourly budget is spent", async() => {
+        jest.useFakeTimers({ now: 0 });
+
+        const limiter = new RateLimiter({ requestsPerHour: 2, maxConcurrency: 0 });
+
+        (await limiter.acquire())();
+        (await limiter.acquire())();
+
+        expect(limiter.status().availableTokens).toBe(0);
+
+        let started = false;
+        const third = limiter.acquire().then(release => {
+            started = true;
+            release();
+        });
+
+        await jest.advanceTimersByTimeAsync(1_799_000);
+
+        expect(started).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        await third;
+
+        expect(started).toBe(true);
+    });
+
+    it("should hold back requests while paused", async() => {
+        jest.useFakeTimers({ now: 0 });
+
+        const limiter = new RateLimiter({ requestsPerHour: 0, maxConcurrency: 0 });
+
+        limiter.pause(5000);
+
+        expect(limiter.status().pausedUntil).toBe(new Date(5000).toISOString());
+
+        let started = false;
+        const request = limiter.acquire().then(() => {
+            started = true;
+        });
+
+        await jest.advanceTimersByTimeAsync(4999);
+
+        expect(started).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(1);
+        await request;
+
+        expect(started).toBe(true);
+    });
+
+    it("should record Bitbucket's rate-limit headers", () => {
+        const limiter = new RateLimiter({ requestsPerHour: 0, maxConcurrency: 0 });
+
+        limiter.observe(new Headers());
+
+        expect(limiter.status().bitbucket).toBeUndefined();
+
+        limiter.observe(new Headers({ "X-RateLimit-Limit": "1000", "X-RateLimit-Remaining": "12" }));
+
+        expect(limiter.status().bitbucket).toEqual(expect.objectContaining({ limit: 1000, remaining: 12, nearLimit: undefined }));
+    });
+});
+
+describe("parseRetryAfter", () => {
+    it("should accept seconds and HTTP dates", () => {
+        jest.useFakeTimers({ now: Date.parse("2026-01-01T00:00:00Z") });
+
+        expect(parseRetryAfter("30")).toBe(30_000);
+        expect(parseRetryAfter("Thu, 01 Jan 2026 00:01:00 GMT")).toBe(60_000);
+        expect(parseRetryAfter("soon")).toBeUndefined();
+        expect(parseRetryAfter(null)).toBeUndefined();
+
+        jest.useRealTimers();
+    });
+});
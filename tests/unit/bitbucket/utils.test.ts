@@ -1,6 +1,6 @@
 import { describe, it, expect } from "@jest/globals";
 
-import { normalizeBaseUrl, extractWorkspaceFromUrl, buildQueryString, detectPlatform, PathBuilder } from "../../../src/bitbucket/utils.js";
+import { normalizeBaseUrl, extractWorkspaceFromUrl, buildQueryString, detectPlatform, encodeFilePath, PathBuilder } from "../../../src/bitbucket/utils.js";
 
 describe("detectPlatform", () => {
     it("should detect bitbucket.org as cloud", () => {
@@ -126,6 +126,16 @@ describe("buildQueryString", () => {
     });
 });
 
+describe("encodeFilePath", () => {
+    it("should encode each segment but keep separators", () => {
+        expect(encodeFilePath("src/my file#1.ts")).toBe("src/my%20file%231.ts");
+    });
+
+    it("should drop leading and trailing slashes", () => {
+        expect(encodeFilePath("/docs/")).toBe("docs");
+    });
+});
+
 describe("PathBuilder", () => {
     describe("Cloud", () => {
         const paths = new PathBuilder("cloud");
@@ -137,6 +147,48 @@ describe("PathBuilder", () => {
         it("should use /tasks/{id} path for pullRequestTask", () => {
             expect(paths.pullRequestTask("ws", "repo", 1, 42)).toBe("/repositories/ws/repo/pullrequests/1/tasks/42");
         });
+
+        it("should put the ref in the /src path for fileContent and browse", () => {
+            expect(paths.fileContent("ws", "repo", "main", "src/a.ts")).toBe("/repositories/ws/repo/src/main/src/a.ts");
+            expect(paths.browse("ws", "repo", "main")).toBe("/repositories/ws/repo/src/main/");
+            expect(paths.browse("ws", "repo", "main", "src")).toBe("/repositories/ws/repo/src/main/src/");
+        });
+
+        it("should use the PR /diff path for the structured diff", () => {
+            expect(paths.pullRequestDiffStructured("ws", "repo", 1)).toBe("/repositories/ws/repo/pullrequests/1/diff");
+        });
+
+        it("should list the pull requests of a user by UUID", () => {
+            expect(paths.userPullRequests("{abc}")).toBe("/pullrequests/%7Babc%7D");
+        });
+
+        it("should build commit paths", () => {
+            expect(paths.commits("ws", "repo")).toBe("/repositories/ws/repo/commits");
+            expect(paths.commit("ws", "repo", "abc")).toBe("/repositories/ws/repo/commit/abc");
+            expect(paths.commitDiff("ws", "repo", "abc", "ignored.ts")).toBe("/repositories/ws/repo/diff/abc");
+            expect(paths.commitDiffStat("ws", "repo", "abc")).toBe("/repositories/ws/repo/diffstat/abc");
+        });
+
+        it("should build commit build status paths", () => {
+            expect(paths.commitBuildStatuses("ws", "repo", "abc")).toBe("/repositories/ws/repo/commit/abc/statuses");
+            expect(paths.commitBuildStatus("ws", "repo", "abc")).toBe("/repositories/ws/repo/commit/abc/statuses/build");
+        });
+
+        it("should build the workspace code search path", () => {
+            expect(paths.codeSearch("ws")).toBe("/workspaces/ws/search/code");
+        });
+
+        it("should build pipeline paths with encoded UUIDs", () => {
+            expect(paths.pipelines("ws", "repo")).toBe("/repositories/ws/repo/pipelines");
+            expect(paths.pipelineSteps("ws", "repo", "{p1}")).toBe("/repositories/ws/repo/pipelines/%7Bp1%7D/steps");
+            expect(paths.pipelineStepLog("ws", "repo", "{p1}", "{s1}")).toBe("/repositories/ws/repo/pipelines/%7Bp1%7D/steps/%7Bs1%7D/log");
+            expect(paths.pipelineStop("ws", "repo", "{p1}")).toBe("/repositories/ws/repo/pipelines/%7Bp1%7D/stopPipeline");
+        });
+
+        it("should build branch management paths under /refs/branches", () => {
+            expect(paths.branchManagement("ws", "repo")).toBe("/repositories/ws/repo/refs/branches");
+            expect(paths.branch("ws", "repo", "feature/x")).toBe("/repositories/ws/repo/refs/branches/feature%2Fx");
+        });
     });
 
     describe("Data Center", () => {
@@ -149,5 +201,40 @@ describe("PathBuilder", () => {
         it("should use /blocker-comments/{id} path for pullRequestTask", () => {
             expect(paths.pullRequestTask("PL", "my-repo", 1, 42)).toBe("/projects/PL/repos/my-repo/pull-requests/1/blocker-comments/42");
         });
+
+        it("should use /raw and /browse for fileContent and browse", () => {
+            expect(paths.fileContent("PL", "my-repo", "main", "src/a.ts")).toBe("/projects/PL/repos/my-repo/raw/src/a.ts");
+            expect(paths.browse("PL", "my-repo", "main")).toBe("/projects/PL/repos/my-repo/browse");
+            expect(paths.browse("PL", "my-repo", "main", "src")).toBe("/projects/PL/repos/my-repo/browse/src");
+        });
+
+        it("should use the JSON /diff path for the structured diff", () => {
+            expect(paths.pullRequestDiffStructured("PL", "my-repo", 1)).toBe("/projects/PL/repos/my-repo/pull-requests/1/diff");
+        });
+
+        it("should list the pull requests of the user from the dashboard", () => {
+            expect(paths.userPullRequests("ignored")).toBe("/dashboard/pull-requests");
+        });
+
+        it("should build commit paths", () => {
+            expect(paths.commits("PL", "my-repo")).toBe("/projects/PL/repos/my-repo/commits");
+            expect(paths.commit("PL", "my-repo", "abc")).toBe("/projects/PL/repos/my-repo/commits/abc");
+            expect(paths.commitDiff("PL", "my-repo", "abc")).toBe("/projects/PL/repos/my-repo/commits/abc/diff");
+            expect(paths.commitDiff("PL", "my-repo", "abc", "src/a.ts")).toBe("/projects/PL/repos/my-repo/commits/abc/diff/src/a.ts");
+            expect(paths.commitDiffStat("PL", "my-repo", "abc")).toBe("/projects/PL/repos/my-repo/commits/abc/changes");
+        });
+
+        it("should use the search REST API for code search", () => {
+            expect(paths.codeSearch("PL")).toBe("/rest/search/latest/search");
+        });
+
+        it("should use the build-status REST API for commit build statuses", () => {
+            expect(paths.commitBuildStatuses("PL", "my-repo", "abc")).toBe("/rest/build-status/1.0/commits/abc");
+            expect(paths.commitBuildStatus("PL", "my-repo", "abc")).toBe("/rest/build-status/1.0/commits/abc");
+        });
+
+        it("should use the branch-utils REST API for branch management", () => {
+            expect(paths.branchManagement("PL", "my-repo")).toBe("/rest/branch-utils/latest/projects/PL/repos/my-repo/branches");
+        });
     });
 });
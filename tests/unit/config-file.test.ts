@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { loadConfigFile } from "../../src/config-file.js";
+
+describe("loadConfigFile", () => {
+    let dir: string;
+
+    const write = (name: string, content: string) => {
+        const file = join(dir, name);
+
+        writeFileSync(file, content);
+
+        return file;
+    };
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "config-file-test-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should apply the selected profile over the top-level settings", () => {
+        const file = write("config.yaml", [
+            "bitbucketUrl: https://api.bitbucket.org/2.0",
+            "bitbucketToken: base",
+            "logLevel: warn",
+            "profiles:",
+            "  ci:",
+            "    bitbucketToken: ci-token",
+            "    caFile: certs/ca.pem"
+        ].join("\n"));
+
+        expect(loadConfigFile(file)).toEqual(expect.objectContaining({ bitbucketToken: "base", logLevel: "warn" }));
+        expect(loadConfigFile(file, "ci")).toEqual(expect.objectContaining({
+            bitbucketUrl: "https://api.bitbucket.org/2.0",
+            bitbucketToken: "ci-token",
+            logLevel: "warn",
+            caFile: join(dir, "certs", "ca.pem")
+        }));
+    });
+
+    it("should read YAML flow sequences, comments and numeric-looking strings", () => {
+        const file = write("config.yaml", [
+            "host: it's # bound to all interfaces",
+            "bitbucketToken: 0123",
+            "bitbucketPassword: true",
+            "timeout: 15000",
+            "insecure: false",
+            "allowedOrigins: [a, \"b,c\"]"
+        ].join("\n"));
+
+        expect(loadConfigFile(file)).toEqual(expect.objectContaining({
+            host: "it's",
+            bitbucketToken: "0123",
+            bitbucketPassword: "true",
+            timeout: 15000,
+            insecure: false,
+            allowedOrigins: ["a", "b,c"]
+        }));
+    });
+
+    it("should report the line of invalid YAML", () => {
+        const file = write("config.yaml", "timeout: 1\ntimeout: 2\n");
+
+        expect(() => loadConfigFile(file)).toThrow(/Cannot read config file .*line 2/);
+    });
+
+    it("should name the available profiles when the selected one is unknown", () => {
+        const file = write("config.json", JSON.stringify({ profiles: { dev: {}, prod: {}}}));
+
+        expect(() => loadConfigFile(file, "staging")).toThrow(`Unknown profile "staging" in config file ${file}. Available profiles: dev, prod`);
+    });
+
+    it("should point to the offending key", () => {
+        const file = write("config.yml", "profiles:\n  ci:\n    timeout: soon\n");
+
+        expect(() => loadConfigFile(file)).toThrow(/profiles\.ci\.timeout: Expected number, received string/);
+    });
+});
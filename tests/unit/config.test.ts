@@ -1,4 +1,7 @@
-import { describe, it, expect } from "@jest/globals";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 import { parseConfig } from "../../src/config.js";
 
@@ -13,34 +16,48 @@ describe("parseConfig", () => {
     it("should parse valid CLI arguments with defaults", () => {
         const config = parseConfig(validArgs);
 
-        expect(config.bitbucketUrl).toBe("https://api.bitbucket.org/2.0");
-        expect(config.bitbucketToken).toBe("my-api-token");
-        expect(config.defaultWorkspace).toBeUndefined();
-        expect(config.insecure).toBe(false);
+        expect(config.instances[0].bitbucketUrl).toBe("https://api.bitbucket.org/2.0");
+        expect(config.instances[0].bitbucketToken).toBe("my-api-token");
+        expect(config.instances[0].defaultWorkspace).toBeUndefined();
+        expect(config.instances[0].insecure).toBe(false);
         expect(config.logLevel).toBe("info");
         expect(config.timeout).toBe(30000);
         expect(config.maxRetries).toBe(3);
         expect(config.retryDelay).toBe(1000);
         expect(config.transport).toBe("stdio");
         expect(config.port).toBe(3000);
+        expect(config.maxResponseSize).toBe(100000);
+        expect(config.instances).toHaveLength(1);
+        expect(config.instances[0].name).toBe("default");
+        expect(config.defaultInstance).toBe("default");
+    });
+
+    it("should parse --max-response-size option", () => {
+        const config = parseConfig([...validArgs, "--max-response-size", "0"]);
+
+        expect(config.maxResponseSize).toBe(0);
+    });
+
+    it("should throw for an invalid --max-response-size", () => {
+        expect(() => parseConfig([...validArgs, "--max-response-size", "-5"])).toThrow("Invalid max response size");
     });
 
     it("should parse --bitbucket-url option", () => {
         const config = parseConfig([...validArgs, "--bitbucket-url", "https://bitbucket.mycompany.com"]);
 
-        expect(config.bitbucketUrl).toBe("https://bitbucket.mycompany.com");
+        expect(config.instances[0].bitbucketUrl).toBe("https://bitbucket.mycompany.com");
     });
 
     it("should parse --default-workspace option", () => {
         const config = parseConfig([...validArgs, "--default-workspace", "my-workspace"]);
 
-        expect(config.defaultWorkspace).toBe("my-workspace");
+        expect(config.instances[0].defaultWorkspace).toBe("my-workspace");
     });
 
     it("should parse --insecure flag", () => {
         const config = parseConfig([...validArgs, "--insecure"]);
 
-        expect(config.insecure).toBe(true);
+        expect(config.instances[0].insecure).toBe(true);
     });
 
     it("should parse --log-level option", () => {
@@ -62,6 +79,94 @@ describe("parseConfig", () => {
         ])).toThrow(/Missing required configuration.*bitbucket-token/);
     });
 
+    it("should default to bearer auth with a token", () => {
+        const config = parseConfig(validArgs);
+
+        expect(config.instances[0].authMode).toBe("bearer");
+    });
+
+    it("should infer basic auth from username and password", () => {
+        const config = parseConfig(["node", "index.js", "--bitbucket-username", "me", "--bitbucket-password", "app-password"]);
+
+        expect(config.instances[0].authMode).toBe("basic");
+        expect(config.instances[0].bitbucketUsername).toBe("me");
+        expect(config.instances[0].bitbucketPassword).toBe("app-password");
+    });
+
+    it("should explain what an explicit auth mode is missing", () => {
+        expect(() => parseConfig([...validArgs, "--auth-mode", "api-token"])).
+            toThrow("Missing required configuration for auth mode \"api-token\": --bitbucket-username or BITBUCKET_USERNAME (Atlassian account email)");
+        expect(() => parseConfig(["node", "index.js", "--auth-mode", "basic", "--bitbucket-username", "me"])).
+            toThrow(/auth mode "basic".*--bitbucket-password/);
+    });
+
+    it("should infer oauth from the consumer credentials", () => {
+        const config = parseConfig(["node", "index.js", "--oauth-client-id", "key", "--oauth-client-secret", "secret"]);
+
+        expect(config.instances[0].authMode).toBe("oauth");
+        expect(config.instances[0].oauthRedirectPort).toBe(8977);
+        expect(config.instances[0].oauthTokenFile).toBeUndefined();
+    });
+
+    it("should reject oauth on Data Center", () => {
+        expect(() => parseConfig([
+            "node",
+            "index.js",
+            "--bitbucket-url",
+            "https://git.example.com",
+            "--oauth-client-id",
+            "key",
+            "--oauth-client-secret",
+            "secret"
+        ])).toThrow(/only supported on Bitbucket Cloud/);
+    });
+
+    it("should parse --read-only and the tool lists", () => {
+        const config = parseConfig([...validArgs, "--read-only", "--enable-tools", "pull-requests, comments", "--disable-tools", "addPullRequestComment"]);
+
+        expect(config.readOnly).toBe(true);
+        expect(config.enableTools).toEqual(["pull-requests", "comments"]);
+        expect(config.disableTools).toEqual(["addPullRequestComment"]);
+        expect(parseConfig(validArgs)).toEqual(expect.objectContaining({ readOnly: false, enableTools: [], disableTools: [] }));
+    });
+
+    it("should parse the cache settings", () => {
+        expect(parseConfig(validArgs)).toEqual(expect.objectContaining({ cacheSize: 500, cacheMaxBytes: 20000000, cacheTtl: 5000 }));
+        expect(parseConfig([...validArgs, "--cache-size", "0", "--cache-max-bytes", "1000", "--cache-ttl", "0"])).
+            toEqual(expect.objectContaining({ cacheSize: 0, cacheMaxBytes: 1000, cacheTtl: 0 }));
+        expect(() => parseConfig([...validArgs, "--cache-size", "-1"])).toThrow(/Invalid cache size/);
+        expect(() => parseConfig([...validArgs, "--cache-max-bytes", "0"])).toThrow(/Invalid cache max bytes/);
+    });
+
+    it("should parse the rate limit settings", () => {
+        expect(parseConfig(validArgs)).toEqual(expect.objectContaining({ rateLimit: 0, maxConcurrency: 0 }));
+        expect(parseConfig([...validArgs, "--rate-limit", "900", "--max-concurrency", "4"])).toEqual(expect.objectContaining({ rateLimit: 900, maxConcurrency: 4 }));
+        expect(() => parseConfig([...validArgs, "--max-concurrency", "many"])).toThrow(/Invalid max concurrency/);
+    });
+
+    it("should parse the stateful HTTP session settings", () => {
+        expect(parseConfig(validArgs)).toEqual(expect.objectContaining({ stateful: false, maxSessions: 100, sessionIdleTimeout: 1800000 }));
+        expect(parseConfig([...validArgs, "--stateful", "--max-sessions", "5", "--session-idle-timeout", "60000"])).
+            toEqual(expect.objectContaining({ stateful: true, maxSessions: 5, sessionIdleTimeout: 60000 }));
+        expect(() => parseConfig([...validArgs, "--stateful", "--max-sessions", "0"])).toThrow(/Invalid max sessions/);
+    });
+
+    it("should parse the HTTP security settings", () => {
+        expect(parseConfig(validArgs)).toEqual(expect.objectContaining({ host: "127.0.0.1", httpAuthToken: undefined, allowedOrigins: [], allowedHosts: [] }));
+        expect(parseConfig([...validArgs, "--host", "0.0.0.0", "--http-auth-token", "s3cret", "--allowed-origins", "https://a.example.com", "--allowed-hosts", "mcp.example.com"])).
+            toEqual(expect.objectContaining({ host: "0.0.0.0", httpAuthToken: "s3cret", allowedOrigins: ["https://a.example.com"], allowedHosts: ["mcp.example.com"] }));
+        expect(() => parseConfig([...validArgs, "--tls-cert", "cert.pem"])).toThrow("HTTPS requires both --tls-cert and --tls-key.");
+    });
+
+    it("should parse --require-confirmation", () => {
+        expect(parseConfig([...validArgs, "--require-confirmation"]).requireConfirmation).toBe(true);
+        expect(parseConfig(validArgs).requireConfirmation).toBe(false);
+    });
+
+    it("should throw on invalid auth mode", () => {
+        expect(() => parseConfig([...validArgs, "--auth-mode", "kerberos"])).toThrow(/Invalid auth mode/);
+    });
+
     it("should throw on invalid log level", () => {
         expect(() => parseConfig([
             ...validArgs,
@@ -95,9 +200,9 @@ describe("parseConfig", () => {
         try {
             const config = parseConfig(["node", "index.js"]);
 
-            expect(config.bitbucketUrl).toBe("https://bitbucket.mycompany.com");
-            expect(config.bitbucketToken).toBe("env-token");
-            expect(config.defaultWorkspace).toBe("env-workspace");
+            expect(config.instances[0].bitbucketUrl).toBe("https://bitbucket.mycompany.com");
+            expect(config.instances[0].bitbucketToken).toBe("env-token");
+            expect(config.instances[0].defaultWorkspace).toBe("env-workspace");
         } finally {
             process.env = originalEnv;
         }
@@ -127,4 +232,128 @@ describe("parseConfig", () => {
             "99999"
         ])).toThrow(/Invalid port/);
     });
+
+    describe("--config instances", () => {
+        let dir: string;
+
+        const writeConfig = (content: unknown) => {
+            const file = join(dir, "bitbucket.json");
+
+            writeFileSync(file, typeof content === "string" ? content : JSON.stringify(content));
+
+            return file;
+        };
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), "config-test-"));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it("should load named instances from the file", () => {
+            const file = writeConfig({
+                defaultInstance: "dc-eu",
+                instances: {
+                    "cloud": { bitbucketUrl: "https://api.bitbucket.org/2.0", bitbucketToken: "t1", defaultWorkspace: "acme" },
+                    "dc-eu": { bitbucketUrl: "https://git-eu.example.com", bitbucketUsername: "me", bitbucketPassword: "p", caFile: "certs/ca.pem" }
+                }
+            });
+            const config = parseConfig(["node", "index.js", "--config", file]);
+
+            expect(config.instances.map(instance => instance.name)).toEqual(["cloud", "dc-eu"]);
+            expect(config.defaultInstance).toBe("dc-eu");
+            expect(config.instances[0]).toEqual(expect.objectContaining({ authMode: "bearer", bitbucketToken: "t1", defaultWorkspace: "acme", insecure: false }));
+            expect(config.instances[1]).toEqual(expect.objectContaining({ authMode: "basic", caFile: join(dir, "certs", "ca.pem") }));
+        });
+
+        it("should default to the first instance and honor --default-instance", () => {
+            const file = writeConfig({
+                instances: {
+                    a: { bitbucketUrl: "https://api.bitbucket.org/2.0", bitbucketToken: "t1" },
+                    b: { bitbucketUrl: "https://git.example.com", bitbucketToken: "t2" }
+                }
+            });
+
+            expect(parseConfig(["node", "index.js", "--config", file]).defaultInstance).toBe("a");
+            expect(parseConfig(["node", "index.js", "--config", file, "--default-instance", "b"]).defaultInstance).toBe("b");
+            expect(() => parseConfig(["node", "index.js", "--config", file, "--default-instance", "c"])).toThrow("Unknown default instance: c. Must be one of: a, b");
+        });
+
+        it("should refuse connection flags and environment variables that the instances would override", () => {
+            const file = writeConfig({ instances: { a: { bitbucketUrl: "https://api.bitbucket.org/2.0", bitbucketToken: "t1" }}});
+            const originalEnv = { ...process.env };
+
+            process.env.BITBUCKET_TOKEN = "env-token";
+
+            try {
+                expect(() => parseConfig(["node", "index.js", "--config", file, "--bitbucket-url", "https://git.example.com", "--timeout", "9000"])).
+                    toThrow("The config file declares instances, which replace the connection settings: remove --bitbucket-url, BITBUCKET_TOKEN or move them into the instances.");
+            } finally {
+                process.env = originalEnv;
+            }
+
+            expect(parseConfig(["node", "index.js", "--config", file, "--timeout", "9000"]).timeout).toBe(9000);
+        });
+
+        it("should refuse OAuth instances sharing a redirect port", () => {
+            const oauth = { bitbucketUrl: "https://api.bitbucket.org/2.0", oauthClientId: "id", oauthClientSecret: "secret" };
+            const file = writeConfig({ instances: { a: oauth, b: oauth }});
+
+            expect(() => parseConfig(["node", "index.js", "--config", file])).
+                toThrow("Instances \"a\" and \"b\" use the same OAuth redirect port 8977. Set a different oauthRedirectPort for each OAuth instance.");
+            expect(parseConfig(["node", "index.js", "--config", writeConfig({ instances: { a: oauth, b: { ...oauth, oauthRedirectPort: 8978 }}})]).instances).toHaveLength(2);
+        });
+
+        it("should name the instance lacking credentials", () => {
+            const file = writeConfig({
+                instances: {
+                    a: { bitbucketUrl: "https://api.bitbucket.org/2.0", bitbucketToken: "t1" },
+                    b: { bitbucketUrl: "https://git.example.com" }
+                }
+            });
+
+            expect(() => parseConfig(["node", "index.js", "--config", file])).
+                toThrow("Instance \"b\": Missing required configuration for auth mode \"bearer\": instances.b.bitbucketToken");
+        });
+
+        it("should apply flags over environment variables over the file", () => {
+            const file = writeConfig({ bitbucketToken: "file-token", defaultWorkspace: "file-ws", timeout: 5000, logLevel: "debug" });
+            const originalEnv = { ...process.env };
+
+            process.env.BITBUCKET_WORKSPACE = "env-ws";
+            process.env.BITBUCKET_TIMEOUT = "7000";
+
+            try {
+                const config = parseConfig(["node", "index.js", "--config", file, "--timeout", "9000"]);
+
+                expect(config.instances[0]).toEqual(expect.objectContaining({ name: "default", bitbucketToken: "file-token", defaultWorkspace: "env-ws" }));
+                expect(config.timeout).toBe(9000);
+                expect(config.logLevel).toBe("debug");
+                expect(config.maxRetries).toBe(3);
+            } finally {
+                process.env = originalEnv;
+            }
+        });
+
+        it("should select a profile with --profile", () => {
+            const file = writeConfig({
+                bitbucketToken: "t",
+                profiles: { dc: { bitbucketUrl: "https://git.example.com", defaultWorkspace: "PROJ" }}
+            });
+            const config = parseConfig(["node", "index.js", "--config", file, "--profile", "dc"]);
+
+            expect(config.instances[0]).toEqual(expect.objectContaining({ bitbucketUrl: "https://git.example.com", bitbucketToken: "t", defaultWorkspace: "PROJ" }));
+            expect(() => parseConfig([...validArgs, "--profile", "dc"])).toThrow("--profile requires a config file");
+        });
+
+        it("should point to the offending key of an invalid file", () => {
+            const file = writeConfig({ instances: { a: { bitbucketUrl: "not a url", token: "t" }}});
+
+            expect(() => parseConfig(["node", "index.js", "--config", file])).toThrow(/instances\.a\.bitbucketUrl: Invalid url/);
+            expect(() => parseConfig(["node", "index.js", "--config", file])).toThrow(/Unrecognized key\(s\) in object: 'token'/);
+            expect(() => parseConfig(["node", "index.js", "--config", writeConfig("{")])).toThrow(/Cannot read config file/);
+        });
+    });
 });
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { checkHttpRequest, isAllowedHost, isAllowedOrigin, isLoopbackHost } from "../../src/http-security.js";
+
+/** POST with node:http, since fetch does not let the caller set `Host`. */
+function postWithHost(url: string, host: string): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+        const req = request(url, { method: "POST", headers: { Authorization: "Bearer s3cret", Host: host }}, res => {
+            let body = "";
+
+            res.on("data", chunk => {
+                body += chunk;
+            });
+            res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+        });
+
+        req.on("error", reject);
+        req.end();
+    });
+}
+
+describe("checkHttpRequest", () => {
+    let httpServer: Server;
+    let url: string;
+
+    beforeAll(async() => {
+        httpServer = createServer((req, res) => {
+            if (!checkHttpRequest(req, res, { authToken: "s3cret", allowedOrigins: ["https://app.example.com"], bindHost: "127.0.0.1", allowedHosts: ["mcp.example.com"] })) return;
+
+            res.end("ok");
+        });
+
+        await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+
+        url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+    });
+
+    afterAll(async() => {
+        await new Promise(resolve => httpServer.close(resolve));
+    });
+
+    it("should require the bearer token", async() => {
+        const missing = await fetch(url, { method: "POST" });
+
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+        expect((await fetch(url, { method: "POST", headers: { Authorization: "Bearer wrong" }})).status).toBe(401);
+
+        const valid = await fetch(url, { method: "POST", headers: { Authorization: "Bearer s3cret" }});
+
+        expect(valid.status).toBe(200);
+        expect(await valid.text()).toBe("ok");
+    });
+
+    it("should reject origins that are neither loopback nor allowed", async() => {
+        const response = await fetch(url, { method: "POST", headers: { Authorization: "Bearer s3cret", Origin: "http://evil.example.com" }});
+
+        expect(response.status).toBe(403);
+    });
+
+    it("should reject hosts that are neither loopback, the bind address nor allowed", async() => {
+        const foreign = await postWithHost(url, "evil.example.com");
+
+        expect(foreign.status).toBe(403);
+        expect(foreign.body).toContain("host evil.example.com is not allowed");
+        expect((await postWithHost(url, "mcp.example.com:8443")).status).toBe(200);
+    });
+
+    it("should answer CORS preflights of allowed origins without a token", async() => {
+        const response = await fetch(url, { method: "OPTIONS", headers: { "Origin": "https://app.example.com", "Access-Control-Request-Method": "POST" }});
+
+        expect(response.status).toBe(204);
+        expect(response.headers.get("access-control-allow-origin")).toBe("https://app.example.com");
+        expect(response.headers.get("access-control-allow-headers")).toContain("Mcp-Session-Id");
+    });
+
+    it("should add CORS headers to requests from allowed origins", async() => {
+        const response = await fetch(url, { method: "POST", headers: { Authorization: "Bearer s3cret", Origin: "http://localhost:5173" }});
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("access-control-allow-origin")).toBe("http://localhost:5173");
+        expect(response.headers.get("access-control-expose-headers")).toBe("Mcp-Session-Id");
+    });
+});
+
+describe("isAllowedOrigin", () => {
+    it("should allow loopback origins, listed origins and any origin with *", () => {
+        expect(isAllowedOrigin("http://127.0.0.1:3000", [])).toBe(true);
+        expect(isAllowedOrigin("http://[::1]", [])).toBe(true);
+        expect(isAllowedOrigin("http://localhost.evil.com", [])).toBe(false);
+        expect(isAllowedOrigin("https://app.example.com", ["https://app.example.com"])).toBe(true);
+        expect(isAllowedOrigin("https://other.example.com", ["*"])).toBe(true);
+    });
+});
+
+describe("isAllowedHost", () => {
+    it("should allow loopback names, the bind address, listed hosts and any host with *", () => {
+        expect(isAllowedHost("localhost:3000", "0.0.0.0", [])).toBe(true);
+        expect(isAllowedHost("[::1]:3000", "0.0.0.0", [])).toBe(true);
+        expect(isAllowedHost("10.0.0.5:3000", "10.0.0.5", [])).toBe(true);
+        expect(isAllowedHost("MCP.example.com", "0.0.0.0", ["mcp.example.com"])).toBe(true);
+        expect(isAllowedHost("rebind.evil.com:3000", "0.0.0.0", [])).toBe(false);
+        expect(isAllowedHost("evil.com@127.0.0.1", "0.0.0.0", [])).toBe(false);
+        expect(isAllowedHost("", "0.0.0.0", [])).toBe(false);
+        expect(isAllowedHost("anything.example.com", "0.0.0.0", ["*"])).toBe(true);
+    });
+});
+
+describe("isLoopbackHost", () => {
+    it("should only accept loopback addresses", () => {
+        expect(isLoopbackHost("127.0.0.1")).toBe(true);
+        expect(isLoopbackHost("localhost")).toBe(true);
+        expect(isLoopbackHost("0.0.0.0")).toBe(false);
+        expect(isLoopbackHost("192.168.1.10")).toBe(false);
+    });
+});
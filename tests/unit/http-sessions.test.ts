@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { HttpSessionManager } from "../../src/http-sessions.js";
+
+const INITIALIZE = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" }}
+};
+
+describe("HttpSessionManager", () => {
+    let manager: HttpSessionManager;
+    let httpServer: Server;
+    let url: string;
+
+    const post = (body: unknown, sessionId?: string) => fetch(url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Accept": "application/json, text/event-stream",
+            ...sessionId ? { "Mcp-Session-Id": sessionId } : {}
+        },
+        body: JSON.stringify(body)
+    });
+
+    const initialize = async() => {
+        const response = await post(INITIALIZE);
+
+        await response.text();
+
+        return response;
+    };
+
+    async function start(maxSessions: number, idleTimeout = 60_000) {
+        manager = new HttpSessionManager(() => new McpServer({ name: "test", version: "0.0.1" }), { maxSessions, idleTimeout });
+        httpServer = createServer((req, res) => void manager.handle(req, res));
+
+        await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+
+        url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+    }
+
+    beforeEach(async() => {
+        await start(2);
+    });
+
+    afterEach(async() => {
+        await manager.closeAll();
+        await new Promise(resolve => httpServer.close(resolve));
+    });
+
+    it("should open a session on initialize and route requests with its ID", async() => {
+        const response = await initialize();
+        const sessionId = response.headers.get("mcp-session-id");
+
+        expect(response.status).toBe(200);
+        expect(sessionId).toEqual(expect.any(String));
+        expect(manager.size).toBe(1);
+
+        const ping = await post({ jsonrpc: "2.0", id: 2, method: "ping" }, sessionId!);
+
+        expect(ping.status).toBe(200);
+        expect(await ping.text()).toContain("\"id\":2");
+    });
+
+    it("should reject unknown session IDs with 404 and requests without one that are not initialize", async() => {
+        const unknown = await post({ jsonrpc: "2.0", id: 2, method: "ping" }, "nope");
+
+        expect(unknown.status).toBe(404);
+
+        const uninitialized = await post({ jsonrpc: "2.0", id: 2, method: "ping" });
+
+        expect(uninitialized.status).toBe(400);
+        expect(manager.size).toBe(0);
+
+        const stream = await fetch(url, { headers: { Accept: "text/event-stream" }});
+
+        expect(stream.status).toBe(400);
+    });
+
+    it("should close a session on DELETE", async() => {
+        const sessionId = (await initialize()).headers.get("mcp-session-id")!;
+        const response = await fetch(url, { method: "DELETE", headers: { "Mcp-Session-Id": sessionId }});
+
+        expect(response.status).toBe(200);
+        expect(manager.size).toBe(0);
+        expect((await post({ jsonrpc: "2.0", id: 2, method: "ping" }, sessionId)).status).toBe(404);
+    });
+
+    it("should refuse new sessions beyond the maximum", async() => {
+        await initialize();
+        await initialize();
+
+        const response = await post(INITIALIZE);
+
+        expect(response.status).toBe(503);
+        expect(response.headers.get("retry-after")).toBe("60");
+        expect(manager.size).toBe(2);
+    });
+
+    it("should close idle sessions, but not those with an open stream", async() => {
+        const idle = (await initialize()).headers.get("mcp-session-id")!;
+        const streaming = (await initialize()).headers.get("mcp-session-id")!;
+        const abort = new AbortController();
+        const stream = await fetch(url, { headers: { "Accept": "text/event-stream", "Mcp-Session-Id": streaming }, signal: abort.signal });
+
+        expect(stream.status).toBe(200);
+
+        await manager.expireIdle(Date.now() + 60_000);
+
+        expect(manager.size).toBe(1);
+        expect((await post({ jsonrpc: "2.0", id: 2, method: "ping" }, idle)).status).toBe(404);
+
+        abort.abort();
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach, jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { PROMPTS, registerPrompts } from "../../src/prompts.js";
+import type { ToolInstance } from "../../src/tools/instances.js";
+import { createMockClient, createPaths, make404 } from "./tools/helpers.js";
+
+describe("registerPrompts", () => {
+    let client: Client;
+
+    const instance = (name: string, platform: "cloud" | "datacenter", defaultWorkspace?: string): ToolInstance => ({
+        name,
+        client: createMockClient(platform),
+        paths: createPaths(platform),
+        defaultWorkspace
+    });
+
+    async function connect(instances: ToolInstance[], maxBytes = 0) {
+        const server = new McpServer({ name: "test", version: "0.0.1" });
+
+        registerPrompts(server, instances, instances[0].name, maxBytes);
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+        client = new Client({ name: "test", version: "0.0.1" });
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    }
+
+    /** Answer the paginated listings of a Cloud pull request by path. */
+    function mockListings(target: ToolInstance, listings: Record<string, unknown[]>) {
+        jest.mocked(target.client.getPaginated).mockImplementation(async path => {
+            const suffix = Object.keys(listings).find(key => path.endsWith(key));
+
+            return { values: suffix ? listings[suffix] : [] };
+        });
+    }
+
+    afterEach(async() => {
+        await client.close();
+    });
+
+    it("should list the review workflow prompts with their arguments", async() => {
+        await connect([instance("cloud", "cloud")]);
+
+        const { prompts } = await client.listPrompts();
+
+        expect(prompts.map(prompt => prompt.name)).toEqual(Object.keys(PROMPTS));
+        expect(prompts[0].arguments).toEqual([
+            expect.objectContaining({ name: "workspace", required: false }),
+            expect.objectContaining({ name: "repoSlug", required: true }),
+            expect.objectContaining({ name: "pullRequestId", required: true })
+        ]);
+    });
+
+    it("should embed the pull request, diffstat, comments and open tasks", async() => {
+        const cloud = instance("cloud", "cloud", "ws");
+
+        jest.mocked(cloud.client.get).mockResolvedValue({ id: 7, title: "Add login", links: { html: { href: "https://bitbucket.org/ws/repo/pull-requests/7" }}});
+        mockListings(cloud, {
+            "/diffstat": [{ status: "modified", new: { path: "src/login.ts" }, lines_added: 10, lines_removed: 2 }],
+            "/comments": [{ id: 1, content: { raw: "Needs a test" }}, { id: 2, deleted: true, content: { raw: "" }}],
+            "/tasks": [{ id: 3, state: "UNRESOLVED", content: { raw: "Rename it" }}, { id: 4, state: "RESOLVED", content: { raw: "Done" }}]
+        });
+        await connect([cloud]);
+
+        const result = await client.getPrompt({ name: "review-pull-request", arguments: { repoSlug: "repo", pullRequestId: "7" }});
+        const text = result.messages[0].content.type === "text" ? result.messages[0].content.text : "";
+
+        expect(result.description).toBe("Review a pull request: ws/repo#7");
+        expect(text).toContain("getPullRequestDiff");
+        expect(text).toContain("\"title\": \"Add login\"");
+        expect(text).toContain("\"url\": \"https://bitbucket.org/ws/repo/pull-requests/7\"");
+        expect(text).toContain("src/login.ts");
+        expect(text).toContain("Needs a test");
+        expect(text).not.toContain("\"id\": 2");
+        expect(text).toContain("Rename it");
+        expect(text).not.toContain("Done");
+        expect(cloud.client.getPaginated).toHaveBeenCalledWith("/repositories/ws/repo/pullrequests/7/comments", expect.objectContaining({ all: true }));
+    });
+
+    it("should embed commits for a description, and report sections that could not be fetched", async() => {
+        const cloud = instance("cloud", "cloud");
+
+        jest.mocked(cloud.client.get).mockRejectedValue(make404());
+        mockListings(cloud, { "/commits": [{ hash: "abc123", message: "Add login form", links: { html: { href: "https://bitbucket.org/ws/repo/commits/abc123" }}}] });
+        await connect([cloud]);
+
+        const result = await client.getPrompt({ name: "write-pr-description", arguments: { workspace: "ws", repoSlug: "repo", pullRequestId: "7" }});
+        const text = result.messages[0].content.type === "text" ? result.messages[0].content.text : "";
+
+        expect(text).toContain("## Pull request\n\nCould not be fetched:");
+        expect(text).toContain("## Changed files (diffstat)\n\nNone.");
+        expect(text).toContain("Add login form");
+        expect(text).not.toContain("https://bitbucket.org");
+        expect(text).not.toContain("## Comments");
+    });
+
+    it("should fetch from the instance given as argument", async() => {
+        const cloud = instance("cloud", "cloud", "ws");
+        const dc = instance("dc", "datacenter", "PRJ");
+
+        jest.mocked(dc.client.get).mockResolvedValue({ id: 7, version: 0, title: "DC change" });
+        mockListings(dc, {});
+        await connect([cloud, dc]);
+
+        const result = await client.getPrompt({ name: "summarize-pull-request", arguments: { repoSlug: "app", pullRequestId: "7", instance: "dc" }});
+
+        expect(result.description).toBe("Summarize a pull request: PRJ/app#7");
+        expect(dc.client.get).toHaveBeenCalledWith("/projects/PRJ/repos/app/pull-requests/7");
+        expect(cloud.client.get).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid pull request IDs and a missing workspace", async() => {
+        await connect([instance("cloud", "cloud")]);
+
+        await expect(client.getPrompt({ name: "summarize-pull-request", arguments: { workspace: "ws", repoSlug: "repo", pullRequestId: "abc" }})).rejects.toThrow("positive integer");
+        await expect(client.getPrompt({ name: "summarize-pull-request", arguments: { repoSlug: "repo", pullRequestId: "7" }})).rejects.toThrow("Workspace is required");
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach, jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { registerResources } from "../../src/resources.js";
+import type { ToolInstance } from "../../src/tools/instances.js";
+import { createMockClient, createPaths, make404 } from "./tools/helpers.js";
+
+describe("registerResources", () => {
+    let client: Client;
+
+    const instance = (name: string, platform: "cloud" | "datacenter"): ToolInstance => ({
+        name,
+        client: createMockClient(platform),
+        paths: createPaths(platform)
+    });
+
+    async function connect(instances: ToolInstance[], maxBytes = 0) {
+        const server = new McpServer({ name: "test", version: "0.0.1" });
+
+        registerResources(server, instances, instances[0].name, maxBytes);
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+        client = new Client({ name: "test", version: "0.0.1" });
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    }
+
+    afterEach(async() => {
+        await client.close();
+    });
+
+    it("should expose pull request, diff and file templates", async() => {
+        await connect([instance("cloud", "cloud")]);
+
+        const { resourceTemplates } = await client.listResourceTemplates();
+
+        expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+            "bitbucket://{workspace}/{repo}/pull-requests/{id}",
+            "bitbucket://{workspace}/{repo}/pull-requests/{id}/diff",
+            "bitbucket://{workspace}/{repo}/src/{ref}/{+path}"
+        ]);
+    });
+
+    it("should list the open pull requests of the Cloud user", async() => {
+        const cloud = instance("cloud", "cloud");
+
+        jest.mocked(cloud.client.get).mockResolvedValue({ uuid: "{u-1}", display_name: "Me", type: "user" } as never);
+        jest.mocked(cloud.client.getPaginated).mockResolvedValue({
+            values: [{ id: 7, title: "Fix", destination: { repository: { full_name: "ws/repo" }}}]
+        });
+        await connect([cloud]);
+
+        const { resources } = await client.listResources();
+
+        expect(resources).toEqual([expect.objectContaining({ uri: "bitbucket://ws/repo/pull-requests/7", name: "ws/repo#7: Fix", mimeType: "application/json" })]);
+        expect(cloud.client.getPaginated).toHaveBeenCalledWith("/pullrequests/%7Bu-1%7D", { pagelen: 50 }, { state: "OPEN" });
+    });
+
+    it("should list Data Center dashboard pull requests and keep listing when an instance fails", async() => {
+        const dc = instance("dc", "datacenter");
+        const cloud = instance("cloud", "cloud");
+
+        jest.mocked(dc.client.getPaginated).mockResolvedValue({
+            values: [{ id: 3, title: "Feature", toRef: { repository: { slug: "app", project: { key: "PRJ" }}}}]
+        });
+        jest.mocked(cloud.client.get).mockRejectedValue(new Error("Unauthorized"));
+        await connect([dc, cloud]);
+
+        const { resources } = await client.listResources();
+
+        expect(resources.map(resource => resource.uri)).toEqual(["bitbucket://PRJ/app/pull-requests/3"]);
+        expect(dc.client.getPaginated).toHaveBeenCalledWith("/dashboard/pull-requests", { pagelen: 50 }, { state: "OPEN" });
+    });
+
+    it("should read a pull request and its diff", async() => {
+        const cloud = instance("cloud", "cloud");
+
+        jest.mocked(cloud.client.get).mockResolvedValue({ id: 7, title: "Fix" } as never);
+        jest.mocked(cloud.client.getText).mockResolvedValue("diff --git a/x b/x\n");
+        await connect([cloud]);
+
+        const pr = await client.readResource({ uri: "bitbucket://ws/repo/pull-requests/7" });
+
+        expect(pr.contents[0]).toEqual(expect.objectContaining({ mimeType: "application/json", text: JSON.stringify({ id: 7, title: "Fix" }, null, 2) }));
+        expect(cloud.client.get).toHaveBeenCalledWith("/repositories/ws/repo/pullrequests/7");
+
+        const diff = await client.readResource({ uri: "bitbucket://ws/repo/pull-requests/7/diff" });
+
+        expect(diff.contents[0]).toEqual(expect.objectContaining({ mimeType: "text/x-diff", text: "diff --git a/x b/x\n" }));
+        expect(cloud.client.getText).toHaveBeenCalledWith("/repositories/ws/repo/pullrequests/7/diff");
+    });
+
+    it("should read a file at a ref with encoded slashes, from the instance named in the URI", async() => {
+        const cloud = instance("cloud", "cloud");
+        const dc = instance("dc", "datacenter");
+
+        jest.mocked(dc.client.getText).mockResolvedValue("export {};\n");
+        await connect([cloud, dc]);
+
+        const file = await client.readResource({ uri: "bitbucket://PRJ/app/src/feature%2Fx/src/index.ts?instance=dc" });
+
+        expect(file.contents[0].text).toBe("export {};\n");
+        expect(dc.client.getText).toHaveBeenCalledWith("/projects/PRJ/repos/app/raw/src/index.ts", { at: "feature/x" });
+        expect(cloud.client.getText).not.toHaveBeenCalled();
+    });
+
+    it("should truncate large content on a line boundary and replace binary content", async() => {
+        const cloud = instance("cloud", "cloud");
+
+        jest.mocked(cloud.client.getText).mockImplementation(async path => {
+            return path.endsWith("logo.png") ? "PNG\u0000data" : `${"a".repeat(40)}\n${"b".repeat(40)}\n`;
+        });
+        await connect([cloud], 60);
+
+        const text = await client.readResource({ uri: "bitbucket://ws/repo/src/main/notes.txt" });
+
+        expect(text.contents[0].text).toBe(`${"a".repeat(40)}\n\n[Truncated: 41 of 82 bytes omitted, see --max-response-size]`);
+
+        const binary = await client.readResource({ uri: "bitbucket://ws/repo/src/main/logo.png" });
+
+        expect(binary.contents[0].text).toBe("[Binary file logo.png: 8 bytes, content not returned]");
+    });
+
+    it("should report missing content as an invalid resource", async() => {
+        const cloud = instance("cloud", "cloud");
+
+        jest.mocked(cloud.client.get).mockRejectedValue(make404());
+        await connect([cloud]);
+
+        await expect(client.readResource({ uri: "bitbucket://ws/repo/pull-requests/404" })).rejects.toThrow("Pull request ws/repo#404 not found");
+    });
+});
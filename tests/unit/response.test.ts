@@ -0,0 +1,126 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { cursorNext, decodeCursor, encodeCursor, toolFailure, toolPage, toolSuccess, truncateResponse } from "../../src/response.js";
+
+describe("cursor encoding", () => {
+    it("should round-trip a payload", () => {
+        expect(decodeCursor(encodeCursor({ skip: 42 }))).toEqual({ skip: 42 });
+    });
+
+    it("should expose the page position of a cursor", () => {
+        expect(cursorNext(encodeCursor({ next: "https://api.bitbucket.org/2.0/x?page=2" }))).toBe("https://api.bitbucket.org/2.0/x?page=2");
+        expect(cursorNext(encodeCursor({ next: 50, skip: 3 }))).toBe(50);
+        expect(cursorNext(undefined)).toBeUndefined();
+    });
+
+    it("should reject malformed cursors", () => {
+        expect(() => decodeCursor("not a cursor")).toThrow("Invalid cursor.");
+        expect(() => decodeCursor(encodeCursor({ skip: -1 }))).toThrow("Invalid cursor.");
+        expect(() => decodeCursor(Buffer.from("[1]").toString("base64url"))).toThrow("Invalid cursor.");
+        expect(() => decodeCursor(Buffer.from("{\"next\":{}}").toString("base64url"))).toThrow("Invalid cursor.");
+    });
+});
+
+describe("toolPage", () => {
+    it("should attach a cursor only when there is a next page", () => {
+        expect(toolPage([1], undefined).cursor).toBeUndefined();
+        expect(decodeCursor(toolPage([1], 10).cursor!)).toEqual({ next: 10 });
+    });
+});
+
+describe("truncateResponse", () => {
+    const items = Array.from({ length: 50 }, (_, i) => ({ id: i, name: `item-${i}` }));
+
+    it("should leave small responses untouched", () => {
+        const response = toolSuccess(items);
+
+        expect(truncateResponse(response, 1_000_000)).toBe(response);
+    });
+
+    it("should not truncate when the limit is 0", () => {
+        const response = toolSuccess(items);
+
+        expect(truncateResponse(response, 0)).toBe(response);
+    });
+
+    it("should cut arrays on item boundaries and report omitted items", () => {
+        const truncated = truncateResponse(toolSuccess(items), 1000);
+        const kept = (truncated.result as unknown[]).length;
+
+        expect(Buffer.byteLength(JSON.stringify(truncated))).toBeLessThanOrEqual(1000);
+        expect(truncated.truncated).toBe(true);
+        expect(kept).toBeGreaterThan(0);
+        expect(truncated.omitted).toBe(50 - kept);
+        expect(decodeCursor(truncated.cursor!)).toEqual({ skip: kept });
+        expect(truncated.message).toContain(`${50 - kept} items omitted`);
+    });
+
+    it("should resume from the cursor until the whole result was returned", () => {
+        const collected: unknown[] = [];
+        let skip = 0;
+
+        for (let calls = 0; calls < 50; calls++) {
+            const page = truncateResponse(toolSuccess(items), 1000, { skip });
+
+            collected.push(...page.result as unknown[]);
+
+            if (!page.cursor) break;
+
+            skip = decodeCursor(page.cursor).skip!;
+        }
+
+        expect(collected).toEqual(items);
+    });
+
+    it("should keep the page position in the continuation cursor", () => {
+        const truncated = truncateResponse(toolPage(items, 50), 1000, { next: 25 });
+
+        expect(decodeCursor(truncated.cursor!)).toEqual({ next: 25, skip: (truncated.result as unknown[]).length });
+    });
+
+    it("should keep the next-page cursor once the rest of the page fits", () => {
+        const page = toolPage(items, 50);
+
+        expect(truncateResponse(page, 1_000_000, { next: 25, skip: 10 }).cursor).toBe(page.cursor);
+    });
+
+    it("should always return at least one item", () => {
+        const truncated = truncateResponse(toolSuccess([{ blob: "x".repeat(500) }, { blob: "y" }]), 100);
+
+        expect(truncated.result).toEqual([{ blob: "x".repeat(500) }]);
+        expect(truncated.omitted).toBe(1);
+    });
+
+    it("should cut text on line boundaries", () => {
+        const text = Array.from({ length: 100 }, (_, i) => `line ${i}`).join("\n");
+        const truncated = truncateResponse(toolSuccess(text), 600);
+        const kept = truncated.result as string;
+
+        expect(truncated.truncated).toBe(true);
+        expect(kept.endsWith("\n")).toBe(true);
+        expect(truncated.omitted).toBe(text.length - kept.length);
+        expect(truncateResponse(toolSuccess(text), 0, { skip: kept.length }).result).toBe(text.slice(kept.length));
+    });
+
+    it("should cut the largest field of object results and continue it", () => {
+        const content = Array.from({ length: 100 }, (_, i) => `line ${i}`).join("\n");
+        const file = toolSuccess({ path: "README.md", files: ["a", "b"], content });
+        const truncated = truncateResponse(file, 600);
+        const kept = (truncated.result as { content: string }).content;
+
+        expect(truncated.result).toEqual({ path: "README.md", files: ["a", "b"], content: kept });
+        expect(kept.length).toBeLessThan(content.length);
+        expect(truncated.omitted).toBe(content.length - kept.length);
+        expect(truncated.message).toContain("characters of `content` omitted");
+        expect(decodeCursor(truncated.cursor!)).toEqual({ field: "content", skip: kept.length });
+        expect(truncateResponse(file, 0, decodeCursor(truncated.cursor!)).result).toEqual({ path: "README.md", files: ["a", "b"], content: content.slice(kept.length) });
+    });
+
+    it("should leave failures and objects without array or text fields untouched", () => {
+        const object = toolSuccess({ id: 1, nested: { content: "x".repeat(1000) }});
+        const failure = toolFailure("x".repeat(1000));
+
+        expect(truncateResponse(object, 100)).toBe(object);
+        expect(truncateResponse(failure, 100)).toBe(failure);
+    });
+});
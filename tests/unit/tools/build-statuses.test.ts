@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { registerBuildStatusTools } from "../../../src/tools/build-statuses.js";
+import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
+
+function setupToolHandlers(platform: "cloud" | "datacenter" = "cloud") {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const client = createMockClient(platform);
+    const toolHandlers = new Map<string, (args: Record<string, unknown>) => Promise<unknown>>();
+    const paths = createPaths(platform);
+
+    const originalRegisterTool = server.registerTool.bind(server);
+
+    server.registerTool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
+
+        toolHandlers.set(name, handler);
+
+        return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+    }) as typeof server.registerTool;
+
+    registerBuildStatusTools(server, client, paths, "default-ws");
+
+    return { client, toolHandlers };
+}
+
+describe("Build Status Tools", () => {
+    let client: ReturnType<typeof createMockClient>;
+    let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+
+    describe("Cloud", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("cloud"));
+        });
+
+        describe("setCommitBuildStatus", () => {
+            it("should post the status to /statuses/build", async() => {
+                const status = { key: "lint", state: "FAILED", url: "https://ci/1" };
+
+                client.post.mockResolvedValueOnce({ ...status, uuid: "{1}" });
+
+                const handler = toolHandlers.get("setCommitBuildStatus")!;
+                const response = extractToolResponse(await handler({
+                    repoSlug: "my-repo",
+                    commit: "abc",
+                    key: "lint",
+                    state: "FAILED",
+                    url: "https://ci/1",
+                    description: "2 errors"
+                }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(client.post).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/commit/abc/statuses/build",
+                    { ...status, description: "2 errors" }
+                );
+            });
+
+            it("should return not found for an unknown commit", async() => {
+                client.post.mockRejectedValueOnce(make404());
+
+                const handler = toolHandlers.get("setCommitBuildStatus")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "nope", key: "k", state: "SUCCESSFUL", url: "https://ci" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("not found");
+            });
+        });
+
+        describe("listCommitBuildStatuses", () => {
+            it("should list the statuses of a commit", async() => {
+                const statuses = [{ key: "lint", state: "SUCCESSFUL" }];
+
+                client.getPaginated.mockResolvedValueOnce({ values: statuses });
+
+                const handler = toolHandlers.get("listCommitBuildStatuses")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "abc" }) as never);
+
+                expect(response.result).toEqual(statuses);
+                expect(client.getPaginated).toHaveBeenCalledWith("/repositories/default-ws/my-repo/commit/abc/statuses", expect.anything());
+            });
+        });
+    });
+
+    describe("Data Center", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+        });
+
+        it("should post to the build-status API, map STOPPED to FAILED and echo the status", async() => {
+            client.post.mockResolvedValueOnce(null);
+
+            const handler = toolHandlers.get("setCommitBuildStatus")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "abc", key: "tests", state: "STOPPED", url: "https://ci/2" }) as never);
+
+            const expected = { key: "tests", state: "FAILED", url: "https://ci/2" };
+
+            expect(client.post).toHaveBeenCalledWith("/rest/build-status/1.0/commits/abc", expected);
+            expect(response.result).toEqual(expected);
+        });
+
+        it("should list statuses from the build-status API", async() => {
+            client.getPaginated.mockResolvedValueOnce({ values: [] });
+
+            const handler = toolHandlers.get("listCommitBuildStatuses")!;
+
+            await handler({ repoSlug: "my-repo", commit: "abc" });
+
+            expect(client.getPaginated).toHaveBeenCalledWith("/rest/build-status/1.0/commits/abc", expect.anything());
+        });
+    });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+import type { CommentThread } from "../../../src/bitbucket/comment-threads.js";
 import { registerCommentTools } from "../../../src/tools/comments.js";
+import { getPullRequestCommentOutput, getPullRequestCommentsOutput } from "../../../src/tools/output-schemas.js";
 import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
 
 describe("Comment Tools", () => {
@@ -30,20 +32,68 @@ describe("Comment Tools", () => {
     });
 
     describe("getPullRequestComments", () => {
-        it("should return comments for a pull request", async() => {
-            const mockComments = [
-                { id: 1, content: { raw: "LGTM" }},
-                { id: 2, content: { raw: "Needs fixing" }}
-            ];
-
-            client.getPaginated.mockResolvedValueOnce({ values: mockComments, total: 2 });
+        it("should group Cloud comments into threads with their replies and tasks", async() => {
+            client.getPaginated.mockImplementation(async(path: string) => {
+                if (path.endsWith("/tasks")) return { values: [{ id: 9, state: "UNRESOLVED", content: { raw: "Add a test" }, comment: { id: 2 }}] };
+
+                return {
+                    values: [
+                        { id: 3, parent: { id: 2 }, content: { raw: "Done" }, user: { display_name: "Ann", nickname: "ann" }, created_on: "2026-01-03T00:00:00Z", deleted: false },
+                        { id: 1, content: { raw: "LGTM" }, user: { display_name: "Bob", nickname: "bob" }, created_on: "2026-01-01T00:00:00Z", deleted: false, resolution: { type: "comment_resolution" }},
+                        {
+                            id: 2,
+                            content: { raw: "Needs fixing" },
+                            user: { display_name: "Bob", nickname: "bob" },
+                            created_on: "2026-01-02T00:00:00Z",
+                            deleted: false,
+                            inline: { path: "src/a.ts", to: 12, outdated: true }
+                        }
+                    ]
+                };
+            });
 
             const handler = toolHandlers.get("getPullRequestComments")!;
-            const result = await handler({ repoSlug: "my-repo", pullRequestId: 1 }) as ReturnType<typeof extractToolResponse>;
-            const response = extractToolResponse(result as never);
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 1 }) as never);
 
             expect(response.status).toBe("COMPLETED");
-            expect(response.result).toEqual(mockComments);
+            expect(response.result).toEqual([
+                expect.objectContaining({ root: expect.objectContaining({ id: 1, content: "LGTM" }), replies: [], anchor: null, resolved: true }),
+                {
+                    root: { id: 2, parentId: null, author: { id: null, username: "bob", displayName: "Bob" }, content: "Needs fixing", createdOn: "2026-01-02T00:00:00Z", updatedOn: null },
+                    replies: [{ id: 3, parentId: 2, author: { id: null, username: "ann", displayName: "Ann" }, content: "Done", createdOn: "2026-01-03T00:00:00Z", updatedOn: null }],
+                    anchor: { path: "src/a.ts", from: null, to: 12 },
+                    resolved: false,
+                    outdated: true,
+                    deleted: false,
+                    tasks: [{ id: 9, content: "Add a test", state: "OPEN" }]
+                }
+            ]);
+            expect(() => getPullRequestCommentsOutput.parse(response)).not.toThrow();
+            expect(client.getPaginated).toHaveBeenCalledWith("/repositories/default-ws/my-repo/pullrequests/1/comments", { all: true });
+        });
+
+        it("should filter threads by resolution, path and author", async() => {
+            client.getPaginated.mockImplementation(async(path: string) => {
+                if (path.endsWith("/tasks")) return { values: [] };
+
+                return {
+                    values: [
+                        { id: 1, content: { raw: "a" }, user: { display_name: "Bob", nickname: "bob" }, deleted: false, inline: { path: "src/a.ts", to: 1 }},
+                        { id: 2, content: { raw: "b" }, user: { display_name: "Ann", nickname: "ann" }, deleted: false, inline: { path: "src/a.ts", to: 2 }},
+                        { id: 3, content: { raw: "c" }, user: { display_name: "Bob", nickname: "bob" }, deleted: false, resolution: { type: "comment_resolution" }}
+                    ]
+                };
+            });
+
+            const handler = toolHandlers.get("getPullRequestComments")!;
+            const ids = async(args: Record<string, unknown>) => {
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 1, ...args }) as never);
+
+                return (response.result as CommentThread[]).map(thread => thread.root.id);
+            };
+
+            expect(await ids({ unresolvedOnly: true })).toEqual([1, 2]);
+            expect(await ids({ path: "src/a.ts", author: "BOB" })).toEqual([1]);
         });
 
         it("should handle 404", async() => {
@@ -59,8 +109,8 @@ describe("Comment Tools", () => {
     });
 
     describe("getPullRequestComment", () => {
-        it("should return a single comment", async() => {
-            const mockComment = { id: 42, content: { raw: "Great work!" }};
+        it("should return a single comment, normalized", async() => {
+            const mockComment = { id: 42, content: { raw: "Great work!" }, user: { display_name: "Bob", nickname: "bob" }, created_on: "2026-01-01T00:00:00Z" };
 
             client.get.mockResolvedValueOnce(mockComment);
 
@@ -69,7 +119,30 @@ describe("Comment Tools", () => {
             const response = extractToolResponse(result as never);
 
             expect(response.status).toBe("COMPLETED");
-            expect(response.result).toEqual(mockComment);
+            expect(response.result).toEqual({
+                id: 42,
+                parentId: null,
+                author: { id: null, username: "bob", displayName: "Bob" },
+                content: "Great work!",
+                createdOn: "2026-01-01T00:00:00Z",
+                updatedOn: null,
+                anchor: null,
+                resolved: false,
+                outdated: false,
+                deleted: false
+            });
+            expect(() => getPullRequestCommentOutput.parse(response)).not.toThrow();
+        });
+
+        it("should keep the original payload with raw", async() => {
+            const mockComment = { id: 42, text: "Great work!", author: { name: "bob", displayName: "Bob" }};
+
+            client.get.mockResolvedValueOnce(mockComment);
+
+            const handler = toolHandlers.get("getPullRequestComment")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 1, commentId: 42, raw: true }) as never);
+
+            expect(response.result).toEqual(expect.objectContaining({ content: "Great work!", raw: mockComment }));
         });
     });
 
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { decodeCursor } from "../../../src/response.js";
+import { registerCommitTools } from "../../../src/tools/commits.js";
+import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
+
+function setupToolHandlers(platform: "cloud" | "datacenter" = "cloud") {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const client = createMockClient(platform);
+    const toolHandlers = new Map<string, (args: Record<string, unknown>) => Promise<unknown>>();
+    const paths = createPaths(platform);
+
+    const originalRegisterTool = server.registerTool.bind(server);
+
+    server.registerTool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
+
+        toolHandlers.set(name, handler);
+
+        return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+    }) as typeof server.registerTool;
+
+    registerCommitTools(server, client, paths, "default-ws");
+
+    return { client, toolHandlers };
+}
+
+describe("Commit Tools", () => {
+    let client: ReturnType<typeof createMockClient>;
+    let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+
+    describe("Cloud", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("cloud"));
+        });
+
+        describe("listCommits", () => {
+            it("should list commits filtered by branch and path", async() => {
+                const commits = [{ hash: "abc", date: "2024-03-01T10:00:00+00:00" }];
+
+                client.getPaginated.mockResolvedValueOnce({ values: commits });
+
+                const handler = toolHandlers.get("listCommits")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", branch: "develop", path: "src/index.ts" }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(response.result).toEqual(commits);
+                expect(client.getPaginated).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/commits",
+                    expect.objectContaining({ next: undefined }),
+                    { include: "develop", path: "src/index.ts" }
+                );
+            });
+
+            it("should filter by date range and stop paging past `since`", async() => {
+                client.getPaginated.mockResolvedValueOnce({
+                    values: [
+                        { hash: "c3", date: "2024-03-10T00:00:00Z" },
+                        { hash: "c2", date: "2024-02-15T00:00:00Z" },
+                        { hash: "c1", date: "2024-01-01T00:00:00Z" }
+                    ],
+                    next: "https://api.bitbucket.org/2.0/repositories/default-ws/my-repo/commits?page=2"
+                });
+
+                const handler = toolHandlers.get("listCommits")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", since: "2024-02-01", until: "2024-03-01" }) as never);
+
+                expect((response.result as Array<{ hash: string }>).map(commit => commit.hash)).toEqual(["c2"]);
+                expect(response.cursor).toBeUndefined();
+            });
+
+            it("should keep the cursor while commits are newer than `since`", async() => {
+                const next = "https://api.bitbucket.org/2.0/repositories/default-ws/my-repo/commits?page=2";
+
+                client.getPaginated.mockResolvedValueOnce({ values: [{ hash: "c3", date: "2024-03-10T00:00:00Z" }], next });
+
+                const handler = toolHandlers.get("listCommits")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", since: "2024-02-01" }) as never);
+
+                expect(decodeCursor(response.cursor!)).toEqual({ next });
+            });
+
+            it("should reject invalid dates", async() => {
+                const handler = toolHandlers.get("listCommits")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", since: "last tuesday" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("Invalid date");
+                expect(client.getPaginated).not.toHaveBeenCalled();
+            });
+        });
+
+        describe("getCommit", () => {
+            it("should get a commit by hash", async() => {
+                client.get.mockResolvedValueOnce({ hash: "abc123", message: "Fix bug" });
+
+                const handler = toolHandlers.get("getCommit")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "abc123" }) as never);
+
+                expect(response.result).toEqual({ hash: "abc123", message: "Fix bug" });
+                expect(client.get).toHaveBeenCalledWith("/repositories/default-ws/my-repo/commit/abc123");
+            });
+
+            it("should handle 404", async() => {
+                client.get.mockRejectedValueOnce(make404());
+
+                const handler = toolHandlers.get("getCommit")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "nope" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("Commit 'default-ws/my-repo@nope' not found");
+            });
+        });
+
+        describe("getCommitDiff", () => {
+            it("should fetch the diff with path and context", async() => {
+                client.getText.mockResolvedValueOnce("diff --git a/a.ts b/a.ts\n@@ -1 +1 @@\n-a\n+b\n");
+
+                const handler = toolHandlers.get("getCommitDiff")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "abc", path: "a.ts", contextLines: 1 }) as never);
+
+                expect(response.result).toBe("diff --git a/a.ts b/a.ts\n@@ -1 +1 @@\n-a\n+b\n");
+                expect(client.getText).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/diff/abc",
+                    { path: "a.ts", context: 1 }
+                );
+            });
+        });
+
+        describe("getCommitDiffStat", () => {
+            it("should list changed files with glob filters", async() => {
+                client.getPaginated.mockResolvedValueOnce({
+                    values: [
+                        { new: { path: "src/a.ts" }, status: "modified" },
+                        { new: { path: "docs/b.md" }, status: "added" }
+                    ]
+                });
+
+                const handler = toolHandlers.get("getCommitDiffStat")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "abc", exclude: ["*.md"] }) as never);
+
+                expect(response.result).toEqual([{ new: { path: "src/a.ts" }, status: "modified" }]);
+                expect(client.getPaginated).toHaveBeenCalledWith("/repositories/default-ws/my-repo/diffstat/abc", expect.anything());
+            });
+        });
+    });
+
+    describe("Data Center", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+        });
+
+        it("should list commits with `until` for the branch and filter on committer time", async() => {
+            client.getPaginated.mockResolvedValueOnce({
+                values: [
+                    { id: "b", displayId: "b", message: "new", authorTimestamp: 0, committerTimestamp: Date.parse("2024-05-01") },
+                    { id: "a", displayId: "a", message: "old", authorTimestamp: Date.parse("2023-01-01") }
+                ],
+                next: 25
+            });
+
+            const handler = toolHandlers.get("listCommits")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", branch: "refs/heads/main", since: "2024-01-01" }) as never);
+
+            expect((response.result as Array<{ id: string }>).map(commit => commit.id)).toEqual(["b"]);
+            expect(response.cursor).toBeUndefined();
+            expect(client.getPaginated).toHaveBeenCalledWith(
+                "/projects/default-ws/repos/my-repo/commits",
+                expect.anything(),
+                { until: "refs/heads/main", path: undefined }
+            );
+        });
+
+        it("should get a commit from /commits/{id}", async() => {
+            client.get.mockResolvedValueOnce({ id: "abc" });
+
+            await toolHandlers.get("getCommit")!({ repoSlug: "my-repo", commit: "abc" });
+
+            expect(client.get).toHaveBeenCalledWith("/projects/default-ws/repos/my-repo/commits/abc");
+        });
+
+        it("should render the JSON commit diff as a unified diff", async() => {
+            client.get.mockResolvedValueOnce({
+                diffs: [
+                    {
+                        source: { components: ["a.ts"], toString: "a.ts" },
+                        destination: { components: ["a.ts"], toString: "a.ts" },
+                        hunks: [
+                            {
+                                sourceLine: 3,
+                                sourceSpan: 1,
+                                destinationLine: 3,
+                                destinationSpan: 1,
+                                segments: [
+                                    { type: "REMOVED", lines: [{ source: 3, destination: 3, line: "old" }] },
+                                    { type: "ADDED", lines: [{ source: 4, destination: 3, line: "new" }] }
+                                ]
+                            }
+                        ]
+                    }
+                ]
+            });
+
+            const handler = toolHandlers.get("getCommitDiff")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", commit: "abc", path: "a.ts" }) as never);
+
+            expect(response.result).toBe("diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -3,1 +3,1 @@\n-old\n+new\n");
+            expect(client.get).toHaveBeenCalledWith(
+                "/projects/default-ws/repos/my-repo/commits/abc/diff/a.ts",
+                { contextLines: undefined, withComments: false }
+            );
+        });
+
+        it("should list commit changes", async() => {
+            client.getPaginated.mockResolvedValueOnce({ values: [] });
+
+            await toolHandlers.get("getCommitDiffStat")!({ repoSlug: "my-repo", commit: "abc" });
+
+            expect(client.getPaginated).toHaveBeenCalledWith("/projects/default-ws/repos/my-repo/commits/abc/changes", expect.anything());
+        });
+    });
+});
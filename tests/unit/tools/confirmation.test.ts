@@ -0,0 +1,150 @@
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { BitbucketClient } from "../../../src/bitbucket/client.js";
+import { applyConfirmation, ConfirmationStore } from "../../../src/tools/confirmation.js";
+import { mergePullRequestOutput } from "../../../src/tools/output-schemas.js";
+import { registerPipelineTools } from "../../../src/tools/pipelines.js";
+import { registerPullRequestTools } from "../../../src/tools/pull-requests.js";
+import { registerRefTools } from "../../../src/tools/refs.js";
+import { createPaths, extractToolResponse } from "./helpers.js";
+
+type Handler = (args: Record<string, unknown>, extra?: unknown) => Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }>;
+
+const mockFetch = jest.fn<typeof fetch>();
+
+global.fetch = mockFetch;
+
+const MERGE_URL = "https://api.bitbucket.org/2.0/repositories/ws/repo/pullrequests/1/merge";
+
+describe("applyConfirmation", () => {
+    let registered: Map<string, { config: { inputSchema?: Record<string, unknown> }; handler: Handler }>;
+
+    function setup(requireConfirmation: boolean, store = new ConfirmationStore()) {
+        const server = new McpServer({ name: "test", version: "0.0.1" });
+        const originalRegisterTool = server.registerTool.bind(server);
+
+        server.registerTool = ((...args: unknown[]) => {
+            registered.set(args[0] as string, { config: args[1] as never, handler: args[2] as Handler });
+
+            return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+        }) as typeof server.registerTool;
+
+        applyConfirmation(server, { requireConfirmation, store });
+
+        const client = new BitbucketClient({ baseUrl: "https://api.bitbucket.org/2.0", token: "token", timeout: 5000 });
+
+        registerPullRequestTools(server, client, createPaths(), "ws");
+        registerRefTools(server, client, createPaths(), "ws");
+        registerPipelineTools(server, client, createPaths(), "ws");
+    }
+
+    const merge = (args: Record<string, unknown> = {}) => registered.get("mergePullRequest")!.handler({ workspace: "ws", repoSlug: "repo", pullRequestId: 1, mergeStrategy: "squash", ...args });
+
+    beforeEach(() => {
+        registered = new Map();
+        mockFetch.mockReset();
+        mockFetch.mockResolvedValue({ ok: true, text: async() => JSON.stringify({ id: 1, state: "MERGED" }) } as Response);
+    });
+
+    it("should only add the inputs to mutating tools with a preview", () => {
+        setup(true);
+
+        expect(registered.get("mergePullRequest")!.config.inputSchema).toHaveProperty("dryRun");
+        expect(registered.get("mergePullRequest")!.config.inputSchema).toHaveProperty("confirmationToken");
+        expect(registered.get("getPullRequest")!.config.inputSchema).not.toHaveProperty("dryRun");
+        expect(registered.get("createPullRequest")!.config.inputSchema).not.toHaveProperty("dryRun");
+    });
+
+    it("should return the request and a preview on dry run without sending it", async() => {
+        setup(false);
+
+        const response = extractToolResponse(await merge({ dryRun: true }));
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(response.status).toBe("COMPLETED");
+        expect(response.result).toEqual({
+            dryRun: true,
+            preview: "Merge pull request #1 in ws/repo using squash.",
+            request: { method: "POST", url: MERGE_URL, body: { merge_strategy: "squash" }}
+        });
+        expect(response.result).not.toHaveProperty("confirmationToken");
+        expect(() => mergePullRequestOutput.parse(response)).not.toThrow();
+    });
+
+    it("should execute directly without dry run when confirmation is not required", async() => {
+        setup(false);
+
+        const response = extractToolResponse(await merge());
+
+        expect(mockFetch).toHaveBeenCalledWith(MERGE_URL, expect.objectContaining({ method: "POST" }));
+        expect(response.message).toBe("Pull request merged.");
+    });
+
+    it("should require the token of a preview of the same call when confirmation is required", async() => {
+        setup(true);
+
+        const preview = extractToolResponse(await merge());
+        const { confirmationToken } = preview.result as { confirmationToken: string };
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(confirmationToken).toEqual(expect.any(String));
+        expect(() => mergePullRequestOutput.parse(preview)).not.toThrow();
+
+        const mismatch = await merge({ mergeStrategy: "merge_commit", confirmationToken });
+
+        expect(mismatch.isError).toBe(true);
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        const confirmed = extractToolResponse(await merge({ confirmationToken }));
+
+        expect(confirmed.message).toBe("Pull request merged.");
+        expect(confirmed.result).toEqual(expect.objectContaining({ id: 1, state: "MERGED" }));
+        expect(() => mergePullRequestOutput.parse(confirmed)).not.toThrow();
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should accept a token only once", async() => {
+        setup(true);
+
+        const { confirmationToken } = extractToolResponse(await merge()).result as { confirmationToken: string };
+
+        await merge({ confirmationToken });
+
+        expect((await merge({ confirmationToken })).isError).toBe(true);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject an expired token", async() => {
+        setup(true, new ConfirmationStore(0));
+
+        const { confirmationToken } = extractToolResponse(await merge()).result as { confirmationToken: string };
+        const response = extractToolResponse(await merge({ confirmationToken }));
+
+        expect(response.status).toBe("FAILED");
+        expect(response.message).toContain("Invalid or expired confirmation token");
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        [
+            "deleteBranch",
+            { repoSlug: "repo", name: "feature" },
+            "Delete branch feature in repo.",
+            { method: "DELETE", url: "https://api.bitbucket.org/2.0/repositories/ws/repo/refs/branches/feature" }
+        ],
+        [
+            "stopPipeline",
+            { repoSlug: "repo", pipeline: "{p1}" },
+            "Stop pipeline {p1} in repo.",
+            { method: "POST", url: expect.stringContaining("/repositories/ws/repo/pipelines/") }
+        ]
+    ])("should not run %s without a confirmation token", async(name, args, preview, request) => {
+        setup(true);
+
+        const response = extractToolResponse(await registered.get(name)!.handler(args));
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(response.result).toEqual(expect.objectContaining({ dryRun: true, preview, request: expect.objectContaining(request), confirmationToken: expect.any(String) }));
+    });
+});
@@ -4,29 +4,34 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerDiffTools } from "../../../src/tools/diffs.js";
 import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
 
-describe("Diff Tools", () => {
-    let server: McpServer;
-    let client: ReturnType<typeof createMockClient>;
-    let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+function setupToolHandlers(platform: "cloud" | "datacenter" = "cloud") {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const client = createMockClient(platform);
+    const toolHandlers = new Map<string, (args: Record<string, unknown>) => Promise<unknown>>();
+    const paths = createPaths(platform);
 
-    beforeEach(() => {
-        server = new McpServer({ name: "test", version: "0.0.1" });
-        client = createMockClient();
-        toolHandlers = new Map();
-        const paths = createPaths();
+    const originalRegisterTool = server.registerTool.bind(server);
+
+    server.registerTool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
 
-        const originalRegisterTool = server.registerTool.bind(server);
+        toolHandlers.set(name, handler);
 
-        server.registerTool = ((...args: unknown[]) => {
-            const name = args[0] as string;
-            const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
+        return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+    }) as typeof server.registerTool;
 
-            toolHandlers.set(name, handler);
+    registerDiffTools(server, client, paths, "default-ws");
 
-            return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
-        }) as typeof server.registerTool;
+    return { client, toolHandlers };
+}
+
+describe("Diff Tools", () => {
+    let client: ReturnType<typeof createMockClient>;
+    let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
 
-        registerDiffTools(server, client, paths, "default-ws");
+    beforeEach(() => {
+        ({ client, toolHandlers } = setupToolHandlers());
     });
 
     describe("getPullRequestDiff", () => {
@@ -42,7 +47,89 @@ describe("Diff Tools", () => {
             expect(response.status).toBe("COMPLETED");
             expect(response.result).toBe(mockDiff);
             expect(client.getText).toHaveBeenCalledWith(
-                "/repositories/default-ws/my-repo/pullrequests/1/diff"
+                "/repositories/default-ws/my-repo/pullrequests/1/diff",
+                undefined
+            );
+        });
+
+        it("should pass path and context lines to Cloud and apply glob filters", async() => {
+            client.getText.mockResolvedValueOnce([
+                "diff --git a/src/a.ts b/src/a.ts",
+                "--- a/src/a.ts",
+                "+++ b/src/a.ts",
+                "@@ -1 +1 @@",
+                "-a",
+                "+b",
+                "diff --git a/yarn.lock b/yarn.lock",
+                "--- a/yarn.lock",
+                "+++ b/yarn.lock",
+                "@@ -1 +1 @@",
+                "-x",
+                "+y",
+                ""
+            ].join("\n"));
+
+            const handler = toolHandlers.get("getPullRequestDiff")!;
+            const response = extractToolResponse(await handler({
+                repoSlug: "my-repo",
+                pullRequestId: 1,
+                path: "src/a.ts",
+                contextLines: 10,
+                exclude: ["*.lock"]
+            }) as never);
+
+            expect(response.result).toBe("diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-a\n+b\n");
+            expect(client.getText).toHaveBeenCalledWith(
+                "/repositories/default-ws/my-repo/pullrequests/1/diff",
+                { path: "src/a.ts", context: 10 }
+            );
+        });
+
+        it("should use the per-path JSON diff on Data Center when path is set", async() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+            client.get.mockResolvedValueOnce({
+                diffs: [
+                    {
+                        source: { components: ["src", "a.ts"], toString: "src/a.ts" },
+                        destination: { components: ["src", "a.ts"], toString: "src/a.ts" },
+                        hunks: [
+                            {
+                                sourceLine: 1,
+                                sourceSpan: 1,
+                                destinationLine: 1,
+                                destinationSpan: 1,
+                                segments: [
+                                    { type: "REMOVED", lines: [{ source: 1, destination: 1, line: "a" }] },
+                                    { type: "ADDED", lines: [{ source: 2, destination: 1, line: "b" }] }
+                                ]
+                            }
+                        ]
+                    }
+                ]
+            });
+
+            const handler = toolHandlers.get("getPullRequestDiff")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 3, path: "src/a.ts", contextLines: 0 }) as never);
+
+            expect(response.result).toBe("diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,1 +1,1 @@\n-a\n+b\n");
+            expect(client.get).toHaveBeenCalledWith(
+                "/projects/default-ws/repos/my-repo/pull-requests/3/diff/src/a.ts",
+                { contextLines: 0, withComments: false }
+            );
+            expect(client.getText).not.toHaveBeenCalled();
+        });
+
+        it("should pass contextLines to the Data Center raw diff", async() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+            client.getText.mockResolvedValueOnce("");
+
+            const handler = toolHandlers.get("getPullRequestDiff")!;
+
+            await handler({ repoSlug: "my-repo", pullRequestId: 3, contextLines: 5 });
+
+            expect(client.getText).toHaveBeenCalledWith(
+                "/projects/default-ws/repos/my-repo/pull-requests/3.diff",
+                { contextLines: 5 }
             );
         });
 
@@ -58,6 +145,118 @@ describe("Diff Tools", () => {
         });
     });
 
+    describe("getPullRequestDiffStructured", () => {
+        it("should parse the Cloud diff into files, hunks and lines", async() => {
+            client.getText.mockResolvedValueOnce("diff --git a/file.ts b/file.ts\n--- a/file.ts\n+++ b/file.ts\n@@ -1 +1 @@\n-old\n+new");
+
+            const handler = toolHandlers.get("getPullRequestDiffStructured")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 1 }) as never);
+
+            expect(response.status).toBe("COMPLETED");
+            expect(response.result).toEqual([
+                {
+                    path: "file.ts",
+                    oldPath: "file.ts",
+                    newPath: "file.ts",
+                    status: "modified",
+                    binary: false,
+                    hunks: [
+                        {
+                            header: "@@ -1 +1 @@",
+                            oldStart: 1,
+                            oldLines: 1,
+                            newStart: 1,
+                            newLines: 1,
+                            lines: [
+                                { type: "removed", oldLine: 1, newLine: null, content: "old" },
+                                { type: "added", oldLine: null, newLine: 1, content: "new" }
+                            ]
+                        }
+                    ]
+                }
+            ]);
+            expect(client.getText).toHaveBeenCalledWith("/repositories/default-ws/my-repo/pullrequests/1/diff", undefined);
+        });
+
+        it("should use the native JSON diff on Data Center", async() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+            client.get.mockResolvedValueOnce({
+                diffs: [
+                    {
+                        source: null,
+                        destination: { components: ["a.ts"], toString: "a.ts" },
+                        hunks: [
+                            {
+                                sourceLine: 0,
+                                sourceSpan: 0,
+                                destinationLine: 1,
+                                destinationSpan: 1,
+                                segments: [{ type: "ADDED", lines: [{ source: 0, destination: 1, line: "x" }] }]
+                            }
+                        ]
+                    }
+                ]
+            });
+
+            const handler = toolHandlers.get("getPullRequestDiffStructured")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 2 }) as never);
+
+            expect(response.status).toBe("COMPLETED");
+            expect(response.result).toMatchObject([{ path: "a.ts", status: "added", hunks: [{ lines: [{ type: "added", oldLine: null, newLine: 1, content: "x" }] }] }]);
+            expect(client.get).toHaveBeenCalledWith(
+                "/projects/default-ws/repos/my-repo/pull-requests/2/diff",
+                { withComments: false }
+            );
+            expect(client.getText).not.toHaveBeenCalled();
+        });
+
+        it("should filter files with include globs", async() => {
+            client.getText.mockResolvedValueOnce([
+                "diff --git a/src/a.ts b/src/a.ts",
+                "--- a/src/a.ts",
+                "+++ b/src/a.ts",
+                "@@ -1 +1 @@",
+                "-a",
+                "+b",
+                "diff --git a/docs/b.md b/docs/b.md",
+                "--- a/docs/b.md",
+                "+++ b/docs/b.md",
+                "@@ -1 +1 @@",
+                "-x",
+                "+y"
+            ].join("\n"));
+
+            const handler = toolHandlers.get("getPullRequestDiffStructured")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 1, include: ["src/**"] }) as never);
+
+            expect((response.result as Array<{ path: string }>).map(file => file.path)).toEqual(["src/a.ts"]);
+        });
+
+        it("should use the per-path endpoint on Data Center", async() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+            client.get.mockResolvedValueOnce({ diffs: [] });
+
+            const handler = toolHandlers.get("getPullRequestDiffStructured")!;
+
+            await handler({ repoSlug: "my-repo", pullRequestId: 2, path: "docs/read me.md", contextLines: 1 });
+
+            expect(client.get).toHaveBeenCalledWith(
+                "/projects/default-ws/repos/my-repo/pull-requests/2/diff/docs/read%20me.md",
+                { contextLines: 1, withComments: false }
+            );
+        });
+
+        it("should handle 404", async() => {
+            client.getText.mockRejectedValueOnce(make404());
+
+            const handler = toolHandlers.get("getPullRequestDiffStructured")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 999 }) as never);
+
+            expect(response.status).toBe("FAILED");
+            expect(response.message).toContain("not found");
+        });
+    });
+
     describe("getPullRequestDiffStat", () => {
         it("should return diff statistics", async() => {
             const mockDiffStats = [{ old: { path: "file.ts" }, new: { path: "file.ts" }, status: "modified", lines_added: 5, lines_removed: 2 }];
@@ -72,6 +271,43 @@ describe("Diff Tools", () => {
             expect(response.result).toEqual(mockDiffStats);
         });
 
+        it("should filter entries by old or new path", async() => {
+            client.getPaginated.mockResolvedValueOnce({
+                values: [
+                    { old: { path: "src/a.ts" }, new: { path: "src/a.ts" }, status: "modified" },
+                    { old: { path: "package-lock.json" }, new: { path: "package-lock.json" }, status: "modified" },
+                    { new: { path: "src/generated/b.ts" }, status: "added" }
+                ],
+                total: 3
+            });
+
+            const handler = toolHandlers.get("getPullRequestDiffStat")!;
+            const response = extractToolResponse(await handler({
+                repoSlug: "my-repo",
+                pullRequestId: 1,
+                include: ["src/**"],
+                exclude: ["**/generated/**"]
+            }) as never);
+
+            expect(response.result).toEqual([{ old: { path: "src/a.ts" }, new: { path: "src/a.ts" }, status: "modified" }]);
+        });
+
+        it("should filter Data Center changes by path", async() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+            client.getPaginated.mockResolvedValueOnce({
+                values: [
+                    { path: { components: ["a.ts"], toString: "a.ts" }, type: "MODIFY" },
+                    { path: { components: ["b.md"], toString: "b.md" }, type: "ADD" }
+                ],
+                total: 2
+            });
+
+            const handler = toolHandlers.get("getPullRequestDiffStat")!;
+            const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 1, include: ["*.md"] }) as never);
+
+            expect(response.result).toEqual([{ path: { components: ["b.md"], toString: "b.md" }, type: "ADD" }]);
+        });
+
         it("should handle 404", async() => {
             client.getPaginated.mockRejectedValueOnce(make404());
 
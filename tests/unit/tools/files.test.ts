@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { isBinaryContent, registerFileTools } from "../../../src/tools/files.js";
+import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
+
+function setupToolHandlers(platform: "cloud" | "datacenter" = "cloud") {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const client = createMockClient(platform);
+    const toolHandlers = new Map<string, (args: Record<string, unknown>) => Promise<unknown>>();
+    const paths = createPaths(platform);
+
+    const originalRegisterTool = server.registerTool.bind(server);
+
+    server.registerTool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
+
+        toolHandlers.set(name, handler);
+
+        return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+    }) as typeof server.registerTool;
+
+    registerFileTools(server, client, paths, "default-ws");
+
+    return { client, toolHandlers };
+}
+
+describe("File Tools", () => {
+    describe("isBinaryContent", () => {
+        it("should detect NUL characters", () => {
+            expect(isBinaryContent("PNG\u0000\u0001")).toBe(true);
+        });
+
+        it("should treat plain text as non-binary", () => {
+            expect(isBinaryContent("export const a = 1;\n")).toBe(false);
+        });
+    });
+
+    describe("Cloud", () => {
+        let client: ReturnType<typeof createMockClient>;
+        let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("cloud"));
+        });
+
+        describe("getFileContent", () => {
+            it("should return file contents at the given ref", async() => {
+                client.get.mockResolvedValueOnce({ type: "commit_file", path: "src/index.ts", size: 12 });
+                client.getText.mockResolvedValueOnce("const a = 1;");
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const result = await handler({ repoSlug: "my-repo", path: "src/index.ts", ref: "feature/x" });
+                const response = extractToolResponse(result as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(response.result).toEqual({
+                    path: "src/index.ts",
+                    ref: "feature/x",
+                    size: 12,
+                    binary: false,
+                    tooLarge: false,
+                    content: "const a = 1;"
+                });
+                expect(client.get).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/src/feature%2Fx/src/index.ts",
+                    { format: "meta" }
+                );
+                expect(client.getText).toHaveBeenCalledWith("/repositories/default-ws/my-repo/src/feature%2Fx/src/index.ts", undefined);
+            });
+
+            it("should default to the main branch when ref is omitted", async() => {
+                client.get.
+                    mockResolvedValueOnce({ mainbranch: { name: "main", type: "branch" }}).
+                    mockResolvedValueOnce({ type: "commit_file", path: "README.md", size: 5 });
+                client.getText.mockResolvedValueOnce("hello");
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "README.md" }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(client.get).toHaveBeenNthCalledWith(1, "/repositories/default-ws/my-repo");
+                expect(client.getText).toHaveBeenCalledWith("/repositories/default-ws/my-repo/src/main/README.md", undefined);
+            });
+
+            it("should not download files larger than maxBytes", async() => {
+                client.get.mockResolvedValueOnce({ type: "commit_file", path: "big.json", size: 5000 });
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "big.json", ref: "main", maxBytes: 1000 }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(response.message).toContain("exceeds the 1000-byte limit");
+                expect(response.result).toMatchObject({ tooLarge: true, content: null, size: 5000 });
+                expect(client.getText).not.toHaveBeenCalled();
+            });
+
+            it("should report binary files without their content", async() => {
+                client.get.mockResolvedValueOnce({ type: "commit_file", path: "logo.png", size: 6 });
+                client.getText.mockResolvedValueOnce("\u0089PNG\u0000\u0000");
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "logo.png", ref: "main" }) as never);
+
+                expect(response.message).toContain("binary");
+                expect(response.result).toMatchObject({ binary: true, content: null });
+            });
+
+            it("should reject directories", async() => {
+                client.get.mockResolvedValueOnce({ type: "commit_directory", path: "src" });
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "src", ref: "main" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("listDirectory");
+            });
+
+            it("should handle 404", async() => {
+                client.get.mockRejectedValueOnce(make404());
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "missing.ts", ref: "main" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("not found");
+            });
+        });
+
+        describe("listDirectory", () => {
+            it("should list directory entries", async() => {
+                client.getPaginated.mockResolvedValueOnce({
+                    values: [
+                        { type: "commit_directory", path: "src/tools" },
+                        { type: "commit_file", path: "src/index.ts", size: 120 }
+                    ]
+                });
+
+                const handler = toolHandlers.get("listDirectory")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "src", ref: "main" }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(response.result).toEqual([
+                    { path: "src/tools", type: "directory" },
+                    { path: "src/index.ts", type: "file", size: 120 }
+                ]);
+                expect(client.getPaginated).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/src/main/src/",
+                    { pagelen: undefined, page: undefined, all: undefined }
+                );
+            });
+        });
+    });
+
+    describe("Data Center", () => {
+        let client: ReturnType<typeof createMockClient>;
+        let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+        });
+
+        describe("getFileContent", () => {
+            it("should read raw content with the ref as `at`", async() => {
+                client.get.mockResolvedValueOnce({ size: 3 });
+                client.getText.mockResolvedValueOnce("abc");
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "docs/a.md", ref: "refs/heads/main" }) as never);
+
+                expect(response.result).toMatchObject({ content: "abc", size: 3, ref: "refs/heads/main" });
+                expect(client.get).toHaveBeenCalledWith(
+                    "/projects/default-ws/repos/my-repo/browse/docs/a.md",
+                    { at: "refs/heads/main", size: true }
+                );
+                expect(client.getText).toHaveBeenCalledWith(
+                    "/projects/default-ws/repos/my-repo/raw/docs/a.md",
+                    { at: "refs/heads/main" }
+                );
+            });
+
+            it("should reject directories", async() => {
+                client.get.mockResolvedValueOnce({
+                    path: { components: ["src"], toString: "src" },
+                    children: { size: 0, limit: 25, start: 0, isLastPage: true, values: [] }
+                });
+
+                const handler = toolHandlers.get("getFileContent")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "src", ref: "refs/heads/main" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("listDirectory");
+                expect(client.getText).not.toHaveBeenCalled();
+            });
+        });
+
+        describe("listDirectory", () => {
+            it("should map browse children to directory entries", async() => {
+                client.get.mockResolvedValueOnce({
+                    path: { components: ["src"], toString: "src" },
+                    children: {
+                        size: 2,
+                        limit: 25,
+                        start: 0,
+                        isLastPage: true,
+                        values: [
+                            { path: { components: ["tools"], name: "tools", toString: "tools" }, type: "DIRECTORY" },
+                            { path: { components: ["index.ts"], name: "index.ts", toString: "index.ts" }, type: "FILE", size: 42 }
+                        ]
+                    }
+                });
+
+                const handler = toolHandlers.get("listDirectory")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", path: "src" }) as never);
+
+                expect(response.result).toEqual([
+                    { path: "src/tools", type: "directory" },
+                    { path: "src/index.ts", type: "file", size: 42 }
+                ]);
+                expect(client.get).toHaveBeenCalledWith(
+                    "/projects/default-ws/repos/my-repo/browse/src",
+                    { at: undefined, limit: 25, start: 0 }
+                );
+            });
+        });
+    });
+});
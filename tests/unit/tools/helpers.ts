@@ -18,6 +18,7 @@ export function createMockClient(platform: "cloud" | "datacenter" = "cloud"): je
         put: jest.fn(),
         delete: jest.fn(),
         getPaginated: jest.fn(),
+        rateLimitStatus: jest.fn(),
         platform,
         isCloud: platform === "cloud",
         isDataCenter: platform === "datacenter"
@@ -44,5 +45,5 @@ export function make404(url = "test"): BitbucketClientError {
 export function extractToolResponse(result: { content: Array<{ type: string; text: string }>; isError?: boolean }) {
     const text = result.content[0].text;
 
-    return JSON.parse(text) as { status: string; message: string; result: unknown };
+    return JSON.parse(text) as { status: string; message: string; result: unknown; truncated?: boolean; omitted?: number; cursor?: string };
 }
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import type { BitbucketClient } from "../../../src/bitbucket/client.js";
+import type { PathBuilder } from "../../../src/bitbucket/utils.js";
+import { toMcpResult, toolSuccess } from "../../../src/response.js";
+import { registerInstanceTools, type ToolInstance } from "../../../src/tools/instances.js";
+import { createMockClient, createPaths, extractToolResponse } from "./helpers.js";
+
+type Handler = (args: Record<string, unknown>, extra?: unknown) => Promise<unknown>;
+
+/** Registers `whoami`, answering with the instance's platform, default workspace and arguments. */
+function registerWhoamiTools(server: McpServer, client: BitbucketClient, paths: PathBuilder, defaultWorkspace?: string): void {
+    server.registerTool(
+        "whoami",
+        { description: "Who am I", inputSchema: { repoSlug: z.string().optional() }},
+        async args => toMcpResult(toolSuccess({ platform: client.platform, cloud: paths.isCloud, defaultWorkspace, args }))
+    );
+}
+
+describe("registerInstanceTools", () => {
+    let server: McpServer;
+    let registered: Map<string, { config: { inputSchema?: Record<string, unknown> }; handler: Handler }>;
+
+    const instance = (name: string, platform: "cloud" | "datacenter", defaultWorkspace?: string): ToolInstance => ({
+        name,
+        client: createMockClient(platform),
+        paths: createPaths(platform),
+        defaultWorkspace
+    });
+
+    beforeEach(() => {
+        server = new McpServer({ name: "test", version: "0.0.1" });
+        registered = new Map();
+
+        const originalRegisterTool = server.registerTool.bind(server);
+
+        server.registerTool = ((...args: unknown[]) => {
+            registered.set(args[0] as string, { config: args[1] as never, handler: args[2] as Handler });
+
+            return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+        }) as typeof server.registerTool;
+    });
+
+    it("should register tools unchanged for a single instance", () => {
+        registerInstanceTools(server, [instance("default", "cloud")], "default", registerWhoamiTools);
+
+        expect(registered.get("whoami")!.config.inputSchema).not.toHaveProperty("instance");
+    });
+
+    it("should add an instance input and dispatch to that instance", async() => {
+        registerInstanceTools(
+            server,
+            [instance("cloud", "cloud", "acme"), instance("dc", "datacenter", "PROJ")],
+            "cloud",
+            registerWhoamiTools
+        );
+
+        const { config, handler } = registered.get("whoami")!;
+
+        expect(registered.size).toBe(1);
+        expect((config.inputSchema!.instance as { description?: string }).description).toBe("Bitbucket instance: cloud (Cloud), dc (Data Center) (default: cloud)");
+
+        const dc = extractToolResponse(await handler({ instance: "dc", repoSlug: "repo" }) as never);
+
+        expect(dc.result).toEqual({ platform: "datacenter", cloud: false, defaultWorkspace: "PROJ", args: { repoSlug: "repo" }});
+
+        const fallback = extractToolResponse(await handler({}) as never);
+
+        expect(fallback.result).toEqual({ platform: "cloud", cloud: true, defaultWorkspace: "acme", args: {}});
+    });
+});
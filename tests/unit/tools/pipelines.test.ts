@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { registerPipelineTools } from "../../../src/tools/pipelines.js";
+import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
+
+function setupToolHandlers(platform: "cloud" | "datacenter" = "cloud") {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const client = createMockClient(platform);
+    const toolHandlers = new Map<string, (args: Record<string, unknown>) => Promise<unknown>>();
+    const paths = createPaths(platform);
+
+    const originalRegisterTool = server.registerTool.bind(server);
+
+    server.registerTool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
+
+        toolHandlers.set(name, handler);
+
+        return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+    }) as typeof server.registerTool;
+
+    registerPipelineTools(server, client, paths, "default-ws");
+
+    return { client, toolHandlers };
+}
+
+describe("Pipeline Tools", () => {
+    let client: ReturnType<typeof createMockClient>;
+    let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+
+    describe("Cloud", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("cloud"));
+        });
+
+        describe("listPipelines", () => {
+            it("should list pipelines of a branch newest first", async() => {
+                const pipelines = [{ uuid: "{p1}", build_number: 7 }];
+
+                client.getPaginated.mockResolvedValueOnce({ values: pipelines });
+
+                const handler = toolHandlers.get("listPipelines")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", branch: "main" }) as never);
+
+                expect(response.result).toEqual(pipelines);
+                expect(client.getPaginated).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/pipelines",
+                    expect.anything(),
+                    { "sort": "-created_on", "target.branch": "main" }
+                );
+            });
+
+            it("should list pipelines of a pull request's source branch", async() => {
+                client.get.mockResolvedValueOnce({ id: 3, source: { branch: { name: "feature/x" }}});
+                client.getPaginated.mockResolvedValueOnce({ values: [] });
+
+                const handler = toolHandlers.get("listPipelines")!;
+
+                await handler({ repoSlug: "my-repo", pullRequestId: 3 });
+
+                expect(client.get).toHaveBeenCalledWith("/repositories/default-ws/my-repo/pullrequests/3");
+                expect(client.getPaginated).toHaveBeenCalledWith(
+                    expect.anything(),
+                    expect.anything(),
+                    expect.objectContaining({ "target.branch": "feature/x" })
+                );
+            });
+
+            it("should reject branch and pullRequestId together", async() => {
+                const handler = toolHandlers.get("listPipelines")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", branch: "main", pullRequestId: 1 }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(client.getPaginated).not.toHaveBeenCalled();
+            });
+        });
+
+        describe("getPipelineSteps", () => {
+            it("should return all steps of a pipeline", async() => {
+                const steps = [{ uuid: "{s1}", name: "Build" }];
+
+                client.getPaginated.mockResolvedValueOnce({ values: steps });
+
+                const handler = toolHandlers.get("getPipelineSteps")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", pipeline: "{p1}" }) as never);
+
+                expect(response.result).toEqual(steps);
+                expect(client.getPaginated).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/pipelines/%7Bp1%7D/steps",
+                    { all: true }
+                );
+            });
+        });
+
+        describe("getPipelineStepLog", () => {
+            it("should return the last lines of the log", async() => {
+                client.getText.mockResolvedValueOnce("one\ntwo\nthree\nfour\n");
+
+                const handler = toolHandlers.get("getPipelineStepLog")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", pipeline: "{p1}", step: "{s1}", tailLines: 2 }) as never);
+
+                expect(response.result).toBe("three\nfour");
+                expect(response.message).toBe("Showing the last 2 of 4 log lines.");
+                expect(client.getText).toHaveBeenCalledWith("/repositories/default-ws/my-repo/pipelines/%7Bp1%7D/steps/%7Bs1%7D/log");
+            });
+
+            it("should report a missing log as not found", async() => {
+                client.getText.mockRejectedValueOnce(make404());
+
+                const handler = toolHandlers.get("getPipelineStepLog")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", pipeline: "{p1}", step: "{s1}" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("not found");
+            });
+        });
+
+        describe("triggerPipeline", () => {
+            it("should run a custom pipeline on a branch with variables", async() => {
+                client.post.mockResolvedValueOnce({ uuid: "{p2}", build_number: 8 });
+
+                const handler = toolHandlers.get("triggerPipeline")!;
+                const response = extractToolResponse(await handler({
+                    repoSlug: "my-repo",
+                    ref: "main",
+                    pipeline: "deploy",
+                    variables: [{ key: "ENV", value: "staging" }]
+                }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(client.post).toHaveBeenCalledWith("/repositories/default-ws/my-repo/pipelines", {
+                    target: {
+                        type: "pipeline_ref_target",
+                        ref_type: "branch",
+                        ref_name: "main",
+                        selector: { type: "custom", pattern: "deploy" }
+                    },
+                    variables: [{ key: "ENV", value: "staging" }]
+                });
+            });
+        });
+
+        describe("stopPipeline", () => {
+            it("should stop a pipeline", async() => {
+                client.post.mockResolvedValueOnce(null);
+
+                const handler = toolHandlers.get("stopPipeline")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", pipeline: "{p1}" }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(client.post).toHaveBeenCalledWith("/repositories/default-ws/my-repo/pipelines/%7Bp1%7D/stopPipeline");
+            });
+        });
+    });
+
+    // ── Data Center (unsupported) ────────────────────────────────────────
+
+    describe("Data Center", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+        });
+
+        it.each([
+            ["listPipelines", { repoSlug: "my-repo" }],
+            ["getPipelineSteps", { repoSlug: "my-repo", pipeline: "{p1}" }],
+            ["getPipelineStepLog", { repoSlug: "my-repo", pipeline: "{p1}", step: "{s1}" }],
+            ["triggerPipeline", { repoSlug: "my-repo", ref: "main" }],
+            ["stopPipeline", { repoSlug: "my-repo", pipeline: "{p1}" }]
+        ])("%s should reject on Data Center", async(name, args) => {
+            const handler = toolHandlers.get(name)!;
+            const response = extractToolResponse(await handler(args) as never);
+
+            expect(response.status).toBe("FAILED");
+            expect(response.message).toContain("only available on Bitbucket Cloud");
+        });
+    });
+});
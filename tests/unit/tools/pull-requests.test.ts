@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+import { decodeCursor, encodeCursor } from "../../../src/response.js";
+import { getPullRequestsOutput } from "../../../src/tools/output-schemas.js";
 import { registerPullRequestTools } from "../../../src/tools/pull-requests.js";
 import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
 
@@ -43,7 +45,88 @@ describe("Pull Request Tools", () => {
             const response = extractToolResponse(result as never);
 
             expect(response.status).toBe("COMPLETED");
-            expect(response.result).toEqual(mockPRs);
+            expect(response.result).toEqual([
+                expect.objectContaining({ id: 1, title: "PR 1", state: "OPEN", reviewers: [] }),
+                expect.objectContaining({ id: 2, title: "PR 2", state: "MERGED", reviewers: [] })
+            ]);
+            expect(() => getPullRequestsOutput.parse(response)).not.toThrow();
+        });
+
+        it("should normalize Data Center pull requests to the same shape and keep the payload with raw", async() => {
+            const dcServer = new McpServer({ name: "test", version: "0.0.1" });
+            const dcClient = createMockClient("datacenter");
+            let handler: ((args: Record<string, unknown>) => Promise<unknown>) | undefined;
+            const dcPR = {
+                id: 3,
+                version: 0,
+                title: "Feature",
+                state: "OPEN",
+                author: { user: { name: "ann", displayName: "Ann", id: 5 }, role: "AUTHOR", approved: false, status: "UNAPPROVED" },
+                createdDate: 1767225600000,
+                fromRef: { id: "refs/heads/feature", displayId: "feature", latestCommit: "abc", repository: { slug: "app", project: { key: "PRJ" }}},
+                toRef: { id: "refs/heads/main", displayId: "main", latestCommit: "def", repository: { slug: "app", project: { key: "PRJ" }}}
+            };
+
+            const originalRegisterTool = dcServer.registerTool.bind(dcServer);
+
+            dcServer.registerTool = ((...args: unknown[]) => {
+                if (args[0] === "getPullRequests") handler = args[args.length - 1] as typeof handler;
+
+                return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+            }) as typeof dcServer.registerTool;
+
+            registerPullRequestTools(dcServer, dcClient, createPaths("datacenter"), "PRJ");
+
+            dcClient.getPaginated.mockResolvedValueOnce({ values: [dcPR] });
+
+            const response = extractToolResponse(await handler!({ repoSlug: "app", raw: true }) as never);
+
+            expect(response.result).toEqual([
+                expect.objectContaining({
+                    author: { id: "5", username: "ann", displayName: "Ann" },
+                    source: { branch: "feature", commit: "abc", repository: "PRJ/app" },
+                    destination: { branch: "main", commit: "def", repository: "PRJ/app" },
+                    createdOn: "2026-01-01T00:00:00.000Z",
+                    raw: dcPR
+                })
+            ]);
+            expect(() => getPullRequestsOutput.parse(response)).not.toThrow();
+        });
+
+        it("should return a cursor to the next page and accept it back", async() => {
+            const next = "https://api.bitbucket.org/2.0/repositories/default-ws/my-repo/pullrequests?page=2";
+
+            client.getPaginated.mockResolvedValueOnce({ values: [{ id: 1 }], next });
+
+            const handler = toolHandlers.get("getPullRequests")!;
+            const first = extractToolResponse(await handler({ repoSlug: "my-repo" }) as never);
+
+            expect(decodeCursor(first.cursor!)).toEqual({ next });
+
+            client.getPaginated.mockResolvedValueOnce({ values: [{ id: 2 }] });
+
+            const second = extractToolResponse(await handler({ repoSlug: "my-repo", cursor: first.cursor }) as never);
+
+            expect(second.cursor).toBeUndefined();
+            expect(client.getPaginated).toHaveBeenLastCalledWith(
+                "/repositories/default-ws/my-repo/pullrequests",
+                expect.objectContaining({ next }),
+                expect.anything()
+            );
+        });
+
+        it("should resume a Data Center listing from nextPageStart", async() => {
+            client.getPaginated.mockResolvedValueOnce({ values: [] });
+
+            const handler = toolHandlers.get("getPullRequests")!;
+
+            await handler({ repoSlug: "my-repo", cursor: encodeCursor({ next: 25 }) });
+
+            expect(client.getPaginated).toHaveBeenCalledWith(
+                "/repositories/default-ws/my-repo/pullrequests",
+                expect.objectContaining({ next: 25 }),
+                expect.anything()
+            );
         });
 
         it("should pass state filter", async() => {
@@ -89,7 +172,7 @@ describe("Pull Request Tools", () => {
 
             expect(response.status).toBe("COMPLETED");
             expect(response.message).toContain("created");
-            expect(response.result).toEqual(mockPR);
+            expect(response.result).toEqual(expect.objectContaining(mockPR));
             expect(client.post).toHaveBeenCalledWith(
                 "/repositories/default-ws/my-repo/pullrequests",
                 expect.objectContaining({
@@ -155,7 +238,8 @@ describe("Pull Request Tools", () => {
             const response = extractToolResponse(result as never);
 
             expect(response.status).toBe("COMPLETED");
-            expect(response.result).toEqual(mockPR);
+            expect(response.result).toEqual(expect.objectContaining(mockPR));
+            expect(response.result).not.toHaveProperty("raw");
             expect(client.get).toHaveBeenCalledWith("/repositories/default-ws/my-repo/pullrequests/1");
         });
 
@@ -332,6 +416,31 @@ describe("Pull Request Tools", () => {
             expect(response.status).toBe("COMPLETED");
             expect(response.result).toEqual(mockStatuses);
         });
+
+        it("should read the build statuses of the head commit on Data Center", async() => {
+            const dcServer = new McpServer({ name: "test", version: "0.0.1" });
+            const dcClient = createMockClient("datacenter");
+            let handler: ((args: Record<string, unknown>) => Promise<unknown>) | undefined;
+
+            const originalRegisterTool = dcServer.registerTool.bind(dcServer);
+
+            dcServer.registerTool = ((...args: unknown[]) => {
+                if (args[0] === "getPullRequestStatuses") handler = args[args.length - 1] as typeof handler;
+
+                return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+            }) as typeof dcServer.registerTool;
+
+            registerPullRequestTools(dcServer, dcClient, createPaths("datacenter"), "PL");
+
+            dcClient.get.mockResolvedValueOnce({ id: 1, fromRef: { latestCommit: "abc123" }});
+            dcClient.getPaginated.mockResolvedValueOnce({ values: [{ state: "FAILED", key: "lint" }] });
+
+            const response = extractToolResponse(await handler!({ repoSlug: "my-repo", pullRequestId: 1 }) as never);
+
+            expect(response.status).toBe("COMPLETED");
+            expect(dcClient.get).toHaveBeenCalledWith("/projects/PL/repos/my-repo/pull-requests/1");
+            expect(dcClient.getPaginated).toHaveBeenCalledWith("/rest/build-status/1.0/commits/abc123", expect.anything());
+        });
     });
 
     describe("getPullRequestActivity", () => {
@@ -348,4 +457,76 @@ describe("Pull Request Tools", () => {
             expect(response.result).toEqual(mockActivity);
         });
     });
+
+    describe("getPullRequestOverview", () => {
+        const listings: Record<string, unknown[]> = {
+            "/diffstat": [{ status: "modified", new: { path: "src/a.ts" }, lines_added: 3, lines_removed: 1 }],
+            "/statuses": [{ state: "SUCCESSFUL", key: "build" }, { state: "FAILED", key: "lint", name: "Lint" }],
+            "/tasks": [{ state: "UNRESOLVED" }, { state: "RESOLVED" }],
+            "/comments": [{ id: 1, deleted: false }, { id: 2, parent: { id: 1 }, deleted: false }, { id: 3, deleted: false, resolution: { type: "comment_resolution" }}]
+        };
+
+        it("should summarize the pull request from concurrent calls", async() => {
+            client.get.mockResolvedValueOnce({
+                id: 1,
+                title: "Add a",
+                state: "OPEN",
+                author: { display_name: "Ann" },
+                source: { branch: { name: "feature/a" }},
+                destination: { branch: { name: "main" }},
+                reviewers: [{ uuid: "{b}", display_name: "Bob" }],
+                participants: [{ user: { uuid: "{b}", display_name: "Bob" }, role: "REVIEWER", approved: true }],
+                links: { html: { href: "https://bitbucket.org/default-ws/my-repo/pull-requests/1" }}
+            });
+            client.getPaginated.mockImplementation(async(path: string) => {
+                return { values: listings[path.slice(path.lastIndexOf("/"))] ?? [] };
+            });
+
+            const response = extractToolResponse(await toolHandlers.get("getPullRequestOverview")!({ repoSlug: "my-repo", pullRequestId: 1 }) as never);
+
+            expect(response.status).toBe("COMPLETED");
+            expect(response.result).toEqual({
+                pullRequest: expect.objectContaining({
+                    id: 1,
+                    title: "Add a",
+                    author: { id: null, username: null, displayName: "Ann" },
+                    source: { branch: "feature/a", commit: null, repository: null },
+                    reviewers: [{ user: { id: "{b}", username: null, displayName: "Bob" }, state: "approved" }],
+                    url: "https://bitbucket.org/default-ws/my-repo/pull-requests/1"
+                }),
+                builds: { state: "FAILED", total: 2, successful: 1, failed: 1, inProgress: 0, failing: ["Lint"] },
+                openTasks: 1,
+                unresolvedThreads: 1,
+                files: [{ path: "src/a.ts", status: "modified", linesAdded: 3, linesRemoved: 1 }],
+                errors: {}
+            });
+        });
+
+        it("should report the sections that failed and keep the others", async() => {
+            client.get.mockResolvedValueOnce({ id: 1, title: "Add a", state: "OPEN" });
+            client.getPaginated.mockImplementation(async(path: string) => {
+                if (path.endsWith("/statuses")) throw new Error("Forbidden");
+
+                return { values: listings[path.slice(path.lastIndexOf("/"))] ?? [] };
+            });
+
+            const response = extractToolResponse(await toolHandlers.get("getPullRequestOverview")!({ repoSlug: "my-repo", pullRequestId: 1 }) as never);
+            const result = response.result as Record<string, unknown>;
+
+            expect(response.status).toBe("COMPLETED");
+            expect(response.message).toContain("builds");
+            expect(result.builds).toBeNull();
+            expect(result.errors).toEqual({ builds: "Forbidden" });
+            expect(result.openTasks).toBe(1);
+        });
+
+        it("should return not found when the pull request does not exist", async() => {
+            client.get.mockRejectedValueOnce(make404());
+            client.getPaginated.mockRejectedValue(make404());
+
+            const response = extractToolResponse(await toolHandlers.get("getPullRequestOverview")!({ repoSlug: "my-repo", pullRequestId: 9 }) as never);
+
+            expect(response.status).toBe("FAILED");
+        });
+    });
 });
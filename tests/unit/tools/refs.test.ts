@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { registerRefTools } from "../../../src/tools/refs.js";
+import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
+
+function setupToolHandlers(platform: "cloud" | "datacenter" = "cloud") {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const client = createMockClient(platform);
+    const toolHandlers = new Map<string, (args: Record<string, unknown>) => Promise<unknown>>();
+    const paths = createPaths(platform);
+
+    const originalRegisterTool = server.registerTool.bind(server);
+
+    server.registerTool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
+
+        toolHandlers.set(name, handler);
+
+        return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+    }) as typeof server.registerTool;
+
+    registerRefTools(server, client, paths, "default-ws");
+
+    return { client, toolHandlers };
+}
+
+describe("Ref Tools", () => {
+    let client: ReturnType<typeof createMockClient>;
+    let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+
+    describe("Cloud", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("cloud"));
+        });
+
+        describe("createBranch", () => {
+            it("should create a branch from a start point", async() => {
+                const branch = { name: "feature/x", target: { hash: "abc" }};
+
+                client.post.mockResolvedValueOnce(branch);
+
+                const handler = toolHandlers.get("createBranch")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", name: "feature/x", startPoint: "abc" }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(response.result).toEqual(branch);
+                expect(client.post).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/refs/branches",
+                    { name: "feature/x", target: { hash: "abc" }}
+                );
+            });
+
+            it("should return not found when the start point is missing", async() => {
+                client.post.mockRejectedValueOnce(make404());
+
+                const handler = toolHandlers.get("createBranch")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", name: "x", startPoint: "nope" }) as never);
+
+                expect(response.status).toBe("FAILED");
+                expect(response.message).toContain("not found");
+            });
+        });
+
+        describe("deleteBranch", () => {
+            it("should delete the branch by name", async() => {
+                client.delete.mockResolvedValueOnce(undefined);
+
+                const handler = toolHandlers.get("deleteBranch")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", name: "feature/x" }) as never);
+
+                expect(response.status).toBe("COMPLETED");
+                expect(client.delete).toHaveBeenCalledWith("/repositories/default-ws/my-repo/refs/branches/feature%2Fx");
+            });
+        });
+
+        describe("createTag", () => {
+            it("should create an annotated tag when a message is given", async() => {
+                client.post.mockResolvedValueOnce({ name: "v1.0.0" });
+
+                const handler = toolHandlers.get("createTag")!;
+
+                await handler({ repoSlug: "my-repo", name: "v1.0.0", target: "abc", message: "Release 1.0" });
+
+                expect(client.post).toHaveBeenCalledWith(
+                    "/repositories/default-ws/my-repo/refs/tags",
+                    { name: "v1.0.0", target: { hash: "abc" }, message: "Release 1.0" }
+                );
+            });
+        });
+
+        describe("compareRefs", () => {
+            it("should count commits ahead and behind", async() => {
+                client.getPaginated.
+                    mockResolvedValueOnce({ values: [{ hash: "a2" }, { hash: "a1" }] }).
+                    mockResolvedValueOnce({ values: [{ hash: "b1" }] });
+
+                const handler = toolHandlers.get("compareRefs")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", source: "feature", destination: "main", limit: 1 }) as never);
+
+                expect(response.result).toEqual({
+                    source: "feature",
+                    destination: "main",
+                    ahead: 2,
+                    behind: 1,
+                    complete: true,
+                    commits: [{ hash: "a2" }]
+                });
+                expect(client.getPaginated).toHaveBeenNthCalledWith(
+                    1,
+                    "/repositories/default-ws/my-repo/commits",
+                    expect.objectContaining({ all: true }),
+                    { include: "feature", exclude: "main" }
+                );
+                expect(client.getPaginated).toHaveBeenNthCalledWith(
+                    2,
+                    "/repositories/default-ws/my-repo/commits",
+                    expect.objectContaining({ all: true }),
+                    { include: "main", exclude: "feature" }
+                );
+            });
+
+            it("should flag capped counts as incomplete", async() => {
+                client.getPaginated.
+                    mockResolvedValueOnce({ values: [{ hash: "a1" }], next: "https://api.bitbucket.org/2.0/next" }).
+                    mockResolvedValueOnce({ values: [] });
+
+                const handler = toolHandlers.get("compareRefs")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", source: "feature", destination: "main" }) as never);
+
+                expect((response.result as { complete: boolean }).complete).toBe(false);
+            });
+        });
+    });
+
+    describe("Data Center", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+        });
+
+        it("should create branches through branch-utils", async() => {
+            client.post.mockResolvedValueOnce({ id: "refs/heads/feature/x" });
+
+            const handler = toolHandlers.get("createBranch")!;
+
+            await handler({ workspace: "PL", repoSlug: "my-repo", name: "feature/x", startPoint: "main" });
+
+            expect(client.post).toHaveBeenCalledWith(
+                "/rest/branch-utils/latest/projects/PL/repos/my-repo/branches",
+                { name: "feature/x", startPoint: "main" }
+            );
+        });
+
+        it("should delete branches through branch-utils with the full ref name", async() => {
+            client.delete.mockResolvedValueOnce(undefined);
+
+            const handler = toolHandlers.get("deleteBranch")!;
+
+            await handler({ workspace: "PL", repoSlug: "my-repo", name: "feature/x", endPoint: "abc" });
+
+            expect(client.delete).toHaveBeenCalledWith(
+                "/rest/branch-utils/latest/projects/PL/repos/my-repo/branches",
+                undefined,
+                { name: "refs/heads/feature/x", endPoint: "abc", dryRun: false }
+            );
+        });
+
+        it("should create a lightweight tag without a message", async() => {
+            client.post.mockResolvedValueOnce({ id: "refs/tags/v1" });
+
+            const handler = toolHandlers.get("createTag")!;
+
+            await handler({ workspace: "PL", repoSlug: "my-repo", name: "v1", target: "abc" });
+
+            expect(client.post).toHaveBeenCalledWith("/projects/PL/repos/my-repo/tags", { name: "v1", startPoint: "abc" });
+        });
+
+        it("should compare refs with since/until", async() => {
+            client.getPaginated.
+                mockResolvedValueOnce({ values: [] }).
+                mockResolvedValueOnce({ values: [] });
+
+            const handler = toolHandlers.get("compareRefs")!;
+
+            await handler({ workspace: "PL", repoSlug: "my-repo", source: "feature", destination: "main" });
+
+            expect(client.getPaginated).toHaveBeenNthCalledWith(
+                1,
+                "/projects/PL/repos/my-repo/commits",
+                expect.anything(),
+                { until: "feature", since: "main" }
+            );
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import { cursorNext, decodeCursor, encodeCursor, toMcpResult, toolFailure, toolPage, toolSuccess } from "../../../src/response.js";
+import { applyResponseLimit } from "../../../src/tools/response-limit.js";
+import { extractToolResponse } from "./helpers.js";
+
+type Handler = (args: Record<string, unknown>, extra?: unknown) => Promise<unknown>;
+
+describe("applyResponseLimit", () => {
+    let server: McpServer;
+    let registered: Map<string, { config: { inputSchema?: Record<string, unknown> }; handler: Handler }>;
+    let calls: Array<Record<string, unknown>>;
+
+    beforeEach(() => {
+        server = new McpServer({ name: "test", version: "0.0.1" });
+        registered = new Map();
+        calls = [];
+
+        const originalRegisterTool = server.registerTool.bind(server);
+
+        server.registerTool = ((...args: unknown[]) => {
+            registered.set(args[0] as string, { config: args[1] as never, handler: args[2] as Handler });
+
+            return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+        }) as typeof server.registerTool;
+
+        applyResponseLimit(server, 300);
+
+        server.registerTool(
+            "listThings",
+            { description: "List things", inputSchema: { repoSlug: z.string() }},
+            async args => {
+                calls.push(args);
+
+                return toMcpResult(toolSuccess(Array.from({ length: 100 }, (_, i) => ({ id: i }))));
+            }
+        );
+        server.registerTool(
+            "listPages",
+            { description: "Paginated", inputSchema: { cursor: z.string().optional().describe("Page cursor") }},
+            async({ cursor }) => {
+                calls.push({ cursor });
+
+                return toMcpResult(toolPage(Array.from({ length: 100 }, (_, i) => ({ id: i })), (cursorNext(cursor) as number ?? 0) + 100));
+            }
+        );
+        server.registerTool(
+            "getFile",
+            { description: "File", inputSchema: {}},
+            async() => toMcpResult(toolSuccess({ path: "big.txt", content: "x\n".repeat(500) }))
+        );
+        server.registerTool(
+            "failing",
+            { description: "Fails", inputSchema: {}},
+            async() => toMcpResult(toolFailure("x".repeat(1000)))
+        );
+    });
+
+    it("should cut the content of object results", async() => {
+        const response = extractToolResponse(await registered.get("getFile")!.handler({}));
+        const file = response.result as { path: string; content: string };
+
+        expect(file.path).toBe("big.txt");
+        expect(file.content.length).toBeLessThan(1000);
+        expect(response.truncated).toBe(true);
+        expect(response.omitted).toBe(1000 - file.content.length);
+
+        const rest = extractToolResponse(await registered.get("getFile")!.handler({ cursor: response.cursor }));
+        const next = (rest.result as { content: string }).content;
+
+        expect(decodeCursor(rest.cursor!)).toEqual({ field: "content", skip: file.content.length + next.length });
+    });
+
+    it("should add an optional cursor input to every tool", () => {
+        expect(registered.get("listThings")!.config.inputSchema).toHaveProperty("cursor");
+        expect(registered.get("listThings")!.config.inputSchema).toHaveProperty("repoSlug");
+        expect(registered.get("failing")!.config.inputSchema).toHaveProperty("cursor");
+    });
+
+    it("should truncate oversized results and resume from the cursor", async() => {
+        const handler = registered.get("listThings")!.handler;
+        const first = extractToolResponse(await handler({ repoSlug: "repo" }) as never);
+
+        expect(first.truncated).toBe(true);
+        expect(first.cursor).toBeDefined();
+
+        const firstIds = (first.result as Array<{ id: number }>).map(item => item.id);
+        const second = extractToolResponse(await handler({ repoSlug: "repo", cursor: first.cursor }) as never);
+
+        expect((second.result as Array<{ id: number }>)[0].id).toBe(firstIds.length);
+        expect(decodeCursor(first.cursor!)).toEqual({ skip: firstIds.length });
+        expect(calls[1]).toEqual({ repoSlug: "repo" });
+    });
+
+    it("should keep the cursor of tools that declare one and pass it through", async() => {
+        const { config, handler } = registered.get("listPages")!;
+
+        expect((config.inputSchema!.cursor as { description?: string }).description).toBe("Page cursor");
+
+        const first = extractToolResponse(await handler({ cursor: encodeCursor({ next: 100 }) }) as never);
+        const kept = (first.result as unknown[]).length;
+
+        expect(calls[0]).toEqual({ cursor: encodeCursor({ next: 100 }) });
+        expect(decodeCursor(first.cursor!)).toEqual({ next: 100, skip: kept });
+    });
+
+    it("should reject invalid cursors without calling the tool", async() => {
+        const handler = registered.get("listThings")!.handler;
+        const response = extractToolResponse(await handler({ repoSlug: "repo", cursor: "garbage" }) as never);
+
+        expect(response.status).toBe("FAILED");
+        expect(response.message).toBe("Invalid cursor.");
+        expect(calls).toHaveLength(0);
+    });
+
+    it("should pass failures through untouched", async() => {
+        const response = extractToolResponse(await registered.get("failing")!.handler({}) as never);
+
+        expect(response.status).toBe("FAILED");
+        expect(response.message).toHaveLength(1000);
+    });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { decodeCursor, encodeCursor } from "../../../src/response.js";
+import { searchCodeOutput } from "../../../src/tools/output-schemas.js";
+import { registerSearchTools } from "../../../src/tools/search.js";
+import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
+
+function setupToolHandlers(platform: "cloud" | "datacenter" = "cloud") {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const client = createMockClient(platform);
+    const toolHandlers = new Map<string, (args: Record<string, unknown>) => Promise<unknown>>();
+    const paths = createPaths(platform);
+
+    const originalRegisterTool = server.registerTool.bind(server);
+
+    server.registerTool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (args: Record<string, unknown>) => Promise<unknown>;
+
+        toolHandlers.set(name, handler);
+
+        return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+    }) as typeof server.registerTool;
+
+    registerSearchTools(server, client, paths, "default-ws");
+
+    return { client, toolHandlers };
+}
+
+describe("Search Tools", () => {
+    let client: ReturnType<typeof createMockClient>;
+    let toolHandlers: Map<string, (args: Record<string, unknown>) => Promise<unknown>>;
+
+    describe("Cloud", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("cloud"));
+        });
+
+        it("should return paths, line numbers and matched fragments", async() => {
+            client.getPaginated.mockResolvedValueOnce({
+                values: [
+                    {
+                        type: "code_search_result",
+                        content_match_count: 1,
+                        content_matches: [
+                            {
+                                lines: [
+                                    { line: 11, segments: [{ text: "// helpers" }] },
+                                    { line: 12, segments: [{ text: "export function " }, { text: "parseDiff", match: true }, { text: "(text) {" }] }
+                                ]
+                            }
+                        ],
+                        path_matches: [],
+                        file: { path: "src/diff.ts", type: "commit_file", commit: { hash: "abc", repository: { full_name: "default-ws/my-repo" }}}
+                    }
+                ]
+            });
+
+            const handler = toolHandlers.get("searchCode")!;
+            const response = extractToolResponse(await handler({ query: "parseDiff", repoSlug: "my-repo" }) as never);
+
+            expect(response.result).toEqual([
+                {
+                    repository: "default-ws/my-repo",
+                    path: "src/diff.ts",
+                    matches: [{ line: 12, text: "export function parseDiff(text) {", fragments: ["parseDiff"] }]
+                }
+            ]);
+            expect(searchCodeOutput.safeParse(response).success).toBe(true);
+            expect(client.getPaginated).toHaveBeenCalledWith(
+                "/workspaces/default-ws/search/code",
+                expect.objectContaining({ pagelen: 25 }),
+                expect.objectContaining({ search_query: "parseDiff repo:my-repo" })
+            );
+        });
+
+        it("should report an empty search", async() => {
+            client.getPaginated.mockResolvedValueOnce({ values: [] });
+
+            const handler = toolHandlers.get("searchCode")!;
+            const response = extractToolResponse(await handler({ query: "nothing" }) as never);
+
+            expect(response.status).toBe("COMPLETED");
+            expect(response.result).toBeNull();
+            expect(searchCodeOutput.safeParse(response).success).toBe(true);
+        });
+
+        it("should return not found for an unknown workspace", async() => {
+            client.getPaginated.mockRejectedValueOnce(make404());
+
+            const handler = toolHandlers.get("searchCode")!;
+            const response = extractToolResponse(await handler({ workspace: "nope", query: "x" }) as never);
+
+            expect(response.status).toBe("FAILED");
+            expect(response.message).toContain("not found");
+        });
+    });
+
+    describe("Data Center", () => {
+        beforeEach(() => {
+            ({ client, toolHandlers } = setupToolHandlers("datacenter"));
+        });
+
+        it("should search the project through the search REST API and unescape matches", async() => {
+            client.post.mockResolvedValueOnce({
+                code: {
+                    isLastPage: false,
+                    count: 30,
+                    start: 0,
+                    nextStart: 25,
+                    values: [
+                        {
+                            repository: { slug: "my-repo", project: { key: "PL" }},
+                            file: "src/a.ts",
+                            hitContexts: [
+                                [
+                                    { line: 3, text: "import x;" },
+                                    { line: 4, text: "if (a &lt; b) <em>parseDiff</em>(&quot;x&quot;);" }
+                                ]
+                            ],
+                            pathMatches: [],
+                            hitCount: 1
+                        }
+                    ]
+                }
+            });
+
+            const handler = toolHandlers.get("searchCode")!;
+            const response = extractToolResponse(await handler({ workspace: "PL", query: "parseDiff", repoSlug: "my-repo" }) as never);
+
+            expect(response.result).toEqual([
+                {
+                    repository: "PL/my-repo",
+                    path: "src/a.ts",
+                    matches: [{ line: 4, text: "if (a < b) parseDiff(\"x\");", fragments: ["parseDiff"] }]
+                }
+            ]);
+            expect(decodeCursor(response.cursor!)).toEqual({ next: 25 });
+            expect(client.post).toHaveBeenCalledWith("/rest/search/latest/search", {
+                query: "project:PL repo:my-repo parseDiff",
+                entities: { code: { start: 0, limit: 25 }},
+                limits: { primary: 25, secondary: 10 }
+            });
+        });
+
+        it("should resume from the cursor start", async() => {
+            client.post.mockResolvedValueOnce({ code: { isLastPage: true, count: 30, start: 25, values: [] }});
+
+            const handler = toolHandlers.get("searchCode")!;
+
+            await handler({ workspace: "PL", query: "x", cursor: encodeCursor({ next: 25 }) });
+
+            expect(client.post).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ entities: { code: { start: 25, limit: 25 }}})
+            );
+        });
+    });
+});
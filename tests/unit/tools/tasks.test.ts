@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+import { getPullRequestTasksOutput } from "../../../src/tools/output-schemas.js";
 import { registerTaskTools } from "../../../src/tools/tasks.js";
 import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
 
@@ -51,7 +52,11 @@ describe("Task Tools", () => {
                 const response = extractToolResponse(result as never);
 
                 expect(response.status).toBe("COMPLETED");
-                expect(response.result).toEqual(mockTasks);
+                expect(response.result).toEqual([
+                    { id: 1, content: "Fix bug", state: "OPEN", author: null, commentId: null, createdOn: null, updatedOn: null },
+                    { id: 2, content: "Update docs", state: "RESOLVED", author: null, commentId: null, createdOn: null, updatedOn: null }
+                ]);
+                expect(() => getPullRequestTasksOutput.parse(response)).not.toThrow();
             });
 
             it("should handle 404", async() => {
@@ -146,7 +151,18 @@ describe("Task Tools", () => {
                 const response = extractToolResponse(result as never);
 
                 expect(response.status).toBe("COMPLETED");
-                expect(response.result).toEqual(mockTask);
+                expect(response.result).toEqual(expect.objectContaining({ id: 42, content: "Fix it", state: "OPEN" }));
+            });
+
+            it("should keep the original payload with raw", async() => {
+                const mockTask = { id: 42, content: { raw: "Fix it" }, state: "UNRESOLVED", comment: { id: 7 }};
+
+                client.get.mockResolvedValueOnce(mockTask);
+
+                const handler = toolHandlers.get("getPullRequestTask")!;
+                const response = extractToolResponse(await handler({ repoSlug: "my-repo", pullRequestId: 1, taskId: 42, raw: true }) as never);
+
+                expect(response.result).toEqual(expect.objectContaining({ state: "OPEN", commentId: 7, raw: mockTask }));
             });
 
             it("should handle 404", async() => {
@@ -243,7 +259,10 @@ describe("Task Tools", () => {
                 const response = extractToolResponse(result as never);
 
                 expect(response.status).toBe("COMPLETED");
-                expect(response.result).toEqual(mockBlockers);
+                expect(response.result).toEqual([
+                    expect.objectContaining({ id: 1, content: "Fix the bug", state: "OPEN" }),
+                    expect.objectContaining({ id: 2, content: "Update docs", state: "RESOLVED" })
+                ]);
                 expect(client.getPaginated).toHaveBeenCalledWith(
                     expect.stringContaining("/blocker-comments"),
                     expect.anything()
@@ -325,7 +344,7 @@ describe("Task Tools", () => {
                 const response = extractToolResponse(result as never);
 
                 expect(response.status).toBe("COMPLETED");
-                expect(response.result).toEqual(mockBlocker);
+                expect(response.result).toEqual(expect.objectContaining({ id: 42, content: "Fix it", state: "OPEN" }));
                 expect(client.get).toHaveBeenCalledWith(
                     expect.stringContaining("/blocker-comments/42")
                 );
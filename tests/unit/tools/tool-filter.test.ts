@@ -0,0 +1,49 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { ToolFilter, type ToolFilterOptions } from "../../../src/tools/tool-filter.js";
+
+/** Registers a read-only `getThing` and a mutating `deleteThing` through the filter scope of `group`. */
+function register(filter: ToolFilter, group: string) {
+    const registerTool = jest.fn();
+    const scoped = filter.scope({ registerTool } as unknown as McpServer, group);
+
+    scoped.registerTool(`get${group}`, { annotations: { readOnlyHint: true }}, async() => ({ content: [] }));
+    scoped.registerTool(`delete${group}`, { annotations: { readOnlyHint: false }}, async() => ({ content: [] }));
+
+    return registerTool.mock.calls.map(call => call[0]);
+}
+
+describe("ToolFilter", () => {
+    const options = (overrides: Partial<ToolFilterOptions>): ToolFilterOptions => ({ readOnly: false, enableTools: [], disableTools: [], ...overrides });
+
+    it("should expose every tool by default", () => {
+        const filter = new ToolFilter(options({}));
+
+        expect(register(filter, "Task")).toEqual(["getTask", "deleteTask"]);
+        expect([...filter.exposed]).toEqual(["getTask", "deleteTask"]);
+    });
+
+    it("should only expose read-only tools in read-only mode", () => {
+        const filter = new ToolFilter(options({ readOnly: true }));
+
+        expect(register(filter, "Task")).toEqual(["getTask"]);
+        expect([...filter.hidden]).toEqual(["deleteTask"]);
+    });
+
+    it("should apply the allow list, then the deny list, by tool name or group", () => {
+        const filter = new ToolFilter(options({ enableTools: ["Task", "getComment"], disableTools: ["deleteTask"] }));
+
+        expect(register(filter, "Task")).toEqual(["getTask"]);
+        expect(register(filter, "Comment")).toEqual(["getComment"]);
+        expect(register(filter, "Review")).toEqual([]);
+    });
+
+    it("should report list entries matching no tool or group", () => {
+        const filter = new ToolFilter(options({ enableTools: ["Task"], disableTools: ["deleteTsk"] }));
+
+        register(filter, "Task");
+
+        expect(filter.unknownEntries()).toEqual(["deleteTsk"]);
+    });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+import { getCurrentUserOutput } from "../../../src/tools/output-schemas.js";
 import { registerWorkspaceTools } from "../../../src/tools/workspace.js";
 import { createMockClient, createPaths, extractToolResponse, make404 } from "./helpers.js";
 
@@ -48,10 +49,33 @@ describe("Workspace Tools", () => {
 
             expect(response.status).toBe("COMPLETED");
             expect(response.message).toBe("Authenticated successfully.");
-            expect(response.result).toEqual(mockUser);
+            expect(response.result).toEqual({ id: "{user-123}", username: "testuser", displayName: "Test User" });
             expect(client.get).toHaveBeenCalledWith("/user");
         });
 
+        it("should report the server properties in the user shape on Data Center", async() => {
+            const dcServer = new McpServer({ name: "test", version: "0.0.1" });
+            const dcClient = createMockClient("datacenter");
+            let handler: ((args: Record<string, unknown>) => Promise<unknown>) | undefined;
+
+            const originalRegisterTool = dcServer.registerTool.bind(dcServer);
+
+            dcServer.registerTool = ((...args: unknown[]) => {
+                if (args[0] === "getCurrentUser") handler = args[args.length - 1] as typeof handler;
+
+                return originalRegisterTool(...(args as Parameters<typeof originalRegisterTool>));
+            }) as typeof dcServer.registerTool;
+
+            registerWorkspaceTools(dcServer, dcClient, createPaths("datacenter"), "PRJ");
+
+            dcClient.get.mockResolvedValueOnce({ version: "9.4.0", displayName: "Bitbucket" });
+
+            const response = extractToolResponse(await handler!({}) as never);
+
+            expect(response.result).toEqual({ id: null, username: null, displayName: "Authenticated User", server: { version: "9.4.0", displayName: "Bitbucket" }});
+            expect(() => getCurrentUserOutput.parse(response)).not.toThrow();
+        });
+
         it("should return error on auth failure", async() => {
             client.get.mockRejectedValueOnce(new Error("Authentication failed"));
 
@@ -139,4 +163,24 @@ describe("Workspace Tools", () => {
             expect(response.message).toContain("not found");
         });
     });
+
+    describe("getRateLimitStatus", () => {
+        it("should report the limiter state and Bitbucket's rate-limit headers", async() => {
+            client.rateLimitStatus.mockReturnValueOnce({
+                requestsPerHour: 1000,
+                maxConcurrency: 4,
+                availableTokens: 998,
+                inFlight: 1,
+                queued: 0,
+                bitbucket: { limit: 1000, nearLimit: true, observedAt: "2026-01-01T00:00:00.000Z" }
+            });
+
+            const result = await toolHandlers.get("getRateLimitStatus")!({});
+            const response = extractToolResponse(result as { content: Array<{ type: string; text: string }> });
+
+            expect(response.status).toBe("COMPLETED");
+            expect(response.message).toBe("998/1000 requests available; Bitbucket reports the limit is near.");
+            expect(response.result).toEqual(expect.objectContaining({ inFlight: 1, bitbucket: expect.objectContaining({ limit: 1000 }) }));
+        });
+    });
 });